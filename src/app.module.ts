@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { ServeStaticModule } from '@nestjs/serve-static';
 import { join } from 'path';
 
@@ -10,8 +11,34 @@ import { WsGateway } from './ws.gateway';
 import { EventBus } from './event-bus';
 import { AvitoWatcherService } from './avito.watcher.service';
 import { TunnelService } from './tunnel.service';
-import { CloudpubService } from './cloudpub.service';
 import { ConfigController } from './config.controller';
+import { ConfigService } from './config.service';
+import { SettingsService } from './settings.service';
+import { SettingsController } from './settings.controller';
+import { SessionCookiesService } from './session-cookies.service';
+import { SessionController } from './session.controller';
+import { ScreencastService } from './screencast.service';
+import { ChatsController } from './chats.controller';
+import { InboxController } from './inbox.controller';
+import { MessagesController } from './messages.controller';
+import { MessageStoreService } from './message-store.service';
+import { ChatBindingsService } from './chat-bindings.service';
+import { MediaController } from './media.controller';
+import { MediaService } from './media.service';
+import { MetricsService } from './metrics.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { TelegramRelayService } from './telegram-relay.service';
+import { AutoRepliesController } from './auto-replies.controller';
+import { AutoReplyService } from './auto-reply.service';
+import { TemplatesController } from './templates.controller';
+import { TemplatesService } from './templates.service';
+import { ScheduledMessagesController } from './scheduled-messages.controller';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { WatcherController } from './watcher.controller';
+import { AuthController } from './auth.controller';
+import { AuthGuard } from './auth.guard';
+import { AuthService } from './auth.service';
 
 @Module({
   imports: [
@@ -21,18 +48,44 @@ import { ConfigController } from './config.controller';
     }),
   ],
   controllers: [
+    AuthController,
     HealthController,
     BindController,
     TunnelController,
     ConfigController,
+    SettingsController,
+    SessionController,
+    ChatsController,
+    InboxController,
+    MessagesController,
+    MediaController,
+    WebhooksController,
+    AutoRepliesController,
+    TemplatesController,
+    ScheduledMessagesController,
+    WatcherController,
   ],
   providers: [
+    ConfigService,
+    SettingsService,
+    SessionCookiesService,
+    ScreencastService,
     AppService,
+    AuthService,
+    { provide: APP_GUARD, useClass: AuthGuard },
     WsGateway,
     EventBus,
+    MessageStoreService,
+    ChatBindingsService,
+    MediaService,
+    MetricsService,
+    WebhooksService,
     AvitoWatcherService,
+    TelegramRelayService,
+    AutoReplyService,
+    TemplatesService,
+    ScheduledMessagesService,
     TunnelService,
-    CloudpubService,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,67 @@
+import { Body, Controller, Get, Post, Req, Res } from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { Public, RequireRole } from './auth.guard';
+import { AuthService, SESSION_COOKIE } from './auth.service';
+import { AvitoWatcherService } from './avito.watcher.service';
+
+type LoginRequest = { token?: string };
+
+type TwoFactorRequest = { code?: string; challengeId?: string };
+
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private readonly auth: AuthService,
+    private readonly watcher: AvitoWatcherService,
+  ) {}
+
+  /** Trades an access token for a session cookie (used by the dashboard). */
+  @Public()
+  @Post('login')
+  login(
+    @Body() body: LoginRequest = {},
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const role = this.auth.authenticateToken(String(body?.token ?? ''));
+    if (!role) return { ok: false, message: 'Invalid token' };
+
+    res.cookie(SESSION_COOKIE, this.auth.createSession(role), {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: req.secure || req.headers['x-forwarded-proto'] === 'https',
+      maxAge: this.auth.sessionTtlMs,
+      path: '/',
+    });
+    return { ok: true, role };
+  }
+
+  @Public()
+  @Post('logout')
+  logout(@Res({ passthrough: true }) res: Response) {
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+    return { ok: true };
+  }
+
+  /** Role of the caller; `ok: false` tells the dashboard to show the login form. */
+  @Public()
+  @Get('me')
+  me(@Req() req: Request) {
+    const role = this.auth.resolve(req.headers);
+    if (!role) return { ok: false, authEnabled: true, role: null };
+    return { ok: true, authEnabled: this.auth.enabled, role };
+  }
+
+  /**
+   * Confirmation code for the Avito login waiting on an `auth_challenge`:
+   * `{ code, challengeId? }`. Whether Avito accepted it comes as the next event.
+   */
+  @RequireRole('operator')
+  @Post('2fa')
+  twoFactor(@Body() body: TwoFactorRequest = {}) {
+    return this.watcher.submitAuthCode(
+      String(body?.code ?? ''),
+      body?.challengeId ? String(body.challengeId) : undefined,
+    );
+  }
+}
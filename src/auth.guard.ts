@@ -0,0 +1,56 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  SetMetadata,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { AuthService, Role, hasRole } from './auth.service';
+
+const ROLE_KEY = 'avito:role';
+
+type Access = Role | 'public';
+
+/** Open to everyone, e.g. health checks and the login endpoint. */
+export const Public = () => SetMetadata(ROLE_KEY, 'public');
+
+/** Minimum role for a handler or controller; without it `viewer` is required. */
+export const RequireRole = (role: Role) => SetMetadata(ROLE_KEY, role);
+
+/** Request with the caller's role, set by AuthGuard. */
+export type AuthedRequest = Request & { role?: Role };
+
+/**
+ * Global guard: every HTTP route needs a viewer unless marked `@Public()`, and
+ * `@RequireRole('operator')` routes need an operator.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auth: AuthService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (context.getType() !== 'http') return true;
+
+    const required =
+      this.reflector.getAllAndOverride<Access | undefined>(ROLE_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? 'viewer';
+    if (required === 'public') return true;
+
+    const req = context.switchToHttp().getRequest<AuthedRequest>();
+    const role = this.auth.resolve(req.headers);
+    if (!role) throw new UnauthorizedException('Login required');
+    if (!hasRole(role, required)) {
+      throw new ForbiddenException(`Requires the ${required} role`);
+    }
+    req.role = role;
+    return true;
+  }
+}
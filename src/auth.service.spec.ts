@@ -0,0 +1,105 @@
+import {
+  AuthService,
+  SESSION_COOKIE,
+  assertAuthForPublicAccess,
+  hasRole,
+  readCookie,
+} from './auth.service';
+import { ConfigService, loadConfig } from './config.service';
+
+describe('AuthService', () => {
+  let auth: AuthService;
+
+  beforeEach(() => {
+    process.env.AUTH_OPERATOR_TOKENS = 'op-1, op-2';
+    process.env.AUTH_VIEWER_TOKENS = 'view-1';
+    process.env.AUTH_SESSION_SECRET = 'test-secret';
+    process.env.AUTH_SESSION_TTL_HOURS = '1';
+    auth = new AuthService(new ConfigService());
+  });
+
+  afterEach(() => {
+    delete process.env.AUTH_OPERATOR_TOKENS;
+    delete process.env.AUTH_VIEWER_TOKENS;
+    delete process.env.AUTH_SESSION_SECRET;
+    delete process.env.AUTH_SESSION_TTL_HOURS;
+  });
+
+  it('maps tokens to roles', () => {
+    expect(auth.authenticateToken('op-2')).toBe('operator');
+    expect(auth.authenticateToken('view-1')).toBe('viewer');
+    expect(auth.authenticateToken('nope')).toBeNull();
+    expect(auth.authenticateToken('')).toBeNull();
+  });
+
+  it('issues sessions that expire and cannot be forged', () => {
+    const now = Date.parse('2025-10-14T06:00:00Z');
+    const session = auth.createSession('viewer', now);
+
+    expect(auth.verifySession(session, now + 1000)).toBe('viewer');
+    expect(auth.verifySession(session, now + 60 * 60 * 1000)).toBeNull();
+    expect(
+      auth.verifySession(session.replace('viewer', 'operator'), now),
+    ).toBeNull();
+    expect(auth.verifySession('operator.9999999999999.abc', now)).toBeNull();
+  });
+
+  it('resolves bearer tokens, session cookies and ?token=', () => {
+    const session = auth.createSession('operator');
+
+    expect(auth.resolve({ authorization: 'Bearer view-1' })).toBe('viewer');
+    expect(auth.resolve({ authorization: 'Bearer bad' })).toBeNull();
+    expect(
+      auth.resolve({ cookie: `theme=dark; ${SESSION_COOKIE}=${session}` }),
+    ).toBe('operator');
+    expect(auth.resolve({}, '/ws?token=op-1')).toBe('operator');
+    expect(auth.resolve({}, '/ws')).toBeNull();
+  });
+
+  it('lets everyone in as operator when no tokens are configured', () => {
+    delete process.env.AUTH_OPERATOR_TOKENS;
+    delete process.env.AUTH_VIEWER_TOKENS;
+    const open = new AuthService(new ConfigService());
+
+    expect(open.enabled).toBe(false);
+    expect(open.resolve({})).toBe('operator');
+  });
+});
+
+describe('assertAuthForPublicAccess', () => {
+  const check = (env: Record<string, string>) => () =>
+    assertAuthForPublicAccess(loadConfig(env));
+
+  it('refuses a public service without tokens', () => {
+    expect(check({ PUBLIC_URL: 'https://a.example' })).toThrow(
+      'AUTH_OPERATOR_TOKENS: required while the service is public (tunnel static)',
+    );
+    expect(check({ CLOUDPUB_ENABLED: 'true' })).toThrow('(tunnel cloudpub)');
+    expect(
+      check({ TUNNEL_PROVIDER: 'none', PUBLIC_URL: 'https://a.example' }),
+    ).toThrow('(PUBLIC_URL)');
+  });
+
+  it('allows a local service without tokens and a public one with them', () => {
+    expect(check({})).not.toThrow();
+    expect(check({ TUNNEL_PROVIDER: 'none' })).not.toThrow();
+    expect(
+      check({ PUBLIC_URL: 'https://a.example', AUTH_VIEWER_TOKENS: 'view-1' }),
+    ).not.toThrow();
+  });
+});
+
+describe('hasRole', () => {
+  it('ranks operator above viewer', () => {
+    expect(hasRole('operator', 'viewer')).toBe(true);
+    expect(hasRole('viewer', 'operator')).toBe(false);
+  });
+});
+
+describe('readCookie', () => {
+  it('finds a cookie by name', () => {
+    expect(readCookie('a=1; b=x%20y', 'b')).toBe('x y');
+    expect(readCookie('ab=1', 'a')).toBeNull();
+    expect(readCookie(undefined, 'a')).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { Injectable } from '@nestjs/common';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import {
+  AppConfig,
+  ConfigService,
+  ConfigValidationError,
+} from './config.service';
+import { TunnelProvider, selectTunnelProvider } from './tunnel-providers';
+
+/** viewer reads the stream and history; operator also binds, replies and controls the watcher. */
+export type Role = 'viewer' | 'operator';
+
+export const SESSION_COOKIE = 'avito_session';
+
+const roleRank: Record<Role, number> = { viewer: 1, operator: 2 };
+
+/** Whether `role` is allowed to do what `required` may. */
+export function hasRole(role: Role, required: Role): boolean {
+  return roleRank[role] >= roleRank[required];
+}
+
+/** Reads one cookie from a `Cookie` header. */
+export function readCookie(
+  header: string | undefined,
+  name: string,
+): string | null {
+  for (const part of (header ?? '').split(';')) {
+    const eq = part.indexOf('=');
+    if (eq < 0 || part.slice(0, eq).trim() !== name) continue;
+    try {
+      return decodeURIComponent(part.slice(eq + 1).trim());
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Refuses a service that is reachable from outside (PUBLIC_URL or a tunnel)
+ * without any access tokens: auth would be off and every visitor an operator.
+ * Tunnels forward to localhost, so the requests cannot be told apart later.
+ */
+export function assertAuthForPublicAccess(config: AppConfig) {
+  const { operatorTokens, viewerTokens } = config.auth;
+  if (operatorTokens.length || viewerTokens.length) return;
+
+  let provider: TunnelProvider | null = null;
+  try {
+    provider = selectTunnelProvider(config);
+  } catch {
+    // A provider without its settings never starts; the tunnel reports it
+  }
+  if (!provider && !config.app.publicUrl) return;
+
+  const exposedBy = provider ? `tunnel ${provider.name}` : 'PUBLIC_URL';
+  throw new ConfigValidationError([
+    `AUTH_OPERATOR_TOKENS: required while the service is public (${exposedBy})`,
+  ]);
+}
+
+/**
+ * Access tokens and dashboard sessions.
+ *
+ * Tokens come from AUTH_OPERATOR_TOKENS and AUTH_VIEWER_TOKENS (comma-separated).
+ * API clients send one as `Authorization: Bearer <token>`; the dashboard trades
+ * it for a signed session cookie at `POST /auth/login`. Sessions are stateless
+ * (`<role>.<expires>.<hmac>`) and signed with AUTH_SESSION_SECRET, or with a
+ * random per-process secret when it is not set.
+ *
+ * Without any tokens configured auth is off and every caller is an operator;
+ * `assertAuthForPublicAccess` keeps such a service from starting in public.
+ */
+@Injectable()
+export class AuthService {
+  private readonly tokens: { digest: Buffer; role: Role }[];
+  private readonly secret: string;
+
+  readonly sessionTtlMs: number;
+
+  constructor(config: ConfigService) {
+    const auth = config.get('auth');
+    this.tokens = [
+      ...auth.operatorTokens.map((t) => ({
+        digest: digest(t),
+        role: 'operator' as const,
+      })),
+      ...auth.viewerTokens.map((t) => ({
+        digest: digest(t),
+        role: 'viewer' as const,
+      })),
+    ];
+    this.secret = auth.sessionSecret ?? randomBytes(32).toString('hex');
+    this.sessionTtlMs = auth.sessionTtlHours * 60 * 60 * 1000;
+  }
+
+  get enabled(): boolean {
+    return this.tokens.length > 0;
+  }
+
+  /** Role of an access token; null for unknown tokens. */
+  authenticateToken(token: string): Role | null {
+    const hashed = digest(token.trim());
+    // Compare against every token so the timing does not reveal which matched
+    let role: Role | null = null;
+    for (const entry of this.tokens) {
+      if (timingSafeEqual(entry.digest, hashed) && !role) role = entry.role;
+    }
+    return role;
+  }
+
+  createSession(role: Role, now = Date.now()): string {
+    const payload = `${role}.${now + this.sessionTtlMs}`;
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /** Role of a session cookie value; null when it is forged or expired. */
+  verifySession(value: string, now = Date.now()): Role | null {
+    const [role, expires, signature] = value.split('.');
+    if (role !== 'viewer' && role !== 'operator') return null;
+    if (!signature || !(Number(expires) > now)) return null;
+
+    const expected = Buffer.from(this.sign(`${role}.${expires}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length) return null;
+    return timingSafeEqual(expected, actual) ? role : null;
+  }
+
+  /**
+   * Role of an HTTP request or WS upgrade: bearer token, session cookie, or
+   * `?token=` (for WS clients that cannot set headers). Null when none is valid.
+   */
+  resolve(headers: IncomingHttpHeaders, url?: string): Role | null {
+    if (!this.enabled) return 'operator';
+
+    const bearer = /^Bearer\s+(.+)$/i.exec(headers.authorization ?? '')?.[1];
+    if (bearer) return this.authenticateToken(bearer);
+
+    const session = readCookie(headers.cookie, SESSION_COOKIE);
+    if (session) {
+      const role = this.verifySession(session);
+      if (role) return role;
+    }
+
+    const queryToken = url
+      ? new URL(url, 'http://localhost').searchParams.get('token')
+      : null;
+    return queryToken ? this.authenticateToken(queryToken) : null;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret)
+      .update(payload)
+      .digest('base64url');
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { RequireRole } from './auth.guard';
+import { AutoReplyService } from './auto-reply.service';
+import type { AutoReplyInput } from './auto-reply.service';
+
+// Rules send messages on the account's behalf, so they are operator-only
+@RequireRole('operator')
+@Controller('auto-replies')
+export class AutoRepliesController {
+  constructor(private readonly autoReplies: AutoReplyService) {}
+
+  @Get()
+  list() {
+    return {
+      ok: true,
+      dryRun: this.autoReplies.dryRun,
+      timeZone: this.autoReplies.timeZone,
+      rules: this.autoReplies.list(),
+    };
+  }
+
+  /**
+   * Adds a rule: `{ name, reply, keywords?: string[], pattern?, hours?: { from: 'HH:MM', to: 'HH:MM' },
+   * chats?: string[], cooldownMinutes?: 60, dryRun?: false, enabled?: true }`.
+   * Needs keywords or a pattern.
+   */
+  @Post()
+  create(@Body() body: AutoReplyInput = {}) {
+    try {
+      return { ok: true, rule: this.autoReplies.create(body ?? {}) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, message };
+    }
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string) {
+    const rule = this.autoReplies.get(id);
+    if (!rule) return { ok: false, id, message: 'Rule not found' };
+    return { ok: true, rule };
+  }
+
+  /** Changes the given fields; `null` clears `pattern` and `hours`. */
+  @Patch(':id')
+  update(@Param('id') id: string, @Body() body: AutoReplyInput = {}) {
+    try {
+      const rule = this.autoReplies.update(id, body ?? {});
+      if (!rule) return { ok: false, id, message: 'Rule not found' };
+      return { ok: true, rule };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, id, message };
+    }
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string) {
+    if (!this.autoReplies.remove(id)) {
+      return { ok: false, id, message: 'Rule not found' };
+    }
+    return { ok: true, id };
+  }
+}
@@ -0,0 +1,197 @@
+import { AutoReplyService } from './auto-reply.service';
+import { AvitoWatcherService } from './avito.watcher.service';
+import { ConfigService } from './config.service';
+import { EventBus, StreamEvent } from './event-bus';
+
+const incoming: StreamEvent = {
+  type: 'message',
+  channelId: 'u2i-aBc123',
+  messageId: 'm-1',
+  direction: 'incoming',
+  from: 'Рушан',
+  text: 'Какая ЦЕНА, ещё актуально?',
+  attachments: [],
+  listing: {
+    itemId: '3456789012',
+    title: 'Велосипед Stels',
+    price: '12 000 ₽',
+    priceValue: 12000,
+    url: 'https://www.avito.ru/kazan/velosipedy/velosiped_stels_3456789012',
+    imageUrl: null,
+  },
+  at: '2025-10-14T06:12:00.000Z',
+};
+
+describe('AutoReplyService', () => {
+  let bus: EventBus;
+  let sendMessage: jest.Mock;
+  let service: AutoReplyService;
+  let statuses: string[];
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-10-14T09:00:00.000Z') });
+    bus = new EventBus();
+    sendMessage = jest.fn().mockResolvedValue({
+      requestId: 'r-1',
+      channelId: incoming.channelId,
+      ok: true,
+      started: true,
+    });
+    const watcher = { sendMessage } as unknown as AvitoWatcherService;
+    service = new AutoReplyService(bus, watcher, new ConfigService());
+    statuses = [];
+    bus.events$.subscribe((evt) => {
+      if (evt.type === 'status') statuses.push(evt.message);
+    });
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('replies to matching messages once per cooldown', async () => {
+    service.create({
+      name: 'Цена',
+      keywords: ['актуально'],
+      reply: '{name}, {item} за {price} ещё в продаже',
+      cooldownMinutes: 30,
+    });
+
+    bus.emit({ ...incoming, direction: 'outgoing' });
+    bus.emit(incoming);
+    bus.emit(incoming);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sendMessage.mock.calls).toEqual([
+      ['u2i-aBc123', 'Рушан, Велосипед Stels за 12 000 ₽ ещё в продаже'],
+    ]);
+    expect(statuses).toEqual(['Auto-reply "Цена" sent to u2i-aBc123']);
+
+    // Cooldowns are per chat
+    bus.emit({ ...incoming, channelId: 'u2i-other' });
+    await jest.advanceTimersByTimeAsync(30 * 60_000);
+    bus.emit(incoming);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sendMessage).toHaveBeenCalledTimes(3);
+  });
+
+  it('matches by pattern, chat and time of day', async () => {
+    service.create({
+      name: 'Ночь',
+      pattern: '^какая\\s+цена',
+      // 09:00Z is 12:00 in Moscow
+      hours: { from: '22:00', to: '08:00' },
+      reply: 'Отвечу утром',
+    });
+    const day = service.create({
+      name: 'День',
+      pattern: 'цена',
+      chats: ['u2i-aBc123'],
+      reply: 'Цена {price}',
+    });
+
+    bus.emit({ ...incoming, channelId: 'u2i-other' });
+    bus.emit(incoming);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sendMessage.mock.calls).toEqual([['u2i-aBc123', 'Цена 12 000 ₽']]);
+
+    service.update(day.id, { enabled: false });
+    await jest.advanceTimersByTimeAsync(11 * 60 * 60_000);
+    bus.emit(incoming);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sendMessage).toHaveBeenLastCalledWith('u2i-aBc123', 'Отвечу утром');
+  });
+
+  it('does not answer its own reply read back as incoming', async () => {
+    service.create({ name: 'Цена', keywords: ['цена'], reply: 'Скидка есть' });
+    service.create({
+      name: 'Скидка',
+      keywords: ['скидка'],
+      reply: 'Цена та же',
+    });
+
+    bus.emit(incoming);
+    await jest.advanceTimersByTimeAsync(5000);
+    bus.emit({ ...incoming, messageId: 'm-2', text: 'Скидка есть' });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sendMessage.mock.calls).toEqual([['u2i-aBc123', 'Скидка есть']]);
+
+    // The same text from the other side later on is a real message
+    await jest.advanceTimersByTimeAsync(60_000);
+    bus.emit({ ...incoming, messageId: 'm-3', text: 'Скидка есть' });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sendMessage).toHaveBeenLastCalledWith('u2i-aBc123', 'Цена та же');
+  });
+
+  it('only suggests the reply in dry-run mode', async () => {
+    service.create({
+      name: 'Цена',
+      keywords: ['цена'],
+      reply: 'Да, {name}',
+      dryRun: true,
+    });
+
+    bus.emit(incoming);
+    bus.emit(incoming);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sendMessage).not.toHaveBeenCalled();
+    expect(statuses).toEqual([
+      'Auto-reply suggestion for u2i-aBc123 (rule "Цена"): Да, Рушан',
+    ]);
+  });
+
+  it('reports failed sends', async () => {
+    sendMessage.mockResolvedValue({
+      requestId: 'r-1',
+      channelId: incoming.channelId,
+      ok: false,
+      started: false,
+      error: 'Chat u2i-aBc123 is not open',
+    });
+    service.create({ name: 'Цена', keywords: ['цена'], reply: 'Да' });
+
+    bus.emit(incoming);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(statuses).toEqual([
+      'Auto-reply "Цена" to u2i-aBc123 failed: Chat u2i-aBc123 is not open',
+    ]);
+  });
+
+  it('validates rules', () => {
+    expect(() =>
+      service.create({
+        name: ' ',
+        pattern: '(',
+        hours: { from: '25:00', to: '08:00' },
+        cooldownMinutes: -1,
+      }),
+    ).toThrow(
+      /^name: required; reply: required; pattern: .+; hours: .+; cooldownMinutes: .+$/,
+    );
+    expect(() => service.create({ name: 'x', reply: 'y' })).toThrow(
+      'keywords or pattern: at least one is required',
+    );
+    expect(() =>
+      service.create({
+        name: 'x',
+        keywords: ['a'],
+        reply: 'y',
+        cooldownMinutes: 0,
+      }),
+    ).toThrow('cooldownMinutes: expected an integer of at least 1');
+
+    const rule = service.create({ name: 'x', keywords: ['a'], reply: 'y' });
+    expect(() => service.update(rule.id, { keywords: [] })).toThrow(
+      'keywords or pattern',
+    );
+    expect(service.update('missing', { name: 'z' })).toBeNull();
+    expect(service.get(rule.id)).toMatchObject({
+      keywords: ['a'],
+      cooldownMinutes: 60,
+      dryRun: false,
+      enabled: true,
+    });
+    expect(service.remove(rule.id)).toBe(true);
+    expect(service.list()).toEqual([]);
+  });
+});
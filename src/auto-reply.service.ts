@@ -0,0 +1,408 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventBus, StreamEvent } from './event-bus';
+import { AvitoWatcherService } from './avito.watcher.service';
+import { ConfigService } from './config.service';
+import { renderReply, replyVariables } from './reply-text';
+
+type MessageEvent = Extract<StreamEvent, { type: 'message' }>;
+
+export type AutoReplyHours = {
+  /** "HH:MM", inclusive. */
+  from: string;
+  /** "HH:MM", exclusive; earlier than `from` means the range wraps midnight. */
+  to: string;
+};
+
+export type AutoReplyRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Matches when the text contains any of them, ignoring case and ё/е. */
+  keywords: string[];
+  /** Case-insensitive regular expression, as an alternative to keywords. */
+  pattern: string | null;
+  /** Time of day in AUTO_REPLY_TIMEZONE; null means any time. */
+  hours: AutoReplyHours | null;
+  /** Channel IDs the rule is limited to; empty means every chat. */
+  chats: string[];
+  /** Reply text with `{name}`, `{item}` and `{price}` placeholders. */
+  reply: string;
+  /** Minimum pause between two replies of this rule in one chat. */
+  cooldownMinutes: number;
+  /** Only suggest the reply in a status event instead of sending it. */
+  dryRun: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AutoReplyInput = {
+  name?: unknown;
+  enabled?: unknown;
+  keywords?: unknown;
+  pattern?: unknown;
+  hours?: unknown;
+  chats?: unknown;
+  reply?: unknown;
+  cooldownMinutes?: unknown;
+  dryRun?: unknown;
+};
+
+type StoredFile = { rules?: AutoReplyInput[] };
+
+const DEFAULT_COOLDOWN_MINUTES = 60;
+// How long a sent reply may come back as an incoming message: the send waits
+// for the bubble up to ~10s, and the side of a bubble is not always detected
+const OWN_ECHO_MS = 30 * 1000;
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/ё/g, 'е').replace(/\s+/g, ' ').trim();
+}
+
+function minutesOf(time: string): number {
+  const [, h, m] = TIME_RE.exec(time) ?? [];
+  return Number(h) * 60 + Number(m);
+}
+
+function inHours(hours: AutoReplyHours, minutes: number): boolean {
+  const from = minutesOf(hours.from);
+  const to = minutesOf(hours.to);
+  return from <= to
+    ? minutes >= from && minutes < to
+    : minutes >= from || minutes < to;
+}
+
+function stringList(raw: unknown, name: string, problems: string[]): string[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw) || raw.some((item) => typeof item !== 'string')) {
+    problems.push(`${name}: expected an array of strings`);
+    return [];
+  }
+  const items = (raw as string[]).map((item) => item.trim()).filter(Boolean);
+  return Array.from(new Set(items));
+}
+
+/**
+ * Validates a rule; `base` supplies the fields a partial update leaves out.
+ * Throws with every problem at once.
+ */
+function parseRule(
+  input: AutoReplyInput,
+  base: AutoReplyRule | null,
+  now: string,
+): AutoReplyRule {
+  const problems: string[] = [];
+  const has = (key: keyof AutoReplyInput) => input[key] !== undefined;
+
+  const name = has('name') ? String(input.name as string).trim() : base?.name;
+  if (!name) problems.push('name: required');
+
+  const reply = has('reply')
+    ? String(input.reply as string).trim()
+    : base?.reply;
+  if (!reply) problems.push('reply: required');
+
+  const keywords = has('keywords')
+    ? stringList(input.keywords, 'keywords', problems)
+    : (base?.keywords ?? []);
+  const chats = has('chats')
+    ? stringList(input.chats, 'chats', problems)
+    : (base?.chats ?? []);
+
+  let pattern = base?.pattern ?? null;
+  if (has('pattern')) {
+    pattern =
+      input.pattern === null ? null : String(input.pattern as string) || null;
+    if (pattern) {
+      try {
+        new RegExp(pattern, 'i');
+      } catch (e) {
+        problems.push(`pattern: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  }
+  if (!keywords.length && !pattern) {
+    problems.push('keywords or pattern: at least one is required');
+  }
+
+  let hours = base?.hours ?? null;
+  if (has('hours')) {
+    const raw = input.hours as Partial<AutoReplyHours> | null;
+    if (raw === null) {
+      hours = null;
+    } else if (
+      typeof raw !== 'object' ||
+      !TIME_RE.test(String(raw.from)) ||
+      !TIME_RE.test(String(raw.to)) ||
+      raw.from === raw.to
+    ) {
+      problems.push('hours: expected { from: "HH:MM", to: "HH:MM" }');
+    } else {
+      hours = { from: String(raw.from), to: String(raw.to) };
+    }
+  }
+
+  let cooldownMinutes = base?.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES;
+  if (has('cooldownMinutes')) {
+    const value = Number(input.cooldownMinutes);
+    if (!Number.isInteger(value) || value < 1) {
+      problems.push('cooldownMinutes: expected an integer of at least 1');
+    } else {
+      cooldownMinutes = value;
+    }
+  }
+
+  const flag = (key: 'enabled' | 'dryRun', fallback: boolean) => {
+    if (!has(key)) return fallback;
+    if (typeof input[key] !== 'boolean') {
+      problems.push(`${key}: expected true or false`);
+      return fallback;
+    }
+    return input[key];
+  };
+  const enabled = flag('enabled', base?.enabled ?? true);
+  const dryRun = flag('dryRun', base?.dryRun ?? false);
+
+  if (problems.length) throw new Error(problems.join('; '));
+  return {
+    id: base?.id ?? randomUUID(),
+    name: name!,
+    enabled,
+    keywords,
+    pattern,
+    hours,
+    chats,
+    reply: reply!,
+    cooldownMinutes,
+    dryRun,
+    createdAt: base?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Auto-replies: incoming messages are checked against the rules in the order
+ * they were created, and the first one that matches sends its reply through
+ * the watcher. A rule matches on keywords or a regex, optionally limited to
+ * certain chats and hours, and stays quiet in a chat for its cooldown after
+ * replying there.
+ *
+ * Rules in dry-run mode (or all of them with AUTO_REPLY_DRY_RUN) only post the
+ * reply they would send as a status event. Rules live in
+ * `.avito-auto-replies.json`; cooldowns are kept in memory.
+ */
+@Injectable()
+export class AutoReplyService implements OnModuleDestroy {
+  private readonly filePath: string | null;
+  private readonly rules = new Map<string, AutoReplyRule>();
+  private readonly patterns = new Map<string, RegExp>();
+  // `${ruleId}:${channelId}` → when the rule last replied in that chat
+  private readonly lastReplies = new Map<string, number>();
+  // `${channelId}:${normalized text}` → when a reply was sent there
+  private readonly sentReplies = new Map<string, number>();
+  private readonly subscription: Subscription;
+  private readonly clock: Intl.DateTimeFormat;
+
+  readonly dryRun: boolean;
+  readonly timeZone: string;
+
+  constructor(
+    private readonly bus: EventBus,
+    private readonly watcher: AvitoWatcherService,
+    config: ConfigService,
+  ) {
+    const autoReply = config.get('autoReply');
+    this.dryRun = autoReply.dryRun;
+    this.timeZone = autoReply.timeZone;
+    this.clock = new Intl.DateTimeFormat('en-GB', {
+      timeZone: this.timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+
+    // In tests keep rules in memory only
+    this.filePath = config.isTest
+      ? null
+      : path.join(process.cwd(), '.avito-auto-replies.json');
+
+    this.load();
+    this.subscription = this.bus.events$.subscribe((evt) => {
+      if (evt.type === 'message') this.handle(evt);
+    });
+  }
+
+  onModuleDestroy() {
+    this.subscription.unsubscribe();
+  }
+
+  list(): AutoReplyRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  get(id: string): AutoReplyRule | null {
+    return this.rules.get(id) ?? null;
+  }
+
+  create(input: AutoReplyInput): AutoReplyRule {
+    const rule = parseRule(input ?? {}, null, new Date().toISOString());
+    this.put(rule);
+    this.save();
+    return rule;
+  }
+
+  /** Partial update; null when the rule does not exist. */
+  update(id: string, input: AutoReplyInput): AutoReplyRule | null {
+    const current = this.rules.get(id);
+    if (!current) return null;
+    const rule = parseRule(input ?? {}, current, new Date().toISOString());
+    this.put(rule);
+    this.save();
+    return rule;
+  }
+
+  remove(id: string): boolean {
+    if (!this.rules.delete(id)) return false;
+    this.patterns.delete(id);
+    for (const key of this.lastReplies.keys()) {
+      if (key.startsWith(`${id}:`)) this.lastReplies.delete(key);
+    }
+    this.save();
+    return true;
+  }
+
+  private handle(evt: MessageEvent) {
+    if (evt.direction !== 'incoming' || !evt.text.trim()) return;
+
+    const now = Date.now();
+    for (const [key, at] of this.sentReplies) {
+      if (now - at >= OWN_ECHO_MS) this.sentReplies.delete(key);
+    }
+    // Our own reply read back as incoming must not trigger another one
+    if (this.sentReplies.has(`${evt.channelId}:${normalize(evt.text)}`)) return;
+
+    const rule = this.list().find((r) => this.matches(r, evt, now));
+    if (!rule) return;
+
+    const text = renderReply(rule.reply, replyVariables(evt.from, evt.listing));
+    if (!text) return;
+    this.lastReplies.set(`${rule.id}:${evt.channelId}`, now);
+
+    if (this.dryRun || rule.dryRun) {
+      this.status(
+        'info',
+        `Auto-reply suggestion for ${evt.channelId} (rule "${rule.name}"): ${text}`,
+      );
+      return;
+    }
+    this.sentReplies.set(`${evt.channelId}:${normalize(text)}`, now);
+    void this.send(rule, evt.channelId, text);
+  }
+
+  private matches(rule: AutoReplyRule, evt: MessageEvent, now: number) {
+    if (!rule.enabled) return false;
+    if (rule.chats.length && !rule.chats.includes(evt.channelId)) return false;
+    if (rule.hours && !inHours(rule.hours, this.minutesOfDay(now))) {
+      return false;
+    }
+
+    const last = this.lastReplies.get(`${rule.id}:${evt.channelId}`);
+    if (last !== undefined && now - last < rule.cooldownMinutes * 60_000) {
+      return false;
+    }
+
+    const text = normalize(evt.text);
+    if (rule.keywords.some((k) => text.includes(normalize(k)))) return true;
+    return this.patterns.get(rule.id)?.test(evt.text) ?? false;
+  }
+
+  private async send(rule: AutoReplyRule, channelId: string, text: string) {
+    try {
+      const result = await this.watcher.sendMessage(channelId, text);
+      if (result.ok) {
+        this.status('info', `Auto-reply "${rule.name}" sent to ${channelId}`);
+      } else {
+        this.status(
+          'warn',
+          `Auto-reply "${rule.name}" to ${channelId} failed: ${result.error ?? 'unknown error'}`,
+        );
+      }
+    } catch (e) {
+      this.status(
+        'warn',
+        `Auto-reply "${rule.name}" to ${channelId} failed: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+  }
+
+  private minutesOfDay(now: number): number {
+    const parts = this.clock.formatToParts(new Date(now));
+    const part = (type: string) =>
+      Number(parts.find((p) => p.type === type)?.value ?? 0);
+    return part('hour') * 60 + part('minute');
+  }
+
+  private put(rule: AutoReplyRule) {
+    this.rules.set(rule.id, rule);
+    if (rule.pattern) this.patterns.set(rule.id, new RegExp(rule.pattern, 'i'));
+    else this.patterns.delete(rule.id);
+  }
+
+  private status(level: 'info' | 'warn', message: string) {
+    this.bus.emit({
+      type: 'status',
+      level,
+      message,
+      at: new Date().toISOString(),
+    });
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    let stored: StoredFile;
+    try {
+      stored = JSON.parse(
+        fs.readFileSync(this.filePath, 'utf-8'),
+      ) as StoredFile;
+    } catch {
+      this.status(
+        'warn',
+        `Auto-replies: cannot read ${this.filePath}, starting without rules`,
+      );
+      return;
+    }
+
+    // The file may have been edited by hand: skip the rules that do not parse
+    const now = new Date().toISOString();
+    for (const [index, item] of (stored?.rules ?? []).entries()) {
+      try {
+        const rule = parseRule(item ?? {}, null, now);
+        const { id, createdAt, updatedAt } = (item ?? {}) as Partial<
+          Record<'id' | 'createdAt' | 'updatedAt', unknown>
+        >;
+        if (typeof id === 'string' && id) rule.id = id;
+        if (typeof createdAt === 'string') rule.createdAt = createdAt;
+        if (typeof updatedAt === 'string') rule.updatedAt = updatedAt;
+        this.put(rule);
+      } catch (e) {
+        this.status(
+          'warn',
+          `Auto-replies: rule #${index + 1} in ${this.filePath} skipped: ${e instanceof Error ? e.message : String(e)}`,
+        );
+      }
+    }
+  }
+
+  private save() {
+    if (!this.filePath) return;
+    fs.writeFileSync(
+      this.filePath,
+      JSON.stringify({ rules: this.list() }, null, 2),
+      'utf-8',
+    );
+  }
+}
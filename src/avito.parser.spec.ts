@@ -0,0 +1,334 @@
+/**
+ * @jest-environment jsdom
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { AvitoParser, ParsedMessage, createAvitoParser } from './avito.parser';
+
+function loadFixture(name: string): Document {
+  const html = fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf-8');
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+describe('createAvitoParser', () => {
+  describe('chat-markers.html (data-marker layout)', () => {
+    let doc: Document;
+    let parser: AvitoParser;
+
+    beforeEach(() => {
+      doc = loadFixture('chat-markers.html');
+      parser = createAvitoParser(doc);
+    });
+
+    it('reads the chat title from the chat header', () => {
+      expect(parser.readChatTitle()).toBe('Рушан');
+    });
+
+    it('finds the message list, not the dialog sidebar', () => {
+      const container = parser.findMessageContainer();
+      expect(container?.getAttribute('data-marker')).toBe('chat/messages');
+    });
+
+    it('reads the newest message with its ID and server time', () => {
+      expect(parser.readLastMessage()).toEqual({
+        text: 'Договорились, завтра в 18:00',
+        direction: 'outgoing',
+        author: '',
+        id: 'm-1004',
+        sentAt: '2025-10-14T06:12:00.000Z',
+        attachments: [],
+      });
+    });
+
+    it('collects a newly added incoming bubble with its author', () => {
+      const bubble = doc.createElement('div');
+      bubble.setAttribute('data-marker', 'message');
+      bubble.style.alignSelf = 'flex-start';
+      bubble.innerHTML =
+        '<div data-marker="message/author">Рушан</div><div data-marker="message/text">Буду в 18:00</div><div data-marker="message/time">09:30</div>';
+      doc.querySelector('[data-marker="chat/messages"]')?.appendChild(bubble);
+
+      const expected = {
+        text: 'Буду в 18:00',
+        direction: 'incoming',
+        author: 'Рушан',
+        id: null,
+        sentAt: null,
+        attachments: [],
+      };
+      expect(parser.collectMessages(bubble)).toEqual([expected]);
+      expect(parser.readLastMessage()).toEqual(expected);
+    });
+
+    it('reports one message per bubble when a child node is added', () => {
+      const text = doc.querySelector(
+        '[data-marker="chat/messages"] [data-marker="message/text"]',
+      ) as Element;
+      expect(parser.collectMessages(text)).toEqual([
+        {
+          text: 'Здравствуйте! Велосипед ещё продаётся?',
+          direction: null,
+          author: 'Рушан',
+          id: 'm-1001',
+          sentAt: '2025-10-13T18:14:00.000Z',
+          attachments: [],
+        },
+      ]);
+    });
+
+    it('keeps repeated texts apart by message ID', () => {
+      const list = doc.querySelector('[data-marker="chat/messages"]');
+      const parsed = ['m-2001', 'm-2002'].map((id, i) => {
+        const bubble = doc.createElement('div');
+        bubble.setAttribute('data-marker', 'message');
+        bubble.setAttribute('data-message-id', id);
+        bubble.setAttribute('data-timestamp', String(1760425800 + i));
+        bubble.innerHTML = '<div data-marker="message/text">ок</div>';
+        list?.appendChild(bubble);
+        return parser.collectMessages(bubble)[0];
+      });
+
+      expect(parsed.map((m) => [m?.id, m?.sentAt])).toEqual([
+        ['m-2001', '2025-10-14T07:10:00.000Z'],
+        ['m-2002', '2025-10-14T07:10:01.000Z'],
+      ]);
+    });
+
+    it('observes repeated texts without IDs as separate bubbles', async () => {
+      const list = doc.querySelector('[data-marker="chat/messages"]')!;
+      const emitted: ParsedMessage[] = [];
+      const observer = parser.observeMessages(list, (m) => emitted.push(m));
+
+      const bubbles = [0, 1].map(() => {
+        const bubble = doc.createElement('div');
+        bubble.setAttribute('data-marker', 'message');
+        bubble.innerHTML = '<div data-marker="message/text">ок</div>';
+        list.appendChild(bubble);
+        return bubble;
+      });
+      await new Promise((r) => setTimeout(r, 0));
+      // A bubble that was already reported is not reported again
+      const time = doc.createElement('div');
+      time.setAttribute('data-marker', 'message/time');
+      time.textContent = '09:31';
+      bubbles[0].appendChild(time);
+      await new Promise((r) => setTimeout(r, 0));
+      observer.disconnect();
+
+      expect(emitted.map((m) => [m.text, m.id])).toEqual([
+        ['ок', null],
+        ['ок', null],
+      ]);
+    });
+
+    it('ignores nodes inside navigation', () => {
+      const aside = doc.querySelector('aside') as Element;
+      expect(parser.collectMessages(aside)).toEqual([]);
+    });
+
+    it('reads the listing card from the chat header', () => {
+      expect(parser.readListing()).toEqual({
+        itemId: '3456789012',
+        title: 'Велосипед Stels Navigator 700',
+        price: '12 000 ₽',
+        priceValue: 12000,
+        url: '/kazan/velosipedy/velosiped_stels_navigator_700_3456789012',
+        imageUrl: 'https://img.avito.st/140x105/bike-1.jpg',
+      });
+    });
+
+    it('reads the dialog list with unread counters', () => {
+      expect(parser.readDialogs()).toEqual([
+        {
+          href: '/profile/messenger/channel/u2i-aBc123',
+          name: 'Рушан',
+          itemTitle: 'Велосипед Stels Navigator 700',
+          snippet: 'Договорились, завтра в 18:00',
+          unread: 0,
+        },
+        {
+          href: '/profile/messenger/channel/u2i-xYz789',
+          name: 'Поддержка Авито',
+          itemTitle: '',
+          snippet: 'Мы рады помочь',
+          unread: 0,
+        },
+        {
+          href: '/profile/messenger/channel/u2i-nEw456',
+          name: 'Ольга',
+          itemTitle: 'Детская коляска Cybex',
+          snippet: 'А торг возможен?',
+          unread: 2,
+        },
+      ]);
+    });
+  });
+
+  describe('chat-media.html (attachments)', () => {
+    let parser: AvitoParser;
+    let messages: ParsedMessage[];
+
+    beforeEach(() => {
+      parser = createAvitoParser(loadFixture('chat-media.html'));
+      const container = parser.findMessageContainer() as Element;
+      messages = Array.from(container.children).flatMap((node) =>
+        parser.collectMessages(node, container),
+      );
+    });
+
+    it('keeps the caption of a photo and skips the avatar', () => {
+      expect(messages[0]).toMatchObject({
+        id: 'p-1',
+        text: 'Вот так выглядит вживую',
+        attachments: [
+          {
+            type: 'image',
+            url: 'https://img.avito.st/1280x960/sofa-1.jpg',
+            name: 'Фото',
+          },
+        ],
+      });
+    });
+
+    it('reports media-only bubbles with empty text', () => {
+      expect(messages.slice(1, 3)).toMatchObject([
+        {
+          id: 'p-2',
+          text: '',
+          direction: 'incoming',
+          attachments: [
+            {
+              type: 'voice',
+              url: 'blob:https://www.avito.ru/6f1c2d3e',
+              name: null,
+            },
+          ],
+        },
+        {
+          id: 'p-3',
+          text: '',
+          direction: 'outgoing',
+          attachments: [
+            {
+              type: 'file',
+              url: 'https://www.avito.ru/messenger/files/abc/dogovor.pdf',
+              name: 'dogovor.pdf',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('reads a listing card as one attachment, not its thumbnail', () => {
+      expect(messages[3]).toMatchObject({
+        text: 'Это он?',
+        attachments: [
+          {
+            type: 'item',
+            url: 'https://www.avito.ru/moskva/mebel/divan_uglovoy_2871234567',
+            name: 'Диван угловой',
+          },
+        ],
+      });
+    });
+
+    it('reads a shared location', () => {
+      expect(messages[4].attachments).toEqual([
+        {
+          type: 'location',
+          url: 'https://yandex.ru/maps/?pt=37.6173,55.7558',
+          name: 'Москва, Тверская ул., 1',
+        },
+      ]);
+    });
+  });
+
+  describe('chat-bubbles.html (class-based layout)', () => {
+    let parser: AvitoParser;
+
+    beforeEach(() => {
+      parser = createAvitoParser(loadFixture('chat-bubbles.html'));
+    });
+
+    it('reads the chat title', () => {
+      expect(parser.readChatTitle()).toBe('Марина');
+    });
+
+    it('finds the message feed', () => {
+      expect(parser.findMessageContainer()?.className).toBe('chat-feed');
+    });
+
+    it('keeps only the last line of a multi-line bubble', () => {
+      expect(parser.readLastMessage()?.text).toBe('пришлите адрес');
+    });
+
+    it('does not take layout ids or list keys for message IDs', () => {
+      expect(parser.readLastMessage()?.id).toBeNull();
+    });
+
+    it('tells incoming and outgoing bubbles apart by modifier class', () => {
+      const container = parser.findMessageContainer() as Element;
+      const directions = Array.from(container.children).flatMap((node) =>
+        parser.collectMessages(node, container).map((m) => m.direction),
+      );
+      expect(directions).toEqual(['incoming', 'outgoing', 'incoming']);
+    });
+
+    it('finds the listing link in the chat header without markers', () => {
+      expect(parser.readListing()).toEqual({
+        itemId: '1234567890',
+        title: 'Диван угловой',
+        price: '25 000 ₽',
+        priceValue: 25000,
+        url: 'https://www.avito.ru/moskva/mebel/divan_uglovoy_1234567890?slocation=621540',
+        imageUrl: null,
+      });
+    });
+
+    it('reads a dialog without markers line by line', () => {
+      expect(parser.readDialogs()).toEqual([
+        {
+          href: 'https://www.avito.ru/profile/messenger/channel/u2i-cls111',
+          name: 'Марина',
+          itemTitle: 'Диван угловой',
+          snippet: 'Отлично, пришлите адрес',
+          unread: 1,
+        },
+      ]);
+    });
+  });
+
+  describe('isUiNoise', () => {
+    const parser = createAvitoParser(document);
+
+    it.each([
+      'Уведомления',
+      'Кошелёк',
+      'Сегодня',
+      'вторник',
+      'Понедельник, 12 октября',
+      '21:14',
+      'Войти или зарегистрироваться',
+      '   ',
+    ])('treats "%s" as noise', (text) => {
+      expect(parser.isUiNoise(text)).toBe(true);
+    });
+
+    it.each(['Ещё актуально?', 'Где забрать?', 'Завтра в 18:00'])(
+      'keeps "%s"',
+      (text) => {
+        expect(parser.isUiNoise(text)).toBe(false);
+      },
+    );
+  });
+
+  it('returns nothing on a page without a message list', () => {
+    document.body.innerHTML =
+      '<main><h1>Вход</h1><form><input type="tel"></form></main>';
+    const parser = createAvitoParser(document);
+
+    expect(parser.findMessageContainer()).toBeNull();
+    expect(parser.readLastMessage()).toBeNull();
+    expect(parser.readListing()).toBeNull();
+  });
+});
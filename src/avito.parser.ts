@@ -0,0 +1,833 @@
+/**
+ * DOM-only parsing of the Avito messenger page.
+ *
+ * `createAvitoParser` must stay self-contained (no imports, no references to
+ * anything outside its body): the watcher injects it into the Puppeteer page
+ * via `toString()`, and the Jest suite runs the very same function under jsdom
+ * against saved chat HTML.
+ */
+export type MessageDirection = 'incoming' | 'outgoing';
+
+export type AttachmentKind =
+  | 'image'
+  | 'video'
+  | 'voice'
+  | 'file'
+  | 'item'
+  | 'location'
+  | 'link';
+
+/** Media or card found in a bubble. */
+export type ParsedAttachment = {
+  type: AttachmentKind;
+  /** Absolute media URL (may be a blob: URL for voice notes), when present. */
+  url: string | null;
+  /** File name, listing title, location name or image alt text. */
+  name: string | null;
+};
+
+export type ParsedMessage = {
+  /** Last text line of the bubble, '' for media without a caption. */
+  text: string;
+  /** null when neither markers nor layout tell which side wrote it. */
+  direction: MessageDirection | null;
+  /** Author label shown in the bubble, '' when there is none. */
+  author: string;
+  /** Avito message ID from the bubble attributes, when the markup exposes it. */
+  id: string | null;
+  /** Server time from a `<time datetime>` or timestamp attribute, as ISO. */
+  sentAt: string | null;
+  attachments: ParsedAttachment[];
+};
+
+/** One conversation in the messenger dialog list. */
+export type ParsedDialog = {
+  /** Channel link as written in the page (may be relative). */
+  href: string;
+  /** Counterpart name. */
+  name: string;
+  /** Listing the conversation is about, '' when the list does not show it. */
+  itemTitle: string;
+  /** Preview of the last message. */
+  snippet: string;
+  /** Unread badge count; 1 when the dialog is only marked as unread. */
+  unread: number;
+};
+
+/** Listing card in the chat header: the item the conversation is about. */
+export type ParsedListing = {
+  /** Avito item ID from the card attributes or the listing URL. */
+  itemId: string | null;
+  title: string;
+  /** Price label as shown, e.g. "12 000 ₽". */
+  price: string | null;
+  /** Price in rubles, when the label has digits. */
+  priceValue: number | null;
+  /** Listing link as written in the page (may be relative). */
+  url: string | null;
+  imageUrl: string | null;
+};
+
+export type AvitoParser = {
+  messageSelectors: string;
+  isUiNoise(text: string): boolean;
+  isInsideNav(el: Element | null): boolean;
+  extractMessageText(el: Element): string;
+  findMessageContainer(): Element | null;
+  /** The newest message bubble, or null when none is found. */
+  readLastMessage(): ParsedMessage | null;
+  /**
+   * Messages found in (or around) a node, e.g. one added by a mutation.
+   * Pass the observed container to skip looking it up again.
+   */
+  collectMessages(node: Node, container?: Element): ParsedMessage[];
+  /**
+   * Calls `emit` for every bubble added under `container`, once per bubble
+   * element; mutations within `graceMs` of the start are ignored.
+   */
+  observeMessages(
+    container: Element,
+    emit: (message: ParsedMessage) => void,
+    graceMs?: number,
+  ): MutationObserver;
+  readChatTitle(): string;
+  /** Dialogs of the messenger sidebar, top to bottom. */
+  readDialogs(): ParsedDialog[];
+  /** Listing shown in the header of the open chat, or null. */
+  readListing(): ParsedListing | null;
+};
+
+/** Page globals installed by the watcher. */
+export type AvitoPageWindow = Window & {
+  __avitoParser: AvitoParser;
+  __avitoObserverInstalled?: boolean;
+  __emitAvitoMessage(payload: ParsedMessage & { at: string }): void;
+};
+
+export function createAvitoParser(doc: Document): AvitoParser {
+  const norm = (s: string) => (s || '').replace(/\s+/g, ' ').trim();
+
+  const messageSelectors = [
+    '[data-marker*="message"]',
+    '[data-marker*="msg"]',
+    '[role="listitem"]',
+    'article',
+    '[class*="message"]',
+    '[class*="bubble"]',
+  ].join(', ');
+
+  const chatTitleSelectors = [
+    'header h1',
+    'header h2',
+    'main header h1',
+    'main header h2',
+    '[data-marker*="chat-title"]',
+    '[class*="title"]',
+    '[class*="header"] h1',
+    '[class*="header"] h2',
+  ];
+
+  const dialogLinkSelector = 'a[href*="/messenger/channel/"]';
+  const dialogNameSelectors = [
+    '[data-marker*="channel/user"]',
+    '[data-marker*="user-name"]',
+    '[class*="user-name"]',
+    '[class*="userName"]',
+  ].join(', ');
+  const dialogItemSelectors = [
+    '[data-marker*="item-title"]',
+    '[data-marker*="channel/item"]',
+    '[class*="item-title"]',
+    '[class*="itemTitle"]',
+  ].join(', ');
+  const dialogSnippetSelectors = [
+    '[data-marker*="last-message"]',
+    '[class*="last-message"]',
+    '[class*="lastMessage"]',
+    '[class*="snippet"]',
+  ].join(', ');
+  const unreadSelectors = [
+    '[data-marker*="unread"]',
+    '[data-marker*="counter"]',
+    '[class*="unread"]',
+    '[class*="counter"]',
+    '[class*="badge"]',
+  ].join(', ');
+
+  const listingSelectors = [
+    '[data-marker="chat/item"]',
+    '[data-marker*="chat/item"]',
+    '[data-marker*="chat-item"]',
+    '[class*="chat-item"]',
+    '[class*="chatItem"]',
+  ].join(', ');
+  const chatHeaderSelectors = [
+    '[data-marker*="chat/header"]',
+    '[class*="chat-header"]',
+    '[class*="chatHeader"]',
+    'main header',
+  ].join(', ');
+  // Listing pages end with `_<item id>`; some links use /items/<id>
+  const itemIdInUrlRe = /(?:_|\/items\/)(\d{6,})(?:[/?#]|$)/;
+  const priceRe = /\d[\d\s\u00a0]*(?:[.,]\d+)?\s*(?:₽|руб)/i;
+
+  const exactNoise = new Set([
+    'уведомления',
+    'кошелек',
+    'кошелёк',
+    'платные услуги',
+    'мои резюме',
+    'избранное',
+    'объявления',
+    'профиль',
+    'настройки',
+    'помощь',
+    'перейти в помощь',
+    'поддержка',
+    'поддержка авито',
+    'служба поддержки',
+    'партнерская программа',
+    'услуги',
+    'доставка',
+    'звонки',
+  ]);
+
+  const authorSelectors = [
+    '[data-marker*="author"]',
+    '[class*="author"]',
+    '[class*="sender"]',
+  ].join(', ');
+
+  // Class / data-marker tokens that tell which side of the chat a bubble is on
+  const outgoingTokens = new Set([
+    'out',
+    'outgoing',
+    'own',
+    'my',
+    'mine',
+    'self',
+    'sent',
+    'right',
+  ]);
+  const incomingTokens = new Set([
+    'in',
+    'incoming',
+    'income',
+    'their',
+    'received',
+    'left',
+    'companion',
+    'interlocutor',
+  ]);
+
+  const timeLabelRe = /^\d{1,2}:\d{2}$/;
+
+  // Only attributes that name a message: a layout `id` or a list `data-key`
+  // would pass for one and merge or hide real messages
+  const idAttributes = ['data-message-id', 'data-msg-id'];
+  const timeAttributes = ['data-created', 'data-timestamp', 'data-time'];
+
+  // Checked in order; anything inside an already matched element is skipped,
+  // so a voice widget or listing card is reported once, not as its parts
+  const attachmentRules: { type: AttachmentKind; selector: string }[] = [
+    {
+      type: 'item',
+      selector:
+        '[data-marker*="item-card"], [data-marker*="message/item"], [class*="item-card"], [class*="itemCard"]',
+    },
+    {
+      type: 'location',
+      selector:
+        '[data-marker*="location"], [class*="location"], a[href*="maps"]',
+    },
+    {
+      type: 'file',
+      selector:
+        '[data-marker*="file"], [class*="file-attachment"], [class*="message-file"], a[download]',
+    },
+    {
+      type: 'voice',
+      selector: '[data-marker*="voice"], [class*="voice"], audio',
+    },
+    { type: 'video', selector: 'video' },
+    { type: 'image', selector: 'img' },
+  ];
+
+  const dateRe =
+    /^(понедельник|вторник|среда|четверг|пятница|суббота|воскресенье),?\s+\d{1,2}\s+(января|февраля|марта|апреля|мая|июня|июля|августа|сентября|октября|ноября|декабря)$/i;
+
+  // Elements that start a new line when innerText is not available (jsdom)
+  const blockTags = new Set([
+    'ADDRESS',
+    'ARTICLE',
+    'ASIDE',
+    'BLOCKQUOTE',
+    'DIV',
+    'FIGCAPTION',
+    'FOOTER',
+    'FORM',
+    'H1',
+    'H2',
+    'H3',
+    'H4',
+    'H5',
+    'H6',
+    'HEADER',
+    'LI',
+    'MAIN',
+    'NAV',
+    'OL',
+    'P',
+    'PRE',
+    'SECTION',
+    'TABLE',
+    'TD',
+    'TIME',
+    'TR',
+    'UL',
+  ]);
+
+  const isUiNoise = (text: string) => {
+    const t = norm(text).toLowerCase();
+    if (!t) return true;
+
+    if (exactNoise.has(t)) return true;
+    if (/^сегодня$|^вчера$/.test(t)) return true;
+    if (
+      /^(понедельник|вторник|среда|четверг|пятница|суббота|воскресенье)$/.test(
+        t,
+      )
+    ) {
+      return true;
+    }
+    if (dateRe.test(t)) return true;
+    // Time labels inside bubbles ("21:14")
+    if (timeLabelRe.test(t)) return true;
+    if (/войти|регистрация/i.test(t)) return true;
+
+    return false;
+  };
+
+  const isInsideNav = (el: Element | null) =>
+    !!el?.closest('nav, aside, header, [role="navigation"]');
+
+  /** innerText-like lines; falls back to a block-tag walk where layout is unavailable. */
+  const textLines = (el: Element): string[] => {
+    const innerText = (el as HTMLElement).innerText;
+    if (typeof innerText === 'string') {
+      return innerText.split('\n').map(norm).filter(Boolean);
+    }
+
+    const lines: string[] = [];
+    let current = '';
+    const flush = () => {
+      const line = norm(current);
+      if (line) lines.push(line);
+      current = '';
+    };
+    const walk = (node: Node) => {
+      if (node.nodeType === 3) {
+        current += ` ${node.textContent ?? ''}`;
+        return;
+      }
+      if (node.nodeType !== 1) return;
+      const tag = (node as Element).tagName;
+      if (tag === 'SCRIPT' || tag === 'STYLE') return;
+      if (tag === 'BR') {
+        flush();
+        return;
+      }
+      const block = blockTags.has(tag);
+      if (block) flush();
+      node.childNodes.forEach(walk);
+      if (block) flush();
+    };
+    walk(el);
+    flush();
+    return lines;
+  };
+
+  const extractMessageText = (el: Element) => {
+    const lines = textLines(el).filter((line) => !timeLabelRe.test(line));
+    return lines.length ? lines[lines.length - 1] : norm(el.textContent ?? '');
+  };
+
+  const isMessageText = (text: string) =>
+    text.length > 0 && text.length <= 4000 && !isUiNoise(text);
+
+  const findMessageContainer = (): Element | null => {
+    const containers: Map<Element, number> = new Map();
+    const nodes = Array.from(doc.querySelectorAll(messageSelectors)).filter(
+      (node) => !isInsideNav(node),
+    );
+
+    for (const node of nodes) {
+      let cur: Element | null = node;
+      for (let i = 0; i < 6 && cur; i++) {
+        if (
+          cur.tagName === 'BODY' ||
+          cur.tagName === 'HTML' ||
+          cur.tagName === 'MAIN'
+        ) {
+          break;
+        }
+        if (!isInsideNav(cur)) {
+          containers.set(cur, (containers.get(cur) ?? 0) + 1);
+        }
+        cur = cur.parentElement;
+      }
+    }
+
+    let best: { el: Element; count: number } | null = null;
+    for (const [el, count] of containers.entries()) {
+      if (!best || count > best.count) best = { el, count };
+    }
+
+    if (!best || best.count < 2) return null;
+    return best.el;
+  };
+
+  /** Outermost message element below the container that holds `node`. */
+  const findBubble = (node: Element, container: Element): Element => {
+    let bubble = node;
+    for (
+      let cur = node.parentElement;
+      cur && cur !== container;
+      cur = cur.parentElement
+    ) {
+      if (cur.matches(messageSelectors)) bubble = cur;
+    }
+    return bubble;
+  };
+
+  const markerDirection = (el: Element): MessageDirection | null => {
+    const raw = `${el.getAttribute('class') ?? ''} ${el.getAttribute('data-marker') ?? ''}`;
+    for (const token of raw.toLowerCase().split(/[^a-z]+/)) {
+      if (outgoingTokens.has(token)) return 'outgoing';
+      if (incomingTokens.has(token)) return 'incoming';
+    }
+    return null;
+  };
+
+  const layoutDirection = (el: Element): MessageDirection | null => {
+    // Documents built with DOMParser (tests) have no view of their own
+    const view =
+      doc.defaultView ?? (typeof window === 'undefined' ? null : window);
+    if (!view) return null;
+
+    const style = view.getComputedStyle(el);
+    if (
+      style.alignSelf === 'flex-end' ||
+      style.alignSelf === 'end' ||
+      style.marginLeft === 'auto'
+    ) {
+      return 'outgoing';
+    }
+    if (style.alignSelf === 'flex-start' || style.alignSelf === 'start') {
+      return 'incoming';
+    }
+
+    // Rendered page: own bubbles hug the right edge of the feed
+    const parent = el.parentElement;
+    if (!parent) return null;
+    const rect = el.getBoundingClientRect();
+    const parentRect = parent.getBoundingClientRect();
+    if (rect.width <= 0 || parentRect.width <= 0) return null;
+    const leftGap = rect.left - parentRect.left;
+    const rightGap = parentRect.right - rect.right;
+    if (Math.abs(leftGap - rightGap) < 24) return null;
+    return leftGap > rightGap ? 'outgoing' : 'incoming';
+  };
+
+  const detectDirection = (
+    node: Element,
+    bubble: Element,
+    container: Element,
+  ): MessageDirection | null => {
+    const path: Element[] = [];
+    for (let cur: Element | null = node; cur; cur = cur.parentElement) {
+      path.push(cur);
+      if (cur === bubble) break;
+    }
+    // A row wrapper around the bubble often carries the side modifier
+    const row = bubble.parentElement;
+    if (row && row !== container) path.push(row);
+
+    for (const el of path) {
+      const direction = markerDirection(el);
+      if (direction) return direction;
+    }
+    return layoutDirection(bubble) ?? (row ? layoutDirection(row) : null);
+  };
+
+  /** The bubble itself, plus its row wrapper when there is one. */
+  const bubbleScope = (bubble: Element, container: Element) => {
+    const row = bubble.parentElement;
+    return row && row !== container ? [bubble, row] : [bubble];
+  };
+
+  const readMessageId = (bubble: Element, container: Element) => {
+    for (const el of bubbleScope(bubble, container)) {
+      for (const attr of idAttributes) {
+        const value = norm(el.getAttribute(attr) ?? '');
+        if (value) return value;
+      }
+    }
+    const inner = bubble.querySelector(
+      idAttributes.map((attr) => `[${attr}]`).join(', '),
+    );
+    for (const attr of idAttributes) {
+      const value = norm(inner?.getAttribute(attr) ?? '');
+      if (value) return value;
+    }
+    return null;
+  };
+
+  // Same rules as toIsoTime in avito.payload.ts (this function cannot import it)
+  const toIso = (raw: string) => {
+    const value = raw.trim();
+    if (!value) return null;
+    let ms = Date.parse(value);
+    if (/^\d+$/.test(value)) {
+      const n = Number(value);
+      ms = n < 1e11 ? n * 1000 : n >= 1e17 ? n / 1e6 : n >= 1e14 ? n / 1e3 : n;
+    }
+    if (!Number.isFinite(ms) || ms <= 0) return null;
+    return new Date(Math.round(ms)).toISOString();
+  };
+
+  const readSentAt = (bubble: Element, container: Element) => {
+    const time = bubble.querySelector('time[datetime]');
+    const fromTime = toIso(time?.getAttribute('datetime') ?? '');
+    if (fromTime) return fromTime;
+
+    for (const el of bubbleScope(bubble, container)) {
+      for (const attr of timeAttributes) {
+        const value = toIso(el.getAttribute(attr) ?? '');
+        if (value) return value;
+      }
+    }
+    return null;
+  };
+
+  const absoluteUrl = (raw: string | null | undefined) => {
+    const value = (raw ?? '').trim();
+    if (!value) return null;
+    try {
+      return new URL(value, doc.baseURI).href;
+    } catch {
+      return value;
+    }
+  };
+
+  const isAvatar = (img: Element) => {
+    const hint = `${img.getAttribute('class') ?? ''} ${img.getAttribute('alt') ?? ''} ${img.closest('[class*="avatar"], [data-marker*="avatar"]') ? 'avatar' : ''}`;
+    return /avatar|аватар/i.test(hint);
+  };
+
+  const mediaUrl = (el: Element, type: AttachmentKind) => {
+    if (type === 'image') {
+      const img = el as HTMLImageElement;
+      return absoluteUrl(img.currentSrc || el.getAttribute('src'));
+    }
+    if (type === 'voice' || type === 'video') {
+      const media = el.matches('audio, video')
+        ? el
+        : el.querySelector('audio, video');
+      const src =
+        media?.getAttribute('src') ??
+        media?.querySelector('source[src]')?.getAttribute('src');
+      return absoluteUrl(src);
+    }
+    const link = el.matches('a[href]') ? el : el.querySelector('a[href]');
+    return absoluteUrl(link?.getAttribute('href'));
+  };
+
+  const attachmentName = (el: Element, type: AttachmentKind) => {
+    if (type === 'image') return norm(el.getAttribute('alt') ?? '') || null;
+    if (type === 'voice' || type === 'video') return null;
+    const download = norm(el.getAttribute('download') ?? '');
+    if (download) return download;
+    const lines = textLines(el).filter((line) => !timeLabelRe.test(line));
+    return lines[0] ?? null;
+  };
+
+  /** Attachments of a bubble, plus the text lines that belong to them. */
+  const collectAttachments = (bubble: Element) => {
+    const matched: Element[] = [];
+    const attachments: ParsedAttachment[] = [];
+    const lines: string[] = [];
+
+    for (const rule of attachmentRules) {
+      for (const el of Array.from(bubble.querySelectorAll(rule.selector))) {
+        if (matched.some((m) => m.contains(el))) continue;
+        if (rule.type === 'image' && isAvatar(el)) continue;
+        matched.push(el);
+        attachments.push({
+          type: rule.type,
+          url: mediaUrl(el, rule.type),
+          name: attachmentName(el, rule.type),
+        });
+        lines.push(...textLines(el));
+      }
+    }
+
+    // Report in document order, as they appear in the bubble
+    const order = attachments.map((a, i) => ({ a, el: matched[i] }));
+    order.sort((x, y) =>
+      x.el.compareDocumentPosition(y.el) & 4 /* FOLLOWING */ ? -1 : 1,
+    );
+    return { attachments: order.map((o) => o.a), lines };
+  };
+
+  const parseBubble = (
+    bubble: Element,
+    node: Element,
+    container: Element,
+  ): ParsedMessage | null => {
+    const authorEl = bubble.querySelector(authorSelectors);
+    const author = authorEl ? norm(textLines(authorEl).join(' ')) : '';
+
+    const media = collectAttachments(bubble);
+    const lines = textLines(bubble).filter((line) => !timeLabelRe.test(line));
+    if (author && lines[0] === author) lines.shift();
+    for (const line of media.lines) {
+      const index = lines.indexOf(line);
+      if (index >= 0) lines.splice(index, 1);
+    }
+
+    const last = lines.length ? lines[lines.length - 1] : '';
+    const text = isMessageText(last) ? last : '';
+    if (!text && !media.attachments.length) return null;
+
+    return {
+      text,
+      direction: detectDirection(node, bubble, container),
+      author,
+      id: readMessageId(bubble, container),
+      sentAt: readSentAt(bubble, container),
+      attachments: media.attachments,
+    };
+  };
+
+  const readLastMessage = (): ParsedMessage | null => {
+    const container = findMessageContainer();
+    if (!container) return null;
+
+    const checked = new Set<Element>();
+    const candidates = Array.from(container.querySelectorAll(messageSelectors));
+    for (let i = candidates.length - 1; i >= 0; i -= 1) {
+      const node = candidates[i];
+      if (isInsideNav(node)) continue;
+      const bubble = findBubble(node, container);
+      if (checked.has(bubble)) continue;
+      checked.add(bubble);
+
+      const message = parseBubble(bubble, node, container);
+      if (message) return message;
+    }
+    return null;
+  };
+
+  // Bubbles in (or around) a node, each with the first message node found in it
+  const findBubbles = (node: Node, root: Element) => {
+    const bubbles = new Map<Element, Element>();
+    if (node.nodeType !== 1) return bubbles;
+    const el = node as Element;
+    if (isInsideNav(el)) return bubbles;
+
+    const messageNodes: Element[] = [];
+    if (el.matches?.(messageSelectors)) messageNodes.push(el);
+    messageNodes.push(...Array.from(el.querySelectorAll(messageSelectors)));
+
+    for (const msgNode of messageNodes) {
+      if (msgNode === root || !root.contains(msgNode)) continue;
+      if (isInsideNav(msgNode)) continue;
+      const bubble = findBubble(msgNode, root);
+      if (!bubbles.has(bubble)) bubbles.set(bubble, msgNode);
+    }
+    return bubbles;
+  };
+
+  const collectMessages = (
+    node: Node,
+    container?: Element,
+  ): ParsedMessage[] => {
+    const root = container ?? findMessageContainer();
+    if (!root) return [];
+
+    const messages: ParsedMessage[] = [];
+    for (const [bubble, msgNode] of findBubbles(node, root)) {
+      const message = parseBubble(bubble, msgNode, root);
+      if (message) messages.push(message);
+    }
+    return messages;
+  };
+
+  const observeMessages = (
+    container: Element,
+    emit: (message: ParsedMessage) => void,
+    graceMs = 0,
+  ) => {
+    // Dedup by element only: two bubbles with the same text and no ID are two
+    // messages, and matching them to known ones is up to the watcher
+    const reported = new WeakSet<Element>();
+    const startTs = Date.now();
+
+    const observer = new MutationObserver((mutations) => {
+      if (Date.now() - startTs < graceMs) return;
+      for (const m of mutations) {
+        for (const node of Array.from(m.addedNodes)) {
+          for (const [bubble, msgNode] of findBubbles(node, container)) {
+            if (reported.has(bubble)) continue;
+            const message = parseBubble(bubble, msgNode, container);
+            if (!message) continue;
+            reported.add(bubble);
+            emit(message);
+          }
+        }
+      }
+    });
+    observer.observe(container, { childList: true, subtree: true });
+    return observer;
+  };
+
+  const readChatTitle = () => {
+    for (const sel of chatTitleSelectors) {
+      const el = doc.querySelector(sel);
+      if (!el) continue;
+      const text = norm(textLines(el).join(' '));
+      if (text) return text;
+    }
+    return '';
+  };
+
+  const fieldText = (root: Element, selectors: string) => {
+    for (const el of Array.from(root.querySelectorAll(selectors))) {
+      const text = norm(textLines(el).join(' '));
+      if (text) return text;
+    }
+    return '';
+  };
+
+  const readUnread = (link: Element) => {
+    const badge = link.querySelector(unreadSelectors);
+    if (badge) {
+      const count = parseInt(
+        norm(badge.textContent ?? '').replace(/\D/g, ''),
+        10,
+      );
+      return Number.isFinite(count) ? count : 1;
+    }
+    return link.matches('[class*="unread"], [data-marker*="unread"]') ? 1 : 0;
+  };
+
+  const findListingCard = (): Element | null => {
+    const card = doc.querySelector(listingSelectors);
+    if (card && !card.closest(messageSelectors)) return card;
+    // No markers: the header link that points at a listing page
+    for (const header of Array.from(
+      doc.querySelectorAll(chatHeaderSelectors),
+    )) {
+      const link = Array.from(header.querySelectorAll('a[href]')).find((a) =>
+        itemIdInUrlRe.test(a.getAttribute('href') ?? ''),
+      );
+      if (link) return link;
+    }
+    return null;
+  };
+
+  const readListing = (): ParsedListing | null => {
+    const card = findListingCard();
+    if (!card) return null;
+
+    const link = card.matches('a[href]')
+      ? card
+      : (card.querySelector('a[href]') ?? card.closest('a[href]'));
+    const url = link?.getAttribute('href') || null;
+    const img = card.querySelector('img');
+    const imageUrl =
+      img?.getAttribute('src') ||
+      img?.getAttribute('data-src') ||
+      img?.getAttribute('srcset')?.split(/\s+/)[0] ||
+      null;
+
+    const text = norm(textLines(card).join(' · '));
+    const price =
+      fieldText(card, '[data-marker*="price"], [class*="price"]') ||
+      priceRe.exec(text)?.[0].trim() ||
+      null;
+    const digits = price?.split(/[.,]/)[0].replace(/\D/g, '') ?? '';
+    const lines = textLines(card).filter((line) => line !== price);
+    const title =
+      fieldText(card, '[data-marker*="title"], [class*="title"]') ||
+      norm((lines[0] ?? '').replace(priceRe, '').replace(/[·•|]\s*$/, '')) ||
+      norm(img?.getAttribute('alt') ?? '');
+
+    const itemId =
+      card.getAttribute('data-item-id') ||
+      link?.getAttribute('data-item-id') ||
+      itemIdInUrlRe.exec(url ?? '')?.[1] ||
+      null;
+
+    if (!title && !url) return null;
+    return {
+      itemId,
+      title,
+      price,
+      priceValue: digits ? Number(digits) : null,
+      url,
+      imageUrl,
+    };
+  };
+
+  const readDialogs = () => {
+    const dialogs: ParsedDialog[] = [];
+    const seen = new Set<string>();
+    for (const link of Array.from(doc.querySelectorAll(dialogLinkSelector))) {
+      const href = link.getAttribute('href') ?? '';
+      if (!href || seen.has(href)) continue;
+      seen.add(href);
+
+      // Markup without markers: name, [listing,] last message, by line
+      const lines = textLines(link).filter(
+        (line) => !isUiNoise(line) && !/^\d+\+?$/.test(line),
+      );
+      const name = fieldText(link, dialogNameSelectors) || lines[0] || '';
+      const itemTitle =
+        fieldText(link, dialogItemSelectors) ||
+        (lines.length >= 3 ? lines[1] : '');
+      const snippet =
+        fieldText(link, dialogSnippetSelectors) ||
+        (lines.length >= 2 ? lines[lines.length - 1] : '');
+      dialogs.push({
+        href,
+        name,
+        itemTitle,
+        snippet,
+        unread: readUnread(link),
+      });
+    }
+    return dialogs;
+  };
+
+  return {
+    messageSelectors,
+    isUiNoise,
+    isInsideNav,
+    extractMessageText,
+    findMessageContainer,
+    readLastMessage,
+    collectMessages,
+    observeMessages,
+    readChatTitle,
+    readDialogs,
+    readListing,
+  };
+}
+
+/**
+ * Installs the parser as `window.__avitoParser` (idempotent; safe to run
+ * before every evaluate, since navigation resets the page globals).
+ */
+export const avitoParserScript = `window.__avitoParser = window.__avitoParser || (${createAvitoParser.toString()})(document);`;
@@ -0,0 +1,167 @@
+import {
+  decodeMessengerPayload,
+  findSessionUserId,
+  parseSocketFrame,
+  toIsoTime,
+} from './avito.payload';
+
+describe('decodeMessengerPayload', () => {
+  it('decodes messages from a messenger API response', () => {
+    const payload = {
+      success: {
+        channelId: 'u2i-aBc123',
+        messages: [
+          {
+            id: 'm1',
+            authorId: 101,
+            created: 1760000000,
+            direction: 'in',
+            type: 'text',
+            content: { text: 'ок' },
+          },
+          {
+            id: 'm2',
+            authorId: 202,
+            created: 1760000060,
+            direction: 'out',
+            type: 'text',
+            content: { text: 'Договорились,  завтра' },
+          },
+        ],
+      },
+    };
+
+    expect(decodeMessengerPayload(payload)).toEqual([
+      {
+        id: 'm1',
+        channelId: 'u2i-aBc123',
+        text: 'ок',
+        at: '2025-10-09T08:53:20.000Z',
+        direction: 'incoming',
+        authorId: '101',
+        attachments: [],
+      },
+      {
+        id: 'm2',
+        channelId: 'u2i-aBc123',
+        text: 'Договорились, завтра',
+        at: '2025-10-09T08:54:20.000Z',
+        direction: 'outgoing',
+        authorId: '202',
+        attachments: [],
+      },
+    ]);
+  });
+
+  it('keeps two identical texts apart by ID', () => {
+    const payload = {
+      type: 'Message',
+      value: [
+        { id: 'a', chatId: 'c', body: { text: 'ок' }, created: 1760000000 },
+        { id: 'b', chatId: 'c', body: { text: 'ок' }, created: 1760000005 },
+      ],
+    };
+
+    expect(decodeMessengerPayload(payload).map((m) => m.id)).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('decodes socket message frames with media', () => {
+    const frame = parseSocketFrame(
+      JSON.stringify({
+        seq: '17',
+        type: 'Message',
+        value: {
+          id: 'f3a1',
+          channelId: 'u2i-aBc123',
+          fromUid: 555,
+          created: 1760000000123000000,
+          type: 'image',
+          body: {
+            image: {
+              sizes: {
+                '140x105': 'https://img.avito.st/140x105/1.jpg',
+                '1280x960': 'https://img.avito.st/1280x960/1.jpg',
+              },
+            },
+          },
+        },
+      }),
+    );
+
+    expect(decodeMessengerPayload(frame)).toEqual([
+      {
+        id: 'f3a1',
+        channelId: 'u2i-aBc123',
+        text: '',
+        at: '2025-10-09T08:53:20.123Z',
+        direction: null,
+        authorId: '555',
+        attachments: [
+          {
+            type: 'image',
+            url: 'https://img.avito.st/1280x960/1.jpg',
+            name: null,
+            mime: null,
+            size: null,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('ignores objects without an ID, text or timestamp', () => {
+    expect(
+      decodeMessengerPayload({
+        channels: [{ id: 'u2i-1', title: 'Диван' }],
+        draft: { text: 'не отправлено' },
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe('parseSocketFrame', () => {
+  it('strips Socket.IO packet prefixes', () => {
+    expect(parseSocketFrame('42["message",{"id":1}]')).toEqual([
+      'message',
+      { id: 1 },
+    ]);
+  });
+
+  it.each(['2probe', '3', '{broken', ''])('returns null for %p', (raw) => {
+    expect(parseSocketFrame(raw)).toBeNull();
+  });
+});
+
+describe('findSessionUserId', () => {
+  it('reads the user ID from the session frame', () => {
+    expect(findSessionUserId({ type: 'session', value: { userId: 555 } })).toBe(
+      '555',
+    );
+  });
+
+  it('ignores other frames', () => {
+    expect(
+      findSessionUserId({ type: 'Message', value: { userId: 555 } }),
+    ).toBeNull();
+  });
+});
+
+describe('toIsoTime', () => {
+  it.each([
+    [1760000000, '2025-10-09T08:53:20.000Z'],
+    [1760000000123, '2025-10-09T08:53:20.123Z'],
+    [1760000000123000, '2025-10-09T08:53:20.123Z'],
+    [1760000000123000000, '2025-10-09T08:53:20.123Z'],
+    ['1760000000', '2025-10-09T08:53:20.000Z'],
+    ['2025-10-09T11:53:20+03:00', '2025-10-09T08:53:20.000Z'],
+  ])('normalizes %p', (raw, expected) => {
+    expect(toIsoTime(raw)).toBe(expected);
+  });
+
+  it.each([null, '', 'вчера', 0, -5])('rejects %p', (raw) => {
+    expect(toIsoTime(raw)).toBeNull();
+  });
+});
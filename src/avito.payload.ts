@@ -0,0 +1,251 @@
+import {
+  AttachmentKind,
+  MessageDirection,
+  ParsedAttachment,
+} from './avito.parser';
+
+/** Media or card attached to a message, as described by the payload. */
+export type DecodedAttachment = ParsedAttachment & {
+  mime: string | null;
+  size: number | null;
+};
+
+/** A message found in Avito messenger JSON (HTTP responses or socket frames). */
+export type DecodedMessage = {
+  id: string;
+  channelId: string | null;
+  /** Message text or caption; '' for media-only messages. */
+  text: string;
+  /** Server time as ISO string, null when the payload has none. */
+  at: string | null;
+  direction: MessageDirection | null;
+  authorId: string | null;
+  attachments: DecodedAttachment[];
+};
+
+type Json = Record<string, unknown>;
+
+const MAX_DEPTH = 12;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function pickString(obj: Json, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = obj[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return String(value);
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalizes Avito timestamps: unix seconds, milliseconds, microseconds or
+ * nanoseconds (the messenger socket uses the latter), or an ISO string.
+ */
+export function toIsoTime(raw: unknown): string | null {
+  if (typeof raw === 'string' && raw.trim()) {
+    if (/^\d+(\.\d+)?$/.test(raw.trim())) return toIsoTime(Number(raw));
+    const parsed = Date.parse(raw);
+    return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+  }
+  if (typeof raw !== 'number' || !Number.isFinite(raw) || raw <= 0) {
+    return null;
+  }
+
+  let ms = raw;
+  if (raw < 1e11) ms = raw * 1000;
+  else if (raw >= 1e17) ms = raw / 1e6;
+  else if (raw >= 1e14) ms = raw / 1e3;
+
+  const date = new Date(Math.round(ms));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function readText(obj: Json): string | null {
+  const direct = pickString(obj, ['text', 'body']);
+  if (direct) return direct;
+
+  for (const key of ['content', 'body']) {
+    const nested = obj[key];
+    if (isObject(nested)) {
+      const text = pickString(nested, ['text']);
+      if (text) return text;
+    }
+  }
+  return null;
+}
+
+const attachmentKinds: AttachmentKind[] = [
+  'image',
+  'video',
+  'voice',
+  'file',
+  'item',
+  'location',
+  'link',
+];
+
+/** Picks the URL of the largest entry in an Avito `sizes` map ("1280x960": url). */
+function largestSize(sizes: unknown): string | null {
+  if (!isObject(sizes)) return null;
+  let best: { url: string; area: number } | null = null;
+  for (const [key, value] of Object.entries(sizes)) {
+    if (typeof value !== 'string') continue;
+    const [w, h] = key.split('x').map(Number);
+    const area = (w || 0) * (h || 0);
+    if (!best || area > best.area) best = { url: value, area };
+  }
+  return best?.url ?? null;
+}
+
+function toAttachment(kind: AttachmentKind, raw: unknown): DecodedAttachment {
+  const obj = isObject(raw) ? raw : {};
+  const url =
+    largestSize(obj.sizes) ??
+    pickString(obj, ['url', 'src', 'voice_url', 'item_url', 'image_url']);
+  const name =
+    kind === 'location'
+      ? pickString(obj, ['title', 'text'])
+      : pickString(obj, ['name', 'fileName', 'file_name', 'title']);
+  const size = Number(obj.size ?? obj.fileSize ?? obj.file_size);
+  return {
+    type: kind,
+    url,
+    name,
+    mime: pickString(obj, ['mime', 'mimeType', 'mime_type', 'contentType']),
+    size: Number.isFinite(size) && size > 0 ? size : null,
+  };
+}
+
+/** Attachments from `content`/`body` (`{ image: {...} }`, `{ voice: {...} }`…). */
+function readAttachments(obj: Json): DecodedAttachment[] {
+  const attachments: DecodedAttachment[] = [];
+  for (const key of ['content', 'body']) {
+    const content = obj[key];
+    if (!isObject(content)) continue;
+    for (const kind of attachmentKinds) {
+      const raw = content[kind];
+      if (raw === undefined || raw === null) continue;
+      for (const item of Array.isArray(raw) ? raw : [raw]) {
+        attachments.push(toAttachment(kind, item));
+      }
+    }
+    if (attachments.length) break;
+  }
+  return attachments;
+}
+
+function readDirection(obj: Json): MessageDirection | null {
+  const raw = pickString(obj, ['direction'])?.toLowerCase();
+  if (raw === 'in' || raw === 'incoming') return 'incoming';
+  if (raw === 'out' || raw === 'outgoing') return 'outgoing';
+
+  for (const key of ['isOutgoing', 'is_outgoing', 'isOwn', 'isMine']) {
+    if (typeof obj[key] === 'boolean') {
+      return obj[key] ? 'outgoing' : 'incoming';
+    }
+  }
+  return null;
+}
+
+function toMessage(obj: Json, channelId: string | null): DecodedMessage | null {
+  const id = pickString(obj, ['id', 'messageId', 'message_id', 'uid']);
+  const text = readText(obj) ?? '';
+  const attachments = readAttachments(obj);
+  const rawTime =
+    obj.created ??
+    obj.createdAt ??
+    obj.created_at ??
+    obj.timestamp ??
+    obj.sentAt ??
+    obj.time;
+  if (!id || rawTime === undefined) return null;
+  if (!text && !attachments.length) return null;
+
+  return {
+    id,
+    channelId:
+      pickString(obj, ['channelId', 'channel_id', 'chatId', 'chat_id']) ??
+      channelId,
+    text: text.replace(/\s+/g, ' ').trim(),
+    at: toIsoTime(rawTime),
+    direction: readDirection(obj),
+    authorId: pickString(obj, [
+      'authorId',
+      'author_id',
+      'fromUid',
+      'from_uid',
+      'userId',
+      'user_id',
+    ]),
+    attachments,
+  };
+}
+
+/**
+ * Walks an arbitrary messenger payload and returns everything that looks like
+ * a chat message (an object with an ID, a timestamp and text). Avito changes
+ * the envelope often, so the walk does not rely on any particular path.
+ */
+export function decodeMessengerPayload(payload: unknown): DecodedMessage[] {
+  const found = new Map<string, DecodedMessage>();
+
+  const walk = (node: unknown, channelId: string | null, depth: number) => {
+    if (depth > MAX_DEPTH) return;
+    if (Array.isArray(node)) {
+      for (const item of node) walk(item, channelId, depth + 1);
+      return;
+    }
+    if (!isObject(node)) return;
+
+    const message = toMessage(node, channelId);
+    if (message) {
+      if (!found.has(message.id)) found.set(message.id, message);
+      return;
+    }
+
+    // Channel envelopes pass their ID down to the messages they hold
+    const ownChannel =
+      pickString(node, ['channelId', 'channel_id', 'chatId', 'chat_id']) ??
+      channelId;
+    for (const value of Object.values(node)) {
+      walk(value, ownChannel, depth + 1);
+    }
+  };
+
+  walk(payload, null, 0);
+  return Array.from(found.values());
+}
+
+/**
+ * Parses a socket frame into JSON. Socket.IO-style frames carry a numeric
+ * packet prefix (`42[...]`); anything that is not JSON yields null.
+ */
+export function parseSocketFrame(payloadData: string): unknown {
+  const body = payloadData.trim().replace(/^\d+(?=[[{])/, '');
+  if (!body.startsWith('{') && !body.startsWith('[')) return null;
+  try {
+    return JSON.parse(body) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The messenger socket opens with a session frame
+ * (`{ type: 'session', value: { userId } }`); its user ID marks our own messages.
+ */
+export function findSessionUserId(payload: unknown): string | null {
+  if (!isObject(payload)) return null;
+  const type = pickString(payload, ['type', 'method'])?.toLowerCase();
+  if (type !== 'session' && type !== 'init') return null;
+  const value = isObject(payload.value)
+    ? payload.value
+    : isObject(payload.params)
+      ? payload.params
+      : payload;
+  return pickString(value, ['userId', 'user_id', 'uid']);
+}
@@ -0,0 +1,223 @@
+/**
+ * @jest-environment jsdom
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page } from 'puppeteer';
+import { AvitoWatcherService } from './avito.watcher.service';
+import { ChatBindingsService } from './chat-bindings.service';
+import { ConfigService } from './config.service';
+import { EventBus, StreamEvent } from './event-bus';
+import { MediaService } from './media.service';
+import { MetricsService } from './metrics.service';
+import { ScreencastService } from './screencast.service';
+import { SessionCookiesService } from './session-cookies.service';
+import { SettingsService } from './settings.service';
+
+const CHAT = 'u2i-aBc123';
+const CHAT_URL = `https://www.avito.ru/profile/messenger/channel/${CHAT}`;
+
+type PageFunction = string | ((...args: unknown[]) => unknown);
+
+// The private parts a real chat session would set up through the browser
+type WatcherInternals = {
+  sessions: Map<string, object>;
+  installRealtimeObserver(session: object): Promise<boolean>;
+};
+
+function loadFixture(name: string) {
+  const html = fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf-8');
+  document.body.innerHTML = new DOMParser().parseFromString(
+    html,
+    'text/html',
+  ).body.innerHTML;
+}
+
+/**
+ * A Puppeteer page whose scripts run against the jsdom document. `onEnter`
+ * gets the text typed into the message input when Enter is pressed.
+ */
+function fakePage(onEnter?: (typed: string) => void) {
+  let typed = '';
+  const page = {
+    url: () => CHAT_URL,
+    evaluate: (fn: PageFunction, ...args: unknown[]) =>
+      Promise.resolve(typeof fn === 'string' ? window.eval(fn) : fn(...args)),
+    exposeFunction: (name: string, fn: unknown) => {
+      Object.assign(window, { [name]: fn });
+      return Promise.resolve();
+    },
+    close: () => Promise.resolve(),
+    $: (selector: string) =>
+      Promise.resolve(
+        document.querySelector(selector)
+          ? { click: () => Promise.resolve() }
+          : null,
+      ),
+    keyboard: {
+      down: () => Promise.resolve(),
+      up: () => Promise.resolve(),
+      type: (text: string) => {
+        typed += text;
+        return Promise.resolve();
+      },
+      press: (key: string) => {
+        if (key === 'Enter') onEnter?.(typed);
+        if (key === 'Enter' || key === 'Backspace') typed = '';
+        return Promise.resolve();
+      },
+    },
+  };
+  return page as unknown as Page;
+}
+
+function bubble(text: string, outgoing = false) {
+  const el = document.createElement('div');
+  el.setAttribute('data-marker', 'message');
+  if (outgoing) {
+    el.setAttribute('style', 'align-self: flex-end');
+    el.innerHTML = `<div data-marker="message/text">${text}</div>`;
+  } else {
+    el.innerHTML = `<div data-marker="message/author">Рушан</div><div data-marker="message/text">${text}</div>`;
+  }
+  return el;
+}
+
+describe('AvitoWatcherService', () => {
+  let watcher: AvitoWatcherService;
+  let events: StreamEvent[];
+
+  beforeEach(() => {
+    loadFixture('chat-markers.html');
+    for (const key of ['__avitoParser', '__avitoObserverInstalled']) {
+      delete (window as unknown as Record<string, unknown>)[key];
+    }
+
+    process.env.SEND_CONFIRM_TIMEOUT_MS = '700';
+    const bus = new EventBus();
+    const config = new ConfigService();
+    const settings = new SettingsService(bus, config);
+    watcher = new AvitoWatcherService(
+      bus,
+      new ChatBindingsService(config),
+      new MediaService(config),
+      new MetricsService(),
+      config,
+      settings,
+      new SessionCookiesService(bus, config),
+      new ScreencastService(),
+    );
+    events = [];
+    bus.events$.subscribe((evt) => events.push(evt));
+  });
+
+  afterEach(async () => {
+    delete process.env.SEND_CONFIRM_TIMEOUT_MS;
+    jest.restoreAllMocks();
+    await watcher.onModuleDestroy();
+  });
+
+  function internals() {
+    return watcher as unknown as WatcherInternals;
+  }
+
+  // Registers an open chat the way runChatSession leaves it
+  function openChat(page: Page) {
+    const session = {
+      binding: { id: CHAT, url: CHAT_URL, boundAt: '', source: 'bind' },
+      page,
+      state: 'watching',
+      stopped: false,
+      title: 'Рушан',
+      listing: null,
+      lastFingerprint: '',
+      seenIds: new Set<string>(),
+      networkMessages: [],
+      socketCapture: false,
+      selfUserId: null,
+      source: null,
+      bridgeInstalled: false,
+      sendQueue: Promise.resolve(),
+      emitQueue: Promise.resolve(),
+    };
+    internals().sessions.set(CHAT, session);
+    return session;
+  }
+
+  const messages = () =>
+    events.flatMap((e) => (e.type === 'message' ? [e] : []));
+
+  it('reports the observer only while chats are open and none poll', () => {
+    expect(watcher.getHealth()).toMatchObject({
+      chatsOpen: 0,
+      observerInstalled: false,
+    });
+
+    // No message source picked yet
+    const session = openChat(fakePage());
+    expect(watcher.getHealth().observerInstalled).toBe(false);
+
+    Object.assign(session, { source: 'observer' });
+    expect(watcher.getHealth()).toMatchObject({
+      chatsOpen: 1,
+      observerInstalled: true,
+    });
+  });
+
+  it('tells which failed replies never started', async () => {
+    await expect(watcher.sendMessage(CHAT, 'Да')).resolves.toMatchObject({
+      ok: false,
+      started: false,
+      error: `Chat ${CHAT} is not open`,
+    });
+
+    // Closed while the reply waited in the queue
+    const session = openChat(fakePage());
+    session.sendQueue = Promise.resolve().then(() => {
+      session.stopped = true;
+    });
+    await expect(watcher.sendMessage(CHAT, 'Да')).resolves.toMatchObject({
+      ok: false,
+      started: false,
+      error: `Chat ${CHAT} was closed`,
+    });
+  });
+
+  it('confirms a reply only by a new bubble of ours', async () => {
+    const list = document.querySelector('[data-marker="chat/messages"]');
+    // Already the last message of the chat
+    const text = 'Договорились, завтра в 18:00';
+
+    openChat(fakePage());
+    await expect(watcher.sendMessage(CHAT, text)).resolves.toMatchObject({
+      ok: false,
+      started: true,
+      error: 'Message not confirmed in chat within 1s',
+    });
+
+    openChat(fakePage((typed) => list?.append(bubble(typed, true))));
+    await expect(watcher.sendMessage(CHAT, text)).resolves.toMatchObject({
+      ok: true,
+    });
+  });
+
+  it('reports repeated texts without IDs from the observer as separate messages', async () => {
+    const session = openChat(fakePage());
+    await expect(internals().installRealtimeObserver(session)).resolves.toBe(
+      true,
+    );
+    // Past the observer's grace period for the initial render
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+
+    const list = document.querySelector('[data-marker="chat/messages"]');
+    list?.append(bubble('Здравствуйте'), bubble('Здравствуйте'));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await session.emitQueue;
+
+    expect(messages().map((m) => [m.text, m.messageId, m.direction])).toEqual([
+      ['Здравствуйте', null, 'incoming'],
+      ['Здравствуйте', null, 'incoming'],
+    ]);
+  });
+});
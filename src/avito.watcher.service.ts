@@ -1,6 +1,42 @@
 import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
-import puppeteer, { Browser, Page } from 'puppeteer';
-import { EventBus } from './event-bus';
+import puppeteer, { Browser, Cookie, HTTPResponse, Page } from 'puppeteer';
+import { randomUUID } from 'crypto';
+import {
+  AuthChallengeStatus,
+  ChatListing,
+  DeliveryStatus,
+  EventBus,
+  MessageAttachment,
+} from './event-bus';
+import {
+  ChatBinding,
+  ChatBindingsService,
+  channelIdFromUrl,
+  normalizeChatUrl,
+} from './chat-bindings.service';
+import {
+  AttachmentKind,
+  AvitoPageWindow,
+  MessageDirection,
+  ParsedAttachment,
+  ParsedDialog,
+  ParsedMessage,
+  avitoParserScript,
+} from './avito.parser';
+import { MediaService } from './media.service';
+import { MetricsService, metricNames } from './metrics.service';
+import { ConfigService } from './config.service';
+import { SettingsService } from './settings.service';
+import { SessionCookiesService } from './session-cookies.service';
+import { ScreencastService } from './screencast.service';
+import {
+  DecodedMessage,
+  decodeMessengerPayload,
+  findSessionUserId,
+  parseSocketFrame,
+} from './avito.payload';
+import { WatcherPhase, WatcherStateMachine } from './watcher-state';
+import { InboxDialog, InboxTracker } from './inbox-tracker';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -8,26 +44,205 @@ function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
 
-type LastMsg = { from: string; text: string; at: string };
+/** Avito wants a login: the login page came up or never went away. */
+class AuthRequiredError extends Error {}
+
+/** A reply failed before anything was typed into the chat. */
+class SendNotStartedError extends Error {}
+
+export type ChatSessionState = 'opening' | 'watching' | 'support' | 'stopped';
+
+/**
+ * Where new messages of a chat come from: decoded messenger traffic, a
+ * MutationObserver on the message list, or polling the last bubble.
+ */
+export type MessageSource = 'network' | 'observer' | 'polling';
+
+export const messageSources: MessageSource[] = [
+  'network',
+  'observer',
+  'polling',
+];
+
+export type DeliveryResult = {
+  requestId: string;
+  channelId: string;
+  ok: boolean;
+  /** False when it failed before anything was typed, so a retry cannot send it twice. */
+  started: boolean;
+  error?: string;
+};
+
+/** One bound chat, watched in its own Puppeteer page. */
+type ChatSession = {
+  binding: ChatBinding;
+  page?: Page;
+  state: ChatSessionState;
+  stopped: boolean;
+  // Counterpart name from the chat header; fallback author for incoming bubbles
+  title: string;
+  // Listing card from the chat header, attached to every message event
+  listing: ChatListing | null;
+  // Dedup for bubbles without an Avito message ID
+  lastFingerprint: string;
+  // Avito message IDs already emitted (or present before the baseline)
+  seenIds: Set<string>;
+  // Recent messages decoded from the chat page's messenger traffic
+  networkMessages: DecodedMessage[];
+  // CDP capture of the page's WebSocket frames is running
+  socketCapture: boolean;
+  // Our Avito user ID, learned from the socket session frame
+  selfUserId: string | null;
+  source: MessageSource | null;
+  bridgeInstalled: boolean;
+  // Outgoing replies are chained so keystrokes of two replies never interleave
+  sendQueue: Promise<void>;
+  // Incoming events wait here for their media downloads, in order
+  emitQueue: Promise<void>;
+};
+
+/** A message on its way to the bus; attachments may carry payload MIME/size. */
+type DecodedMessageInput = Omit<ParsedMessage, 'attachments'> & {
+  attachments: (ParsedAttachment & {
+    mime?: string | null;
+    size?: number | null;
+  })[];
+};
+
+/** Liveness details for GET /health. */
+export type WatcherHealth = {
+  /** False when the run loop is not started (test environment). */
+  enabled: boolean;
+  phase: WatcherPhase;
+  browserAlive: boolean;
+  loggedIn: boolean;
+  chatsBound: number;
+  chatsOpen: number;
+  /**
+   * Every open chat gets messages from the network capture or DOM observer,
+   * not polling; false while no chat is open.
+   */
+  observerInstalled: boolean;
+  lastMessageAt: string | null;
+  lastHeartbeatAt: string | null;
+  restarts: number;
+  /** Earliest expiry of the Avito session cookies, when known. */
+  sessionExpiresAt: string | null;
+};
+
+/** What the header of a chat showed when it was last opened (GET /chats/:id). */
+export type ChatDetails = {
+  title: string;
+  listing: ChatListing | null;
+  readAt: string;
+};
+
+/** Code prompt of the login in progress, answered with POST /auth/2fa. */
+export type AuthChallenge = {
+  challengeId: string;
+  status: AuthChallengeStatus;
+  hint: string | null;
+  expiresAt: string;
+};
+
+/** Snapshot for GET /watcher/state. */
+export type WatcherState = {
+  phase: WatcherPhase;
+  since: string;
+  reason: string | null;
+  paused: boolean;
+  messageSource: MessageSource;
+  /** When the next restart attempt is due, in error_backoff. */
+  retryAt: string | null;
+  authChallenge: AuthChallenge | null;
+  chats: {
+    id: string;
+    state: ChatSessionState;
+    source: MessageSource | null;
+  }[];
+};
+
+const CHAT_RESTART_DELAY_MS = 2500;
+const RESTART_BACKOFF_MS = 2500;
+const SEEN_IDS_LIMIT = 1000;
+const NETWORK_MESSAGES_LIMIT = 200;
+const MEDIA_TIMEOUT_MS = 30000;
+// Fields Avito uses for SMS / confirmation codes
+const CODE_INPUT_SELECTOR =
+  'input[autocomplete="one-time-code"], input[name*="code" i], input[id*="code" i], input[name*="otp" i], input[data-marker*="code" i]';
+// How long to wait for Avito to accept or reject a typed code
+const CODE_CHECK_MS = 8000;
+// Avito rotates cookies during a session; how often they are saved and expiry is checked
+const COOKIE_SAVE_INTERVAL_MS = 10 * 60_000;
+
+// Cards (listing, location, link) point at pages, not media files
+const downloadableKinds = new Set<AttachmentKind>([
+  'image',
+  'video',
+  'voice',
+  'file',
+]);
+
+const messageInputSelector = [
+  'textarea[placeholder*="сообщ" i]',
+  '[data-marker*="input"] textarea',
+  'textarea',
+  '[contenteditable="true"]',
+].join(', ');
 
 @Injectable()
 export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
   private browser?: Browser;
+  // Main page: used for auth and for manual navigation before binding a chat.
   private page?: Page;
   private stopping = false;
 
-  private lastFingerprint = '';
-  private bridgeInstalled = false;
   private lastMessengerUrl: string | null = null;
-  private supportChatDetected = false;
 
-  // Persistently bound chat URL (optional, created via /bind/current)
-  private readonly bindFilePath = path.join(process.cwd(), '.avito-target.json');
-
-  constructor(private readonly bus: EventBus) {}
+  private readonly sessions = new Map<string, ChatSession>();
+  // Kept after a chat page closes, so the listing stays known between reopens
+  private readonly chatDetails = new Map<string, ChatDetails>();
+  private readonly sessionRetryAt = new Map<string, number>();
+  private notBoundWarned = false;
+
+  private readonly state = new WatcherStateMachine((t) =>
+    this.bus.emit({ type: 'watcher', ...t }),
+  );
+  private running = false;
+  private paused = false;
+  // Set by restart(); the run loop drops the browser without an error backoff
+  private restartRequested = false;
+  private retryAt: number | null = null;
+  private loggedIn = false;
+  private restarts = 0;
+  private lastMessageAt: number | null = null;
+  // Bumped by every supervisor tick; a stale value means the loop is stuck
+  private lastHeartbeatAt: number | null = null;
+  private lastCookieSaveAt = 0;
+  // Dialog list of the main page, scanned every INBOX_POLL_INTERVAL_MS
+  private readonly inbox = new InboxTracker();
+  private lastInboxScanAt = 0;
+  private inboxScannedAt: number | null = null;
+  private inboxScanFailed = false;
+  private authChallenge: AuthChallenge | null = null;
+  // Code from POST /auth/2fa, waiting to be typed in by waitForAuthCompletion
+  private pendingAuthCode: string | null = null;
+  // Runtime MESSAGE_SOURCE override from POST /watcher/mode
+  private sourceOverride: MessageSource | null = null;
+
+  constructor(
+    private readonly bus: EventBus,
+    private readonly bindings: ChatBindingsService,
+    private readonly media: MediaService,
+    private readonly metrics: MetricsService,
+    private readonly config: ConfigService,
+    private readonly settings: SettingsService,
+    private readonly sessionCookies: SessionCookiesService,
+    private readonly screencast: ScreencastService,
+  ) {}
 
   async onModuleInit() {
-    if (process.env.NODE_ENV === 'test') {
+    if (this.config.isTest) {
       this.bus.emit({
         type: 'status',
         level: 'info',
@@ -57,40 +272,182 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
   async onModuleDestroy() {
     this.stopping = true;
     await this.safeClose();
+    this.state.transition('stopped', 'shutdown');
   }
 
   private async runLoop() {
-    while (!this.stopping) {
-      try {
-        await this.startBrowser();
-        await this.openMessengerWithAuth();
-        const ready = await this.openTargetChat();
-        if (ready) {
-          await this.watchLoop();
+    this.running = true;
+    let reason: string | null = null;
+    try {
+      while (!this.stopping) {
+        // A restart asked for during the backoff is this very iteration
+        this.restartRequested = false;
+        try {
+          this.state.transition('starting_browser', reason);
+          await this.startBrowser();
+          this.state.transition('auth');
+          await this.openMessengerWithAuth();
+          await this.superviseChats();
+        } catch (e: unknown) {
+          if (this.stopping) break;
+          this.restarts += 1;
+          if (this.restartRequested) {
+            this.metrics.inc(metricNames.restarts, { reason: 'requested' });
+            reason = 'restart requested';
+            await this.safeClose();
+            continue;
+          }
+
+          this.metrics.inc(metricNames.restarts, { reason: 'error' });
+          if (e instanceof AuthRequiredError) {
+            this.metrics.inc(metricNames.authFailures);
+          }
+          const message = e instanceof Error ? e.message : String(e);
+          await this.dumpDebugArtifacts('error');
+          this.bus.emit({
+            type: 'status',
+            level: 'error',
+            message: `Watcher error → restart: ${message}`,
+            at: new Date().toISOString(),
+          });
+          this.retryAt = Date.now() + RESTART_BACKOFF_MS;
+          this.state.transition('error_backoff', message);
+          await this.safeClose();
+          await sleep(RESTART_BACKOFF_MS);
+          this.retryAt = null;
+          reason = `recovering from: ${message}`;
         }
-      } catch (e: any) {
-        await this.dumpDebugArtifacts('error');
-        this.bus.emit({
-          type: 'status',
-          level: 'error',
-          message: `Watcher error → restart: ${e?.message ?? String(e)}`,
-          at: new Date().toISOString(),
-        });
-        await this.safeClose();
-        await sleep(2500);
       }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  getHealth(): WatcherHealth {
+    const open = Array.from(this.sessions.values()).filter(
+      (s) => s.state === 'watching',
+    );
+    const iso = (ms: number | null) => (ms ? new Date(ms).toISOString() : null);
+    return {
+      enabled: this.running,
+      phase: this.state.phase,
+      browserAlive: this.browser?.connected ?? false,
+      loggedIn:
+        this.loggedIn && !!this.page && !this.page.url().includes('login'),
+      chatsBound: this.bindings.list().length,
+      chatsOpen: open.length,
+      observerInstalled:
+        open.length > 0 &&
+        open.every((s) => s.source === 'network' || s.source === 'observer'),
+      lastMessageAt: iso(this.lastMessageAt),
+      lastHeartbeatAt: iso(this.lastHeartbeatAt),
+      restarts: this.restarts,
+      sessionExpiresAt: this.sessionCookies.expiresAt?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Current Avito cookies of the browser, in the AVITO_COOKIES_JSON format;
+   * null when it is not running.
+   */
+  async exportCookies(): Promise<Cookie[] | null> {
+    if (!this.browser?.connected) return null;
+    const cookies = await this.browser.cookies();
+    return cookies.filter((c) =>
+      c.domain.replace(/^\./, '').endsWith('avito.ru'),
+    );
+  }
+
+  getState(): WatcherState {
+    return {
+      phase: this.state.phase,
+      since: this.state.since,
+      reason: this.state.reason,
+      paused: this.paused,
+      messageSource: this.preferredMessageSource(),
+      retryAt: this.retryAt ? new Date(this.retryAt).toISOString() : null,
+      authChallenge: this.authChallenge ? { ...this.authChallenge } : null,
+      chats: this.bindings.list().map((b) => ({
+        id: b.id,
+        state: this.getChatState(b.id),
+        source: this.getChatSource(b.id),
+      })),
+    };
+  }
+
+  /** Closes all chat pages and keeps them closed until resume(); the browser stays up. */
+  pause(): boolean {
+    if (this.paused) return false;
+    this.paused = true;
+    this.bus.emit({
+      type: 'status',
+      level: 'info',
+      message: 'Watcher paused',
+      at: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  resume(): boolean {
+    if (!this.paused) return false;
+    this.paused = false;
+    this.bus.emit({
+      type: 'status',
+      level: 'info',
+      message: 'Watcher resumed',
+      at: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  /** Closes the browser; the run loop starts a fresh one right away. */
+  async restart(): Promise<boolean> {
+    if (!this.running || this.stopping) return false;
+    this.restartRequested = true;
+    this.bus.emit({
+      type: 'status',
+      level: 'info',
+      message: 'Browser restart requested',
+      at: new Date().toISOString(),
+    });
+    await this.safeClose();
+    return true;
+  }
+
+  /**
+   * Closes the page of a bound chat (all of them without `channelId`) so the
+   * supervisor opens it again on its next tick. Null for unknown chats.
+   */
+  async reopenChats(channelId?: string): Promise<string[] | null> {
+    const ids = channelId ? [channelId] : this.bindings.list().map((b) => b.id);
+    if (channelId && !this.bindings.get(channelId)) return null;
+
+    for (const id of ids) {
+      const session = this.sessions.get(id);
+      if (session) await this.stopChatSession(session, 'reopen requested');
+      this.sessionRetryAt.delete(id);
     }
+    return ids;
+  }
+
+  /** Switches MESSAGE_SOURCE at runtime; open chats are reopened to pick it up. */
+  async setMessageSource(source: MessageSource): Promise<void> {
+    this.sourceOverride = source;
+    this.bus.emit({
+      type: 'status',
+      level: 'info',
+      message: `Message source set to ${source}`,
+      at: new Date().toISOString(),
+    });
+    await this.reopenChats();
   }
 
   private async startBrowser() {
-    const headlessEnv = String(process.env.HEADLESS ?? 'false') === 'true';
+    const { headless: headlessEnv, executablePath: configuredPath } =
+      this.config.get('browser');
     const headlessMode: any = headlessEnv ? 'new' : false;
-    const navTimeout = Number(process.env.NAV_TIMEOUT_MS ?? 60000);
 
-    const executablePath =
-      process.env.PUPPETEER_EXECUTABLE_PATH && process.env.PUPPETEER_EXECUTABLE_PATH.trim().length > 0
-        ? process.env.PUPPETEER_EXECUTABLE_PATH
-        : puppeteer.executablePath();
+    const executablePath = configuredPath ?? puppeteer.executablePath();
 
     this.browser = await puppeteer.launch({
       headless: headlessMode,
@@ -117,12 +474,8 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
       } catch {}
     });
     await this.maybeLoadCookies(this.page);
-    this.page.setDefaultNavigationTimeout(navTimeout);
-
-    await this.page.setViewport({ width: 1280, height: 800 });
-    await this.page.setUserAgent(
-      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
-    );
+    await this.loadSavedCookies(this.page);
+    await this.preparePage(this.page);
 
     this.bus.emit({
       type: 'status',
@@ -132,11 +485,21 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
     });
   }
 
+  private async preparePage(page: Page) {
+    const navTimeout = this.config.get('browser').navTimeoutMs;
+    page.setDefaultNavigationTimeout(navTimeout);
+
+    await page.setViewport({ width: 1280, height: 800 });
+    await page.setUserAgent(
+      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
+    );
+  }
+
   private async openMessengerWithAuth() {
     const page = this.mustPage();
-    const login = (process.env.AVITO_LOGIN ?? '').trim();
-    const password = (process.env.AVITO_PASSWORD ?? '').trim();
-    const hasCredentials = login.length > 0 && password.length > 0;
+    const { login, password, twoFaTimeoutMs, loginTimeoutMs } =
+      this.config.get('avito');
+    const hasCredentials = !!login && !!password;
 
     const candidates = [
       'https://www.avito.ru/profile/messenger',
@@ -173,8 +536,6 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
       }
 
       if (page.url().includes('login')) {
-        const headlessEnv = String(process.env.HEADLESS ?? 'false') === 'true';
-
         if (!hasCredentials) {
           this.bus.emit({
             type: 'status',
@@ -200,7 +561,7 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
             });
           } else {
             await this.submitLoginForm();
-            const twoFaTimeout = Number(process.env.AVITO_2FA_TIMEOUT_MS ?? 120000);
+            const twoFaTimeout = twoFaTimeoutMs;
             this.bus.emit({
               type: 'status',
               level: 'info',
@@ -220,30 +581,9 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
           }
         }
 
-        if (headlessEnv && page.url().includes('login')) {
-          this.bus.emit({
-            type: 'status',
-            level: 'error',
-            message:
-              'AUTH_REQUIRED (headless). Provide cookies via AVITO_COOKIES_* or run once with HEADLESS=false to login.',
-            at: new Date().toISOString(),
-          });
-          throw new Error('Not logged in in headless. Provide cookies or run once with HEADLESS=false to refresh session.');
-        }
-
-        this.bus.emit({
-          type: 'status',
-          level: 'warn',
-          message: 'Нужен логин. Введите данные/смс в окне браузера (HEADLESS=false).',
-          at: new Date().toISOString(),
-        });
-
-        const deadline = Date.now() + 5 * 60_000;
-        while (Date.now() < deadline) {
-          await sleep(1500);
-          if (!page.url().includes('login')) break;
+        if (page.url().includes('login')) {
+          await this.waitForRemoteLogin(page, loginTimeoutMs);
         }
-        if (page.url().includes('login')) throw new Error('Login timeout (manual auth not completed)');
       }
 
       this.bus.emit({
@@ -253,6 +593,8 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
         at: new Date().toISOString(),
       });
       this.lastMessengerUrl = page.url();
+      this.loggedIn = true;
+      await this.saveSessionCookies();
       this.maybePersistBoundChatUrl(this.lastMessengerUrl, 'messenger-open');
       return;
     }
@@ -261,57 +603,244 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Открыть чат с нужным контактом.
+   * Держит по одной странице на каждый привязанный чат.
    *
-   * Стратегии по приоритету:
-   * 0) Если задан TARGET_CHAT_URL — открываем сразу.
-   * 1) Если есть bound chat URL — открываем его.
+   * Открывает страницы для новых привязок, закрывает страницы удалённых
+   * и перезапускает упавшие сессии после паузы.
    */
-  private async openTargetChat(): Promise<boolean> {
-    const page = this.mustPage();
-    const direct = (process.env.TARGET_CHAT_URL ?? '').trim();
-    let lastAttemptUrl: string | null = null;
-
-    await page.waitForSelector('body', { timeout: 60000 });
-    await sleep(1000);
+  private async superviseChats() {
+    await this.mustPage().waitForSelector('body', { timeout: 60000 });
 
     while (!this.stopping) {
-      const candidate = await this.resolveTargetChatUrl(direct);
+      this.lastHeartbeatAt = Date.now();
+      if (this.restartRequested) throw new Error('Restart requested');
+      if (this.mustPage().url().includes('login')) throw new AuthRequiredError('Session expired (redirected to login)');
+      if (Date.now() - this.lastCookieSaveAt >= COOKIE_SAVE_INTERVAL_MS) {
+        await this.saveSessionCookies();
+      }
+
+      if (this.paused) {
+        for (const session of Array.from(this.sessions.values())) {
+          await this.stopChatSession(session, 'paused');
+        }
+        this.state.transition('paused');
+        await sleep(1000);
+        continue;
+      }
+
+      const inbox = this.config.get('inbox');
+      if (
+        inbox.enabled &&
+        Date.now() - this.lastInboxScanAt >= inbox.intervalMs
+      ) {
+        await this.scanInbox();
+      }
+
+      for (const session of this.sessions.values()) {
+        if (session.page?.url().includes('login')) throw new AuthRequiredError('Session expired (redirected to login)');
+      }
 
-      if (!candidate) {
-        if (!this.supportChatDetected) {
+      const bindings = this.bindings.list();
+      const boundIds = new Set(bindings.map((b) => b.id));
+
+      for (const session of Array.from(this.sessions.values())) {
+        if (!boundIds.has(session.binding.id)) {
+          await this.stopChatSession(session, 'binding removed');
+        }
+      }
+
+      for (const binding of bindings) {
+        if (this.sessions.has(binding.id)) continue;
+        if (Date.now() < (this.sessionRetryAt.get(binding.id) ?? 0)) continue;
+        this.startChatSession(binding);
+      }
+
+      if (bindings.length === 0) {
+        if (!this.notBoundWarned) {
           this.bus.emit({
             type: 'status',
             level: 'warn',
             message: 'Not bound. Open target chat and press Bind.',
             at: new Date().toISOString(),
           });
-        } else {
-          this.bus.emit({
-            type: 'status',
-            level: 'warn',
-            message: 'Waiting for target bind after support chat detection.',
-            at: new Date().toISOString(),
-          });
         }
-        await sleep(3000);
-        continue;
+        this.notBoundWarned = true;
+      } else {
+        this.notBoundWarned = false;
       }
 
-      if (lastAttemptUrl !== candidate || !this.supportChatDetected) {
-        await this.openChatUrl(candidate);
-        lastAttemptUrl = candidate;
-      }
-      const ok = await this.verifyNotSupportChat();
-      if (ok) {
-        return true;
+      const sessions = Array.from(this.sessions.values());
+      const watching =
+        sessions.some((s) => s.state !== 'opening') &&
+        !sessions.some((s) => s.state === 'opening');
+      this.state.transition(
+        watching ? 'watching' : 'opening_chat',
+        bindings.length === 0 ? 'no chats bound' : null,
+      );
+
+      await sleep(1000);
+    }
+  }
+
+  private startChatSession(binding: ChatBinding) {
+    const session: ChatSession = {
+      binding,
+      state: 'opening',
+      stopped: false,
+      title: '',
+      listing: null,
+      lastFingerprint: '',
+      seenIds: new Set(),
+      networkMessages: [],
+      socketCapture: false,
+      selfUserId: null,
+      source: null,
+      bridgeInstalled: false,
+      sendQueue: Promise.resolve(),
+      emitQueue: Promise.resolve(),
+    };
+    this.sessions.set(binding.id, session);
+    this.sessionRetryAt.delete(binding.id);
+
+    void this.runChatSession(session)
+      .catch(async (e: unknown) => {
+        if (session.stopped) return;
+        if (session.page) await this.dumpDebugArtifacts(`error-${binding.id}`, session.page);
+        this.bus.emit({
+          type: 'status',
+          level: 'error',
+          message: `Chat ${binding.id} error → restart: ${e instanceof Error ? e.message : String(e)}`,
+          at: new Date().toISOString(),
+        });
+        this.sessionRetryAt.set(binding.id, Date.now() + CHAT_RESTART_DELAY_MS);
+      })
+      .finally(() => this.stopChatSession(session));
+  }
+
+  private async runChatSession(session: ChatSession) {
+    if (!this.browser) throw new Error('Browser not initialized');
+    const page = await this.browser.newPage();
+    if (session.stopped) {
+      await page.close().catch(() => undefined);
+      return;
+    }
+    session.page = page;
+    await this.preparePage(page);
+    await this.attachNetworkCapture(session, page);
+    await this.openChatUrl(page, session.binding.url);
+
+    const ok = await this.verifyNotSupportChat(page);
+    if (!ok) {
+      // Держим страницу открытой, пока привязку не удалят
+      session.state = 'support';
+      while (!this.stopping && !session.stopped) {
+        await sleep(3000);
       }
+      return;
+    }
+
+    session.title = await this.getChatTitle(page);
+    session.listing = await this.getChatListing(page);
+    this.chatDetails.set(session.binding.id, {
+      title: session.title,
+      listing: session.listing,
+      readAt: new Date().toISOString(),
+    });
+    await this.watchLoop(session);
+  }
 
-      this.supportChatDetected = true;
-      await sleep(3000);
+  private async stopChatSession(session: ChatSession, reason?: string) {
+    const wasRunning = !session.stopped;
+    session.stopped = true;
+    session.state = 'stopped';
+    if (this.sessions.get(session.binding.id) === session) {
+      this.sessions.delete(session.binding.id);
     }
 
-    return false;
+    const page = session.page;
+    session.page = undefined;
+    await page?.close().catch(() => undefined);
+
+    if (reason && wasRunning) {
+      this.bus.emit({
+        type: 'status',
+        level: 'info',
+        message: `Chat ${session.binding.id} closed (${reason})`,
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  private async stopAllChatSessions() {
+    for (const session of Array.from(this.sessions.values())) {
+      await this.stopChatSession(session);
+    }
+  }
+
+  /**
+   * Queues a reply to a watched chat. Delivery progress is reported on the
+   * EventBus as `delivery` events (queued → sent | failed).
+   */
+  sendMessage(channelId: string, text: string): Promise<DeliveryResult> {
+    const requestId = randomUUID();
+    const body = text.trim();
+    const report = (
+      status: DeliveryStatus,
+      error?: string,
+      started = true,
+    ): DeliveryResult => {
+      this.bus.emit({
+        type: 'delivery',
+        requestId,
+        channelId,
+        text: body,
+        status,
+        error,
+        at: new Date().toISOString(),
+      });
+      return { requestId, channelId, ok: status !== 'failed', started, error };
+    };
+
+    if (!body) {
+      return Promise.resolve(report('failed', 'Message text is empty', false));
+    }
+    const session = this.sessions.get(channelId);
+    if (!session || session.state !== 'watching') {
+      return Promise.resolve(
+        report('failed', `Chat ${channelId} is not open`, false),
+      );
+    }
+
+    report('queued');
+    const delivery = session.sendQueue.then(() =>
+      this.deliverMessage(session, body),
+    );
+    session.sendQueue = delivery.catch(() => undefined);
+
+    return delivery.then(
+      () => report('sent'),
+      (e: unknown) =>
+        report(
+          'failed',
+          e instanceof Error ? e.message : String(e),
+          !(e instanceof SendNotStartedError),
+        ),
+    );
+  }
+
+  /** Current watch state of a bound chat (for /bind). */
+  getChatState(id: string): ChatSessionState {
+    return this.sessions.get(id)?.state ?? 'stopped';
+  }
+
+  /** Title and listing read from the chat header; null until the chat was opened. */
+  getChatDetails(id: string): ChatDetails | null {
+    return this.chatDetails.get(id) ?? null;
+  }
+
+  /** Message source currently used for a chat; null until it is watching. */
+  getChatSource(id: string): MessageSource | null {
+    return this.sessions.get(id)?.source ?? null;
   }
 
   isMessengerUrl(url: string | null): boolean {
@@ -327,6 +856,7 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
     const url = page.url();
     if (url) {
       this.lastMessengerUrl = url;
+      this.maybePersistBoundChatUrl(url, reason);
     }
     this.bus.emit({
       type: 'status',
@@ -365,35 +895,6 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
     return null;
   }
 
-  getActiveUrl(): string | null {
-    try {
-      return this.page?.url?.() ?? null;
-    } catch {
-      return null;
-    }
-  }
-
-  async getBestBindableUrl(): Promise<string | null> {
-    try {
-      if (this.browser) {
-        const pages = await this.browser.pages();
-        const channel = pages.find((p) => this.isMessengerChannelUrl(p.url()));
-        if (channel) {
-          this.setActivePage(channel, 'best-bind-channel');
-          return channel.url();
-        }
-
-        const messenger = pages.find((p) => this.isMessengerUrl(p.url()));
-        if (messenger) {
-          this.setActivePage(messenger, 'best-bind-messenger');
-          return messenger.url();
-        }
-      }
-    } catch {}
-
-    return this.page?.url?.() ?? this.getCurrentUrl();
-  }
-
   async debugListPages(): Promise<string[]> {
     try {
       if (!this.browser) return [];
@@ -404,42 +905,6 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  /**
-   * Ensures the active tab points to a messenger channel URL.
-   * Returns the resolved URL and whether it is a channel URL.
-   */
-  async ensureChannelUrl(): Promise<{ url: string | null; channel: boolean }> {
-    const page = this.mustPage();
-    const current = page.url();
-    if (!this.isMessengerUrl(current)) {
-      return { url: current, channel: false };
-    }
-    if (this.isMessengerChannelUrl(current)) {
-      return { url: current, channel: true };
-    }
-
-    const target = (process.env.TARGET_CONTACT ?? 'Рушан').trim();
-
-    this.bus.emit({
-      type: 'status',
-      level: 'info',
-      message: `Attempting to resolve messenger channel for: ${target}`,
-      at: new Date().toISOString(),
-    });
-
-    let clicked = await this.clickDropdownResultByTarget(target);
-    if (!clicked) {
-      clicked = await this.clickFirstDialog();
-    }
-
-    if (clicked) {
-      await this.waitForChannelUrl().catch(() => undefined);
-    }
-
-    const url = page.url();
-    return { url, channel: this.isMessengerChannelUrl(url) };
-  }
-
   private installPopupHandlers(page: Page) {
     page.on('popup', async (popup) => {
       if (!popup) return;
@@ -454,6 +919,8 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
   }
 
   private async maybeAdoptMessengerPage(page: Page, reason: string) {
+    // Страницы привязанных чатов управляются своими сессиями
+    if (this.isChatSessionPage(page)) return;
     try {
       const url = page.url();
       if (this.isMessengerChannelUrl(url) || this.isMessengerUrl(url)) {
@@ -462,466 +929,294 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
     } catch {}
   }
 
-  private async maybeLoadCookies(page: Page) {
-    const jsonRaw = process.env.AVITO_COOKIES_JSON ?? '';
-    const b64Raw = process.env.AVITO_COOKIES_B64 ?? '';
-    const pathRaw = process.env.AVITO_COOKIES_PATH ?? '';
-
-    let payload = jsonRaw.trim();
-    if (!payload && b64Raw.trim()) {
-      try {
-        payload = Buffer.from(b64Raw.trim(), 'base64').toString('utf-8');
-      } catch {
-        payload = '';
-      }
-    }
-
-    if (!payload && pathRaw.trim()) {
-      try {
-        payload = fs.readFileSync(pathRaw.trim(), 'utf-8');
-      } catch {
-        payload = '';
-      }
-    }
-
-    if (!payload) return;
-
+  // Saved after the last login, so they are newer than AVITO_COOKIES_* and win over them
+  private async loadSavedCookies(page: Page) {
+    const saved = this.sessionCookies.load();
+    if (!saved?.cookies.length) return;
     try {
-      const cookies = JSON.parse(payload);
-      if (!Array.isArray(cookies) || cookies.length === 0) return;
-      await page.setCookie(...cookies);
+      await page.setCookie(...saved.cookies);
+      this.sessionCookies.checkExpiry(saved.cookies);
       this.bus.emit({
         type: 'status',
         level: 'info',
-        message: `Loaded ${cookies.length} auth cookies`,
+        message: `Loaded ${saved.cookies.length} saved cookies${saved.savedAt ? ` (saved ${saved.savedAt})` : ''}`,
         at: new Date().toISOString(),
       });
-    } catch (e: any) {
+    } catch (e) {
       this.bus.emit({
         type: 'status',
         level: 'warn',
-        message: `Failed to load cookies: ${e?.message ?? String(e)}`,
+        message: `Failed to load saved cookies: ${e instanceof Error ? e.message : String(e)}`,
         at: new Date().toISOString(),
       });
     }
   }
 
-  private maybePersistBoundChatUrl(url: string | null, reason: string) {
-    if (!url) return;
-    const autoBind = String(process.env.AUTO_BIND_ON_OPEN ?? 'false') === 'true';
-    if (!autoBind) return;
-    if (!this.isMessengerUrl(url)) return;
-
+  /**
+   * Streams the login page to the dashboard (works headless too) and waits
+   * until an operator, or someone at the browser window, completes the login.
+   */
+  private async waitForRemoteLogin(page: Page, timeoutMs: number) {
     try {
-      const state = { url, boundAt: new Date().toISOString(), reason };
-      fs.writeFileSync(this.bindFilePath, JSON.stringify(state, null, 2), 'utf-8');
+      await this.screencast.start(page, 'login required');
+    } catch (e) {
       this.bus.emit({
         type: 'status',
-        level: 'info',
-        message: `Auto-bound chat: ${url}`,
+        level: 'warn',
+        message: `Remote login screen unavailable: ${e instanceof Error ? e.message : String(e)}`,
         at: new Date().toISOString(),
       });
-    } catch {}
-  }
+    }
+    this.bus.emit({
+      type: 'status',
+      level: 'warn',
+      message: `Нужен логин. Войдите через экран браузера в дашборде (или в окне браузера при HEADLESS=false), ждём ${Math.round(timeoutMs / 60_000)} мин.`,
+      at: new Date().toISOString(),
+    });
 
-  private readBoundChatUrl(): string | null {
     try {
-      if (!fs.existsSync(this.bindFilePath)) return null;
-      const raw = fs.readFileSync(this.bindFilePath, 'utf-8');
-      const j = JSON.parse(raw);
-      const u = String(j?.url ?? '').trim();
-      if (!u) return null;
-      // keep it strict: only messenger chat URLs
-      if (!this.isMessengerChannelUrl(u)) return null;
-      return u;
-    } catch {
-      return null;
+      const deadline = Date.now() + timeoutMs;
+      while (Date.now() < deadline) {
+        await sleep(1500);
+        if (this.restartRequested) throw new Error('Restart requested');
+        if (!page.url().includes('login')) return;
+      }
+      throw new AuthRequiredError('Login timeout (manual auth not completed)');
+    } finally {
+      await this.screencast.stop();
     }
   }
 
-  private async findSearchInput() {
-    const page = this.mustPage();
-    const handles = await page.$$('input');
-    for (const h of handles) {
-      try {
-        const meta = await h.evaluate((el) => ({
-          type: (el as HTMLInputElement).type || '',
-          placeholder: el.getAttribute('placeholder') || '',
-          aria: el.getAttribute('aria-label') || '',
-          name: el.getAttribute('name') || '',
-        }));
-
-        const text = `${meta.placeholder} ${meta.aria} ${meta.name}`.toLowerCase();
-        const looksLikeSearch = text.includes('поиск') || text.includes('найти') || text.includes('search');
-        const rightType = meta.type === 'text' || meta.type === 'search' || meta.type === '';
-
-        if (looksLikeSearch && rightType) return h;
-      } catch {}
-    }
-    return null;
+  /** Dialogs seen in the messenger list (INBOX_WATCH), most recently updated first. */
+  getInbox(): {
+    enabled: boolean;
+    scannedAt: string | null;
+    dialogs: InboxDialog[];
+  } {
+    return {
+      enabled: this.config.get('inbox').enabled,
+      scannedAt: this.inboxScannedAt
+        ? new Date(this.inboxScannedAt).toISOString()
+        : null,
+      dialogs: this.inbox.list(),
+    };
   }
 
   /**
-   * Clicks a chat result from the search dropdown (listbox/option) if present;
-   * otherwise falls back to scanning the sidebar.
+   * Reads the dialog list of the main messenger page and reports dialogs
+   * outside the bound chats that got new or unread messages; new ones are
+   * bound right away with INBOX_AUTO_BIND.
    */
-  private async clickSearchResultOrChat(target: string): Promise<boolean> {
+  private async scanInbox() {
+    this.lastInboxScanAt = Date.now();
     const page = this.mustPage();
+    if (!this.isMessengerUrl(page.url())) return;
 
-    const clickedFromDropdown = await page.evaluate((name) => {
-      const norm = (s: string) => (s || '').replace(/\s+/g, ' ').trim().toLowerCase();
-      const target = norm(name);
-
-      const getText = (el: HTMLElement) =>
-        norm(
-          el.getAttribute('aria-label') ||
-            el.getAttribute('title') ||
-            el.textContent ||
-            el.innerText ||
-            '',
-        );
-
-      const isClickable = (x: HTMLElement) =>
-        x.tagName === 'A' ||
-        x.tagName === 'BUTTON' ||
-        x.getAttribute('role') === 'button' ||
-        x.getAttribute('role') === 'option' ||
-        x.getAttribute('role') === 'link' ||
-        x.tabIndex >= 0 ||
-        typeof (x as any).onclick === 'function' ||
-        getComputedStyle(x).cursor === 'pointer';
-
-      const dropdown =
-        (document.querySelector('[role="listbox"]') as HTMLElement | null) ||
-        (document.querySelector('[data-marker*="suggest"]') as HTMLElement | null) ||
-        (document.querySelector('[data-marker*="dropdown"]') as HTMLElement | null);
-
-      if (!dropdown) return false;
-
-      const options = Array.from(
-        dropdown.querySelectorAll<HTMLElement>('[role="option"], [role="link"], a, button, div, span'),
-      )
-        .map((el) => ({ el, text: getText(el) }))
-        .filter((x) => x.text.includes(target));
-
-      if (options.length === 0) return false;
-
-      // Usually the most specific (shortest) text is the correct row.
-      options.sort((a, b) => (a.el.innerText?.length ?? 0) - (b.el.innerText?.length ?? 0));
-      let el: HTMLElement | null = options[0].el;
-
-      // bubble up to a clickable container
-      let cur: HTMLElement | null = el;
-      for (let i = 0; i < 10 && cur; i++) {
-        if (isClickable(cur)) {
-          el = cur;
-          break;
-        }
-        cur = cur.parentElement as HTMLElement | null;
-      }
-      if (!el) return false;
-
-      if (!isClickable(el) && el.closest) {
-        const clickable = el.closest('a, button, [role="button"], [role="option"], [role="link"]') as HTMLElement | null;
-        if (clickable) el = clickable;
+    let dialogs: ParsedDialog[];
+    try {
+      await this.ensureParser(page);
+      dialogs = await page.evaluate(() =>
+        (window as unknown as AvitoPageWindow).__avitoParser.readDialogs(),
+      );
+    } catch (e) {
+      if (!this.inboxScanFailed) {
+        this.bus.emit({
+          type: 'status',
+          level: 'warn',
+          message: `Inbox scan failed: ${e instanceof Error ? e.message : String(e)}`,
+          at: new Date().toISOString(),
+        });
       }
-
-      el.scrollIntoView({ block: 'center' });
-      el.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
-      el.dispatchEvent(new MouseEvent('mouseup', { bubbles: true }));
-      el.dispatchEvent(new MouseEvent('click', { bubbles: true }));
-      return true;
-    }, target);
-
-    if (clickedFromDropdown) {
-      await sleep(900);
-      return true;
+      this.inboxScanFailed = true;
+      return;
     }
+    this.inboxScanFailed = false;
+    this.inboxScannedAt = Date.now();
 
-    return this.clickChatByText(target);
-  }
+    const { autoBind } = this.config.get('inbox');
+    const boundIds = new Set(this.bindings.list().map((b) => b.id));
+    for (const { dialog, isNew } of this.inbox.update(dialogs)) {
+      if (boundIds.has(dialog.channelId)) continue;
 
-  private async clickDropdownResultByTarget(target: string): Promise<boolean> {
-    const page = this.mustPage();
-    const clicked = await page.evaluate((name) => {
-      const norm = (s: string) => (s || '').replace(/\s+/g, ' ').trim().toLowerCase();
-      const target = norm(name);
-
-      const getText = (el: HTMLElement) =>
-        norm(
-          el.getAttribute('aria-label') ||
-            el.getAttribute('title') ||
-            el.textContent ||
-            el.innerText ||
-            '',
-        );
-
-      const isClickable = (x: HTMLElement) =>
-        x.tagName === 'A' ||
-        x.tagName === 'BUTTON' ||
-        x.getAttribute('role') === 'button' ||
-        x.getAttribute('role') === 'option' ||
-        x.getAttribute('role') === 'link' ||
-        x.tabIndex >= 0 ||
-        typeof (x as any).onclick === 'function' ||
-        getComputedStyle(x).cursor === 'pointer';
-
-      const dropdown =
-        (document.querySelector('[role="listbox"]') as HTMLElement | null) ||
-        (document.querySelector('[data-marker*="suggest"]') as HTMLElement | null) ||
-        (document.querySelector('[data-marker*="dropdown"]') as HTMLElement | null);
-
-      if (!dropdown) return false;
-
-      const options = Array.from(
-        dropdown.querySelectorAll<HTMLElement>('[role="option"], [role="link"], a, button, div, span'),
-      )
-        .map((el) => ({ el, text: getText(el) }))
-        .filter((x) => x.text.includes(target));
-
-      if (options.length === 0) return false;
-
-      options.sort((a, b) => (a.el.innerText?.length ?? 0) - (b.el.innerText?.length ?? 0));
-      let el: HTMLElement | null = options[0].el;
-
-      let cur: HTMLElement | null = el;
-      for (let i = 0; i < 10 && cur; i++) {
-        if (isClickable(cur)) {
-          el = cur;
-          break;
-        }
-        cur = cur.parentElement as HTMLElement | null;
-      }
-      if (!el) return false;
-
-      if (!isClickable(el) && el.closest) {
-        const clickable = el.closest('a, button, [role="button"], [role="option"], [role="link"]') as HTMLElement | null;
-        if (clickable) el = clickable;
+      const autoBound =
+        isNew && autoBind && this.bindings.add(dialog.url, 'auto') !== null;
+      if (autoBound) {
+        this.bus.emit({
+          type: 'status',
+          level: 'info',
+          message: `New dialog ${dialog.channelId} (${dialog.name || 'unknown'}) auto-bound from the inbox`,
+          at: new Date().toISOString(),
+        });
       }
-
-      el.scrollIntoView({ block: 'center' });
-      el.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
-      el.dispatchEvent(new MouseEvent('mouseup', { bubbles: true }));
-      el.dispatchEvent(new MouseEvent('click', { bubbles: true }));
-      return true;
-    }, target);
-
-    if (clicked) {
-      await sleep(900);
+      this.bus.emit({
+        type: 'dialog_updated',
+        channelId: dialog.channelId,
+        url: dialog.url,
+        name: dialog.name,
+        itemTitle: dialog.itemTitle,
+        snippet: dialog.snippet,
+        unread: dialog.unread,
+        isNew,
+        autoBound,
+        at: new Date().toISOString(),
+      });
     }
-    return clicked;
   }
 
-  private async clickFirstDialog(): Promise<boolean> {
-    const page = this.mustPage();
-    const clicked = await page.evaluate(() => {
-      const sidebar =
-        (document.querySelector('aside') as HTMLElement | null) ||
-        (document.querySelector('nav') as HTMLElement | null) ||
-        (document.querySelector('[role="navigation"]') as HTMLElement | null) ||
-        document.body;
-
-      const isVisible = (el: HTMLElement) => {
-        const rect = el.getBoundingClientRect();
-        return rect.width > 2 && rect.height > 2;
-      };
-
-      const isClickable = (x: HTMLElement) =>
-        x.tagName === 'A' ||
-        x.tagName === 'BUTTON' ||
-        x.getAttribute('role') === 'button' ||
-        x.getAttribute('role') === 'link' ||
-        typeof (x as any).onclick === 'function' ||
-        getComputedStyle(x).cursor === 'pointer';
-
-      const links = Array.from(sidebar.querySelectorAll<HTMLAnchorElement>('a[href]'))
-        .filter((el) => isVisible(el))
-        .filter((el) => el.href.includes('/messenger/channel/'));
-
-      let el: HTMLElement | null = links[0] ?? null;
-
-      if (!el) {
-        const candidates = Array.from(
-          sidebar.querySelectorAll<HTMLElement>('a, button, [role="button"], [role="link"], div, span'),
-        ).filter((node) => isVisible(node));
-
-        for (const node of candidates) {
-          let cur: HTMLElement | null = node;
-          for (let i = 0; i < 6 && cur; i++) {
-            if (isClickable(cur)) {
-              el = cur;
-              break;
-            }
-            cur = cur.parentElement as HTMLElement | null;
-          }
-          if (el) break;
-        }
-      }
-
-      if (!el) return false;
-
-      el.scrollIntoView({ block: 'center' });
-      el.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
-      el.dispatchEvent(new MouseEvent('mouseup', { bubbles: true }));
-      el.dispatchEvent(new MouseEvent('click', { bubbles: true }));
-      return true;
-    });
-
-    if (clicked) {
-      await sleep(900);
+  private async saveSessionCookies() {
+    this.lastCookieSaveAt = Date.now();
+    try {
+      const cookies = await this.exportCookies();
+      if (cookies) this.sessionCookies.save(cookies);
+    } catch (e) {
+      this.bus.emit({
+        type: 'status',
+        level: 'warn',
+        message: `Cannot read browser cookies: ${e instanceof Error ? e.message : String(e)}`,
+        at: new Date().toISOString(),
+      });
     }
-    return clicked;
-  }
-
-  private async waitForChannelUrl() {
-    const page = this.mustPage();
-    await page.waitForFunction(
-      () => window.location.pathname.includes('/messenger/channel/'),
-      { timeout: 15000 },
-    );
   }
 
-  private async findChannelUrlViaNetwork(targetName: string, timeoutMs: number): Promise<string | null> {
-    const page = this.mustPage();
-    const target = targetName.toLowerCase();
-
-    const hits: { url: string; body: string }[] = [];
+  private async maybeLoadCookies(page: Page) {
+    const avito = this.config.get('avito');
+    const jsonRaw = avito.cookiesJson ?? '';
+    const b64Raw = avito.cookiesB64 ?? '';
+    const pathRaw = avito.cookiesPath ?? '';
 
-    const handler = async (res: any) => {
+    let payload = jsonRaw.trim();
+    if (!payload && b64Raw.trim()) {
       try {
-        const headers = res.headers?.() ?? {};
-        const ct = String(headers['content-type'] ?? headers['Content-Type'] ?? '').toLowerCase();
-        if (!ct.includes('application/json')) return;
-
-        const url: string = res.url?.() ?? '';
-        // Сильно не фильтруем — Avito меняет пути
-        if (!/messenger|chat|channel|dialog|conversation/i.test(url)) return;
-
-        const data = await res.json().catch(() => null);
-        if (!data) return;
-
-        const body = JSON.stringify(data);
-        if (!body.toLowerCase().includes(target)) return;
-
-        hits.push({ url, body });
-      } catch {}
-    };
-
-    page.on('response', handler);
-
-    const started = Date.now();
-    while (Date.now() - started < timeoutMs) {
-      await sleep(250);
-      if (hits.length > 0) break;
+        payload = Buffer.from(b64Raw.trim(), 'base64').toString('utf-8');
+      } catch {
+        payload = '';
+      }
     }
 
-    page.off('response', handler);
-
-    if (hits.length === 0) return null;
-
-    // Ищем URL канала рядом с target в JSON
-    for (const h of hits) {
-      const s = h.body;
-      const lower = s.toLowerCase();
-      const idx = lower.indexOf(target);
-      const window = s.slice(Math.max(0, idx - 1500), Math.min(s.length, idx + 1500));
-
-      // ищем куски похожие на /profile/messenger/channel/...
-      const reChan = /\/profile\/messenger\/channel\/[^"\\]+/g;
-      const m1 = window.match(reChan);
-      if (m1 && m1[0]) return `https://www.avito.ru${m1[0].replace(/\\/g, '')}`;
+    if (!payload && pathRaw.trim()) {
+      try {
+        payload = fs.readFileSync(pathRaw.trim(), 'utf-8');
+      } catch {
+        payload = '';
+      }
+    }
 
-      // иногда URL может быть в виде "channelUrl":"..."
-      const reUrl = /https?:\/\/www\.avito\.ru\/profile\/messenger\/channel\/[^"\\]+/g;
-      const m2 = window.match(reUrl);
-      if (m2 && m2[0]) return m2[0].replace(/\\/g, '');
+    if (!payload) return;
 
-      // если структуры другие — сохраним в debug, чтобы можно было быстро подогнать
-      await this.writeDebugJson('dialogs-hit', { sourceUrl: h.url, sample: JSON.parse(s) });
-      break;
+    try {
+      const cookies = JSON.parse(payload);
+      if (!Array.isArray(cookies) || cookies.length === 0) return;
+      await page.setCookie(...cookies);
+      this.bus.emit({
+        type: 'status',
+        level: 'info',
+        message: `Loaded ${cookies.length} auth cookies`,
+        at: new Date().toISOString(),
+      });
+    } catch (e: any) {
+      this.bus.emit({
+        type: 'status',
+        level: 'warn',
+        message: `Failed to load cookies: ${e?.message ?? String(e)}`,
+        at: new Date().toISOString(),
+      });
     }
-
-    return null;
   }
 
-  private async writeDebugJson(tag: string, obj: any) {
-    try {
-      const dir = path.join(process.cwd(), 'debug');
-      fs.mkdirSync(dir, { recursive: true });
-      const ts = new Date().toISOString().replace(/[:.]/g, '-');
-      fs.writeFileSync(path.join(dir, `${ts}.${tag}.json`), JSON.stringify(obj, null, 2), 'utf-8');
-    } catch {}
+  private isChatSessionPage(page: Page): boolean {
+    for (const session of this.sessions.values()) {
+      if (session.page === page) return true;
+    }
+    return false;
   }
 
-  private async clickChatByText(target: string): Promise<boolean> {
-    const page = this.mustPage();
+  private maybePersistBoundChatUrl(url: string | null, reason: string) {
+    if (!url) return;
+    const autoBind = this.settings.get().autoBindOnOpen;
+    if (!autoBind) return;
+    // keep it strict: only messenger chat URLs
+    if (!this.isMessengerChannelUrl(url)) return;
 
-    const point = await page.evaluate((name) => {
-      const norm = (s: string) => s.replace(/\s+/g, ' ').trim().toLowerCase();
-      const target = norm(name);
-
-      const sidebar =
-        (document.querySelector('aside') as HTMLElement | null) ||
-        (document.querySelector('nav') as HTMLElement | null) ||
-        (document.querySelector('[role="navigation"]') as HTMLElement | null) ||
-        document.body;
-
-      const getText = (el: HTMLElement) =>
-        norm(
-          el.getAttribute('aria-label') ||
-            el.getAttribute('title') ||
-            el.textContent ||
-            el.innerText ||
-            '',
-        );
-
-      const nodes = Array.from(
-        sidebar.querySelectorAll<HTMLElement>('a, button, [role="button"], [role="link"], div, span'),
-      ).filter((el) => {
-        const t = getText(el);
-        return t.includes(target) && t.length > 0 && t.length < 500;
-      });
+    const id = channelIdFromUrl(url);
+    if (!id || this.bindings.get(id)) return;
 
-      if (nodes.length === 0) return null;
+    try {
+      const binding = this.bindings.add(url, 'auto');
+      if (!binding) return;
+      this.bus.emit({
+        type: 'status',
+        level: 'info',
+        message: `Auto-bound chat (${reason}): ${binding.url}`,
+        at: new Date().toISOString(),
+      });
+    } catch {}
+  }
 
-      nodes.sort((a, b) => (getText(a).length ?? 0) - (getText(b).length ?? 0));
-      let el: HTMLElement | null = nodes[0];
+  private async deliverMessage(session: ChatSession, text: string) {
+    const page = session.page;
+    if (session.stopped || !page) {
+      throw new SendNotStartedError(`Chat ${session.binding.id} was closed`);
+    }
 
-      const isClickable = (x: HTMLElement) =>
-        x.tagName === 'A' ||
-        x.tagName === 'BUTTON' ||
-        x.getAttribute('role') === 'button' ||
-        x.getAttribute('role') === 'link' ||
-        typeof (x as any).onclick === 'function' ||
-        getComputedStyle(x).cursor === 'pointer';
+    const input = await page.$(messageInputSelector);
+    if (!input) throw new SendNotStartedError('Message input not found');
+    const before = await this.readMessages(page).catch(() => []);
 
-      let cur: HTMLElement | null = el;
-      for (let i = 0; i < 8 && cur; i++) {
-        if (isClickable(cur)) {
-          el = cur;
-          break;
-        }
-        cur = cur.parentElement as HTMLElement | null;
+    const modifier = process.platform === 'darwin' ? 'Meta' : 'Control';
+    await input.click().catch(() => undefined);
+    await page.keyboard.down(modifier);
+    await page.keyboard.press('KeyA');
+    await page.keyboard.up(modifier);
+    await page.keyboard.press('Backspace');
+
+    // Enter отправляет сообщение, поэтому переносы строк — через Shift+Enter
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i += 1) {
+      if (i > 0) {
+        await page.keyboard.down('Shift');
+        await page.keyboard.press('Enter');
+        await page.keyboard.up('Shift');
       }
+      await page.keyboard.type(lines[i], { delay: 20 });
+    }
+    await page.keyboard.press('Enter');
 
-      if (!el) return null;
-
-      el.scrollIntoView({ block: 'center' });
-      const rect = el.getBoundingClientRect();
-      if (rect.width < 5 || rect.height < 5) return null;
-
-      return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
-    }, target);
+    await this.waitForSentMessage(page, text, before);
+  }
 
-    if (!point) return false;
+  /**
+   * Waits until the sent text shows up in a bubble of ours added after the
+   * `before` ones, so an earlier message with the same text does not count.
+   */
+  private async waitForSentMessage(
+    page: Page,
+    text: string,
+    before: ParsedMessage[],
+  ) {
+    const timeoutMs = this.config.get('watcher').sendConfirmTimeoutMs;
+    const norm = (s: string) => s.replace(/\s+/g, ' ').trim();
+    const lines = text.split('\n').map(norm).filter(Boolean);
+    const expected = lines[lines.length - 1] ?? '';
+    const lastId = before[before.length - 1]?.id ?? null;
 
-    await page.mouse.click(point.x, point.y);
-    await sleep(850);
-    return true;
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      await sleep(500);
+      const messages = await this.readMessages(page).catch(() => null);
+      if (!messages) continue;
+      // The list may drop old bubbles as new ones come; an ID survives that
+      const known = lastId ? messages.findIndex((m) => m.id === lastId) : -1;
+      const added = messages.slice(known >= 0 ? known + 1 : before.length);
+      const sent = added.some(
+        (m) => m.direction !== 'incoming' && norm(m.text) === expected,
+      );
+      if (sent) return;
+    }
+    const seconds = Math.round(timeoutMs / 1000);
+    throw new Error(`Message not confirmed in chat within ${seconds}s`);
   }
 
-  private async waitForChatLikelyOpened() {
-    const page = this.mustPage();
+  private async waitForChatLikelyOpened(page: Page) {
     await page
       .waitForFunction(
         () =>
@@ -933,21 +1228,7 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
       .catch(() => undefined);
   }
 
-  private async resolveTargetChatUrl(direct: string): Promise<string | null> {
-    if (direct) {
-      const url = direct.startsWith('http') ? direct : `https://www.avito.ru${direct}`;
-      return url;
-    }
-
-    const bound = this.readBoundChatUrl();
-    if (bound) return bound;
-
-    return null;
-  }
-
-  private async openChatUrl(url: string) {
-    const page = this.mustPage();
-    this.supportChatDetected = false;
+  private async openChatUrl(page: Page, url: string) {
     this.bus.emit({
       type: 'status',
       level: 'info',
@@ -957,15 +1238,12 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
 
     await page.goto(url, { waitUntil: 'domcontentloaded' });
     await sleep(1200);
-    await this.waitForChatLikelyOpened();
-    this.lastMessengerUrl = page.url();
-    this.maybePersistBoundChatUrl(this.lastMessengerUrl, 'target-chat-url');
+    await this.waitForChatLikelyOpened(page);
   }
 
-  private async verifyNotSupportChat(): Promise<boolean> {
-    const page = this.mustPage();
+  private async verifyNotSupportChat(page: Page): Promise<boolean> {
     const url = page.url();
-    const title = await this.getChatTitle();
+    const title = await this.getChatTitle(page);
     const normalized = title.toLowerCase();
     const supportHits = ['поддержка', 'служба поддержки', 'avito', 'авито'];
     const supportDetected = supportHits.some((word) => normalized.includes(word));
@@ -991,7 +1269,7 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
       this.bus.emit({
         type: 'status',
         level: 'warn',
-        message: 'Support chat detected. Open target chat and Bind.',
+        message: `Support chat detected (${url}). Remove this binding and bind the target chat.`,
         at: new Date().toISOString(),
       });
       return false;
@@ -1000,33 +1278,29 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
     return true;
   }
 
-  private async getChatTitle(): Promise<string> {
-    const page = this.mustPage();
-    const title = await page.evaluate(() => {
-      const norm = (s: string) => (s || '').replace(/\s+/g, ' ').trim();
-      const selectors = [
-        'header h1',
-        'header h2',
-        'main header h1',
-        'main header h2',
-        '[data-marker*="chat-title"]',
-        '[class*="title"]',
-        '[class*="header"] h1',
-        '[class*="header"] h2',
-      ];
-
-      for (const sel of selectors) {
-        const el = document.querySelector(sel) as HTMLElement | null;
-        if (!el) continue;
-        const text = norm(el.innerText || el.textContent || '');
-        if (text) return text;
-      }
-      return '';
-    });
-
+  private async getChatTitle(page: Page): Promise<string> {
+    await this.ensureParser(page);
+    const title = await page.evaluate(() =>
+      (window as unknown as AvitoPageWindow).__avitoParser.readChatTitle(),
+    );
     return String(title || '').trim();
   }
 
+  private async getChatListing(page: Page): Promise<ChatListing | null> {
+    await this.ensureParser(page);
+    const listing = await page.evaluate(() =>
+      (window as unknown as AvitoPageWindow).__avitoParser.readListing(),
+    );
+    if (!listing) return null;
+    const absolute = (url: string | null) =>
+      url?.startsWith('//') ? `https:${url}` : url && normalizeChatUrl(url);
+    return {
+      ...listing,
+      url: absolute(listing.url),
+      imageUrl: absolute(listing.imageUrl),
+    };
+  }
+
   private async tryFillLoginForm(login: string, password: string): Promise<boolean> {
     const page = this.mustPage();
 
@@ -1083,373 +1357,694 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Code for the pending login challenge (see `auth_challenge` events). The
+   * auth loop types it in within a second; the outcome comes as another event.
+   */
+  submitAuthCode(
+    code: string,
+    challengeId?: string,
+  ): { ok: boolean; challengeId?: string; message?: string } {
+    const challenge = this.authChallenge;
+    if (
+      !challenge ||
+      (challenge.status !== 'pending' && challenge.status !== 'rejected')
+    ) {
+      return { ok: false, message: 'No login code is awaited' };
+    }
+    if (challengeId && challengeId !== challenge.challengeId) {
+      return { ok: false, message: 'Challenge is no longer current' };
+    }
+    const value = code.replace(/\s+/g, '');
+    if (!/^[0-9A-Za-z]{3,10}$/.test(value)) {
+      return { ok: false, message: 'Code must be 3-10 letters or digits' };
+    }
+    this.pendingAuthCode = value;
+    return { ok: true, challengeId: challenge.challengeId };
+  }
+
+  /**
+   * Waits for the login to go through. When Avito asks for a confirmation
+   * code, announces an `auth_challenge` and types in the code from POST /auth/2fa.
+   */
   private async waitForAuthCompletion(timeoutMs: number): Promise<boolean> {
     const page = this.mustPage();
     const deadline = Date.now() + timeoutMs;
-    while (Date.now() < deadline) {
-      await sleep(1000);
-      if (!page.url().includes('login')) return true;
+    try {
+      while (Date.now() < deadline) {
+        await sleep(1000);
+        if (this.restartRequested) throw new Error('Restart requested');
+        if (!page.url().includes('login')) {
+          this.setAuthChallengeStatus('passed');
+          return true;
+        }
+
+        const form = await this.detectCodeForm(page).catch(() => null);
+        if (!form) continue;
+        if (!this.authChallenge) {
+          this.authChallenge = {
+            challengeId: randomUUID(),
+            status: 'pending',
+            hint: form.hint,
+            expiresAt: new Date(deadline).toISOString(),
+          };
+          this.emitAuthChallenge();
+        }
+
+        const code = this.pendingAuthCode;
+        if (!code) continue;
+        this.pendingAuthCode = null;
+        await this.enterAuthCode(page, code);
+        this.setAuthChallengeStatus('submitted');
+
+        const settleBy = Date.now() + CODE_CHECK_MS;
+        while (Date.now() < settleBy && page.url().includes('login')) {
+          await sleep(500);
+        }
+        if (page.url().includes('login')) {
+          this.setAuthChallengeStatus('rejected');
+        }
+      }
+
+      const passed = !page.url().includes('login');
+      this.setAuthChallengeStatus(passed ? 'passed' : 'expired');
+      return passed;
+    } finally {
+      this.authChallenge = null;
+      this.pendingAuthCode = null;
     }
-    return !page.url().includes('login');
   }
 
-  private async watchLoop() {
-    const page = this.mustPage();
+  /** Visible code input on the login page, marked for enterAuthCode; null when there is none. */
+  private async detectCodeForm(
+    page: Page,
+  ): Promise<{ hint: string | null } | null> {
+    return page.evaluate((selector) => {
+      const isVisible = (el: HTMLElement) => {
+        const rect = el.getBoundingClientRect();
+        return rect.width > 0 && rect.height > 0;
+      };
+      document
+        .querySelectorAll('[data-avito-code-input]')
+        .forEach((el) => el.removeAttribute('data-avito-code-input'));
+
+      const input = Array.from(
+        document.querySelectorAll<HTMLInputElement>(selector),
+      ).find((el) => isVisible(el) && el.type !== 'password');
+      if (!input) return null;
+      input.setAttribute('data-avito-code-input', '1');
+
+      const container =
+        input.closest<HTMLElement>('form, [role="dialog"]') ?? document.body;
+      const hint = (container.innerText || '')
+        .split('\n')
+        .map((line) => line.trim())
+        .find((line) => /код|code|смс|sms/i.test(line));
+      return { hint: hint ? hint.slice(0, 200) : null };
+    }, CODE_INPUT_SELECTOR);
+  }
 
-    if (this.supportChatDetected) {
-      this.bus.emit({
-        type: 'status',
-        level: 'warn',
-        message: 'Watcher paused: support chat detected. Open target chat and Bind.',
-        at: new Date().toISOString(),
-      });
-      return;
+  private async enterAuthCode(page: Page, code: string) {
+    const input = await page.$('[data-avito-code-input]');
+    if (!input) return;
+    await input.click({ clickCount: 3 }).catch(() => undefined);
+    await page.keyboard.type(code, { delay: 60 });
+    // Most code forms submit on the last digit; press Enter for the rest
+    await sleep(700);
+    if (page.url().includes('login')) {
+      await page.keyboard.press('Enter').catch(() => undefined);
     }
+  }
+
+  private setAuthChallengeStatus(status: AuthChallengeStatus) {
+    if (!this.authChallenge || this.authChallenge.status === status) return;
+    this.authChallenge.status = status;
+    this.emitAuthChallenge();
+  }
+
+  private emitAuthChallenge() {
+    if (!this.authChallenge) return;
+    this.bus.emit({
+      type: 'auth_challenge',
+      ...this.authChallenge,
+      at: new Date().toISOString(),
+    });
+  }
+
+  private async watchLoop(session: ChatSession) {
+    const page = this.mustSessionPage(session);
+    const channelId = session.binding.id;
+    session.state = 'watching';
 
     this.bus.emit({
       type: 'status',
       level: 'info',
-      message: 'Watching new messages…',
+      message: `Watching new messages in ${channelId}…`,
       at: new Date().toISOString(),
     });
 
-    await this.captureLastMessageAsBaseline();
+    await this.captureLastMessageAsBaseline(session);
+
+    const preferred = this.preferredMessageSource();
+
+    if (preferred === 'network') {
+      const missed = await this.watchNetwork(session);
+      if (this.stopping || session.stopped) return;
+
+      this.bus.emit({
+        type: 'status',
+        level: 'warn',
+        message: missed
+          ? `Network capture missed a message in ${channelId} — fallback to DOM observer`
+          : `Network capture unavailable in ${channelId} — fallback to DOM observer`,
+        at: new Date().toISOString(),
+      });
+      if (missed) {
+        this.emitChatMessage(session, missed, new Date().toISOString());
+      }
+    }
 
     // Попытка realtime (MutationObserver)
-    const installed = await this.installRealtimeObserver().catch(() => false);
+    const installed =
+      preferred !== 'polling' &&
+      (await this.installRealtimeObserver(session).catch(() => false));
     if (installed) {
+      session.source = 'observer';
       this.bus.emit({
         type: 'status',
         level: 'info',
-        message: 'Realtime observer installed ✅',
+        message: `Realtime observer installed in ${channelId} ✅`,
         at: new Date().toISOString(),
       });
 
-      while (!this.stopping) {
-        if (page.url().includes('login')) throw new Error('Session expired (redirected to login)');
+      while (!this.stopping && !session.stopped) {
+        if (page.url().includes('login')) throw new AuthRequiredError('Session expired (redirected to login)');
         await sleep(1000);
       }
       return;
     }
 
     // Fallback: polling
-    const pollInterval = Number(process.env.POLL_INTERVAL_MS ?? 1500);
-    this.bus.emit({
-      type: 'status',
-      level: 'warn',
-      message: 'Realtime observer unavailable — fallback to polling',
-      at: new Date().toISOString(),
-    });
+    session.source = 'polling';
+    if (preferred !== 'polling') {
+      this.bus.emit({
+        type: 'status',
+        level: 'warn',
+        message: `Realtime observer unavailable in ${channelId} — fallback to polling`,
+        at: new Date().toISOString(),
+      });
+    }
 
-    while (!this.stopping) {
-      if (page.url().includes('login')) throw new Error('Session expired (redirected to login)');
-
-      const msg = await this.readLastMessage();
-      if (msg) {
-        const fp = `${msg.from}|${msg.text}`.trim();
-        if (fp && fp !== this.lastFingerprint) {
-          this.lastFingerprint = fp;
-          this.bus.emit({ type: 'message', ...msg });
-        }
-      }
-      await sleep(pollInterval);
+    while (!this.stopping && !session.stopped) {
+      if (page.url().includes('login')) throw new AuthRequiredError('Session expired (redirected to login)');
+
+      const msg = await this.readLastMessage(page);
+      if (msg) this.emitChatMessage(session, msg, new Date().toISOString());
+      await sleep(this.settings.get().pollIntervalMs);
     }
   }
 
-  private async installRealtimeObserver(): Promise<boolean> {
-    const page = this.mustPage();
+  private async installRealtimeObserver(session: ChatSession): Promise<boolean> {
+    const page = this.mustSessionPage(session);
 
-    if (!this.bridgeInstalled) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await page.exposeFunction('__emitAvitoMessage', (payload: any) => {
-        const from = String(payload?.from ?? process.env.TARGET_CONTACT ?? 'unknown');
+    if (!session.bridgeInstalled) {
+      type Payload = Partial<ParsedMessage & { at: string }> | null;
+      await page.exposeFunction('__emitAvitoMessage', (payload: Payload) => {
         const text = String(payload?.text ?? '');
         if (!text) return;
 
+        const direction = payload?.direction;
         const at = payload?.at ? String(payload.at) : new Date().toISOString();
-        const fp = `${from}|${text}`.trim();
-        if (!fp || fp === this.lastFingerprint) return;
-
-        this.lastFingerprint = fp;
-        this.bus.emit({ type: 'message', from, text, at });
+        const msg: ParsedMessage = {
+          text,
+          direction:
+            direction === 'incoming' || direction === 'outgoing'
+              ? direction
+              : null,
+          author: String(payload?.author ?? ''),
+          id: payload?.id ? String(payload.id) : null,
+          sentAt: payload?.sentAt ? String(payload.sentAt) : null,
+          attachments: Array.isArray(payload?.attachments)
+            ? payload.attachments
+            : [],
+        };
+        this.emitChatMessage(session, msg, at, true);
       });
 
-      this.bridgeInstalled = true;
+      session.bridgeInstalled = true;
     }
 
-    const target = (process.env.TARGET_CONTACT ?? 'Рушан').trim();
-
-    const ok = await page.evaluate((targetName) => {
-      if ((window as any).__avitoObserverInstalled) return true;
-
-      const norm = (s: string) => (s || '').replace(/\s+/g, ' ').trim();
-      const messageSelectors = [
-        '[data-marker*="message"]',
-        '[data-marker*="msg"]',
-        '[role="listitem"]',
-        'article',
-        '[class*="message"]',
-        '[class*="bubble"]',
-      ].join(', ');
-
-      const isInsideNav = (el: HTMLElement | null) =>
-        !!el?.closest('nav, aside, header, [role="navigation"]');
-
-      const isUiNoise = (text: string) => {
-        const t = norm(text).toLowerCase();
-        if (!t) return true;
-
-        const exactNoise = new Set([
-          'уведомления',
-          'кошелек',
-          'кошелёк',
-          'платные услуги',
-          'мои резюме',
-          'избранное',
-          'объявления',
-          'профиль',
-          'настройки',
-          'помощь',
-          'перейти в помощь',
-          'поддержка',
-          'поддержка авито',
-          'служба поддержки',
-          'партнерская программа',
-          'услуги',
-          'доставка',
-          'звонки',
-        ]);
-
-        if (exactNoise.has(t)) return true;
-        if (/^сегодня$|^вчера$/.test(t)) return true;
-        if (/^(понедельник|вторник|среда|четверг|пятница|суббота|воскресенье)$/.test(t)) return true;
-
-        const dateRe =
-          /^(понедельник|вторник|среда|четверг|пятница|суббота|воскресенье),?\s+\d{1,2}\s+(января|февраля|марта|апреля|мая|июня|июля|августа|сентября|октября|ноября|декабря)$/i;
-
-        if (dateRe.test(t)) return true;
-        if (/войти|регистрация/i.test(t)) return true;
-
-        return false;
-      };
-
-      const extractMessageText = (el: HTMLElement) => {
-        const raw = el.innerText || el.textContent || '';
-        const lines = raw.split('\n').map(norm).filter(Boolean);
-        return lines.length ? lines[lines.length - 1] : norm(raw);
-      };
-
-      const countMessages = (root: HTMLElement) =>
-        Array.from(root.querySelectorAll<HTMLElement>(messageSelectors)).filter((node) => {
-          if (isInsideNav(node)) return false;
-          const text = extractMessageText(node);
-          return text.length > 0 && text.length < 4000 && !isUiNoise(text);
-        }).length;
-
-      const findMessageContainer = (): HTMLElement | null => {
-        const containers: Map<HTMLElement, number> = new Map();
-        const nodes = Array.from(document.querySelectorAll<HTMLElement>(messageSelectors)).filter(
-          (node) => !isInsideNav(node),
-        );
-
-        for (const node of nodes) {
-          let cur: HTMLElement | null = node;
-          for (let i = 0; i < 6 && cur; i++) {
-            if (!cur || cur.tagName === 'BODY' || cur.tagName === 'HTML' || cur.tagName === 'MAIN') break;
-            if (!isInsideNav(cur)) {
-              containers.set(cur, (containers.get(cur) ?? 0) + 1);
-            }
-            cur = cur.parentElement;
-          }
-        }
-
-        let best: { el: HTMLElement; count: number } | null = null;
-        for (const [el, count] of containers.entries()) {
-          if (!best || count > best.count) best = { el, count };
-        }
-
-        if (!best || best.count < 2) return null;
-        return best.el;
-      };
+    await this.ensureParser(page);
+    const ok = await page.evaluate(() => {
+      const w = window as unknown as AvitoPageWindow;
+      if (w.__avitoObserverInstalled) return true;
 
-      const container = findMessageContainer();
+      const parser = w.__avitoParser;
+      const container = parser.findMessageContainer();
       if (!container) return false;
 
-      // чтобы не спамить одним и тем же
-      const seen = new Set<string>();
-      const startTs = Date.now();
-      const graceMs = 1500;
-
-      const handleNode = (node: Node) => {
-        if (!(node instanceof HTMLElement)) return;
-        if (Date.now() - startTs < graceMs) return;
-        if (isInsideNav(node)) return;
-
-        const messageNodes: HTMLElement[] = [];
-        if (node.matches?.(messageSelectors)) messageNodes.push(node);
-        messageNodes.push(...Array.from(node.querySelectorAll<HTMLElement>(messageSelectors)));
-
-        for (const msgNode of messageNodes) {
-          if (isInsideNav(msgNode)) continue;
-          const msgText = extractMessageText(msgNode);
-          if (!msgText || msgText.length > 4000) continue;
-          if (isUiNoise(msgText)) continue;
-
-          if (seen.has(msgText)) continue;
-          seen.add(msgText);
-          if (seen.size > 200) {
-            const arr = Array.from(seen);
-            seen.clear();
-            for (const x of arr.slice(-80)) seen.add(x);
-          }
-
-          // @ts-ignore
-          window.__emitAvitoMessage({ from: targetName, text: msgText, at: new Date().toISOString() });
-        }
-      };
-
-      const obs = new MutationObserver((mutations) => {
-        for (const m of mutations) {
-          for (const n of Array.from(m.addedNodes)) handleNode(n);
-        }
-      });
-
-      obs.observe(container, { childList: true, subtree: true });
+      parser.observeMessages(
+        container,
+        (msg) => w.__emitAvitoMessage({ ...msg, at: new Date().toISOString() }),
+        1500,
+      );
 
       // пометим чтобы не ставить второй раз
-      (window as any).__avitoObserverInstalled = true;
+      w.__avitoObserverInstalled = true;
       return true;
-    }, target);
+    });
 
     return Boolean(ok);
   }
 
-  private async captureLastMessageAsBaseline() {
-    const msg = await this.readLastMessage();
+  private async captureLastMessageAsBaseline(session: ChatSession) {
+    // Everything the chat page loaded so far is history, not new messages
+    for (const known of session.networkMessages) {
+      this.rememberMessageId(session, known.id);
+    }
+
+    const msg = await this.readLastMessage(this.mustSessionPage(session));
     if (!msg) return;
-    this.lastFingerprint = `${msg.from}|${msg.text}`.trim();
+    session.lastFingerprint = this.messageFingerprint(session, msg);
+    if (msg.id) this.rememberMessageId(session, msg.id);
 
     this.bus.emit({
       type: 'status',
       level: 'info',
-      message: 'Baseline set (existing messages ignored)',
+      message: `Baseline set for ${session.binding.id} (existing messages ignored)`,
       at: new Date().toISOString(),
     });
   }
 
-  private async readLastMessage(): Promise<LastMsg | null> {
-    const page = this.mustPage();
-    const from = (process.env.TARGET_CONTACT ?? 'Рушан').trim();
-
-    const text = await page.evaluate(() => {
-      const norm = (s: string) => (s || '').replace(/\s+/g, ' ').trim();
-      const messageSelectors = [
-        '[data-marker*="message"]',
-        '[data-marker*="msg"]',
-        '[role="listitem"]',
-        'article',
-        '[class*="message"]',
-        '[class*="bubble"]',
-      ].join(', ');
-
-      const isInsideNav = (el: HTMLElement | null) =>
-        !!el?.closest('nav, aside, header, [role="navigation"]');
-
-      const isUiNoise = (text: string) => {
-        const t = norm(text).toLowerCase();
-        if (!t) return true;
-
-        const exactNoise = new Set([
-          'уведомления',
-          'кошелек',
-          'кошелёк',
-          'платные услуги',
-          'мои резюме',
-          'избранное',
-          'объявления',
-          'профиль',
-          'настройки',
-          'помощь',
-          'перейти в помощь',
-          'поддержка',
-          'поддержка авито',
-          'служба поддержки',
-          'партнерская программа',
-          'услуги',
-          'доставка',
-          'звонки',
-        ]);
-
-        if (exactNoise.has(t)) return true;
-        if (/^сегодня$|^вчера$/.test(t)) return true;
-        if (/^(понедельник|вторник|среда|четверг|пятница|суббота|воскресенье)$/.test(t)) return true;
-
-        const dateRe =
-          /^(понедельник|вторник|среда|четверг|пятница|суббота|воскресенье),?\s+\d{1,2}\s+(января|февраля|марта|апреля|мая|июня|июля|августа|сентября|октября|ноября|декабря)$/i;
-
-        if (dateRe.test(t)) return true;
-        if (/войти|регистрация/i.test(t)) return true;
-
-        return false;
-      };
+  /** Every bubble of the open chat, oldest first. */
+  private async readMessages(page: Page): Promise<ParsedMessage[]> {
+    await this.ensureParser(page);
+    return page.evaluate(() => {
+      const parser = (window as unknown as AvitoPageWindow).__avitoParser;
+      const container = parser.findMessageContainer();
+      return container ? parser.collectMessages(container, container) : [];
+    });
+  }
+
+  private async readLastMessage(page: Page): Promise<ParsedMessage | null> {
+    await this.ensureParser(page);
+    return page.evaluate(() => {
+      const w = window as unknown as AvitoPageWindow;
+      return w.__avitoParser.readLastMessage();
+    });
+  }
+
+  /**
+   * Works out who wrote a parsed bubble. An author label equal to AVITO_SELF_NAME
+   * wins over layout; bubbles with no detectable side count as incoming.
+   */
+  private attributeMessage(
+    session: ChatSession,
+    msg: ParsedMessage,
+  ): { direction: MessageDirection; from: string; text: string } {
+    const selfName = this.settings.get().selfName;
+    const author = msg.author.trim();
+    const direction: MessageDirection =
+      author && author.toLowerCase() === selfName.toLowerCase()
+        ? 'outgoing'
+        : (msg.direction ?? 'incoming');
+
+    const from =
+      direction === 'outgoing'
+        ? selfName
+        : author || session.title || 'unknown';
+    return { direction, from, text: msg.text };
+  }
+
+  private messageFingerprint(session: ChatSession, msg: ParsedMessage) {
+    const { direction } = this.attributeMessage(session, msg);
+    const media = msg.attachments.map((a) => a.url ?? a.type).join(',');
+    return `${direction}|${msg.text}|${media}`;
+  }
+
+  /**
+   * Emits a chat message once. Messages with an Avito ID (from the DOM or
+   * matched against the network payloads) are deduplicated by that ID, so the
+   * same text sent twice is reported twice; others fall back to the
+   * direction|text|media fingerprint of the last message. The DOM observer
+   * already reports each bubble once (`fromObserver`), so its repeated texts
+   * skip that fallback.
+   */
+  private emitChatMessage(
+    session: ChatSession,
+    parsed: ParsedMessage | DecodedMessageInput,
+    observedAt: string,
+    fromObserver = false,
+  ) {
+    const network = parsed.id
+      ? null
+      : this.claimNetworkMessage(session, parsed);
+    // Payload attachments carry the full-size URL, MIME type and size
+    const msg: DecodedMessageInput = {
+      ...parsed,
+      direction: parsed.direction ?? network?.direction ?? null,
+      attachments: network?.attachments.length
+        ? network.attachments
+        : parsed.attachments,
+    };
+    const messageId = msg.id ?? network?.id ?? null;
+    const fp = this.messageFingerprint(session, msg);
+
+    if (messageId) {
+      if (session.seenIds.has(messageId)) return;
+      this.rememberMessageId(session, messageId);
+    } else if (!fp || (!fromObserver && fp === session.lastFingerprint)) {
+      return;
+    }
+
+    session.lastFingerprint = fp;
+    const at = msg.sentAt ?? network?.at ?? observedAt;
+    // Media downloads are async; the queue keeps events in chat order
+    session.emitQueue = session.emitQueue
+      .then(() => this.publishChatMessage(session, msg, messageId, at))
+      .catch(() => undefined);
+  }
 
-      const extractMessageText = (el: HTMLElement) => {
-        const raw = el.innerText || el.textContent || '';
-        const lines = raw.split('\n').map(norm).filter(Boolean);
-        return lines.length ? lines[lines.length - 1] : norm(raw);
+  private async publishChatMessage(
+    session: ChatSession,
+    msg: DecodedMessageInput,
+    messageId: string | null,
+    at: string,
+  ) {
+    const attachments = await this.downloadAttachments(
+      session,
+      msg.attachments,
+    );
+    const attributed = this.attributeMessage(session, msg);
+    this.lastMessageAt = Date.now();
+    this.metrics.inc(metricNames.messages, {
+      direction: attributed.direction,
+    });
+    this.bus.emit({
+      type: 'message',
+      channelId: session.binding.id,
+      messageId,
+      ...attributed,
+      attachments,
+      listing: session.listing,
+      at,
+    });
+  }
+
+  /**
+   * Saves attachment media through the chat page's logged-in session and
+   * returns them with local `/media/...` URLs. Cards (listings, locations,
+   * links) are passed through without downloading; failed downloads keep
+   * `url: null` and the original `sourceUrl`.
+   */
+  private async downloadAttachments(
+    session: ChatSession,
+    attachments: DecodedMessageInput['attachments'],
+  ): Promise<MessageAttachment[]> {
+    const result: MessageAttachment[] = [];
+    for (const attachment of attachments) {
+      const item: MessageAttachment = {
+        type: attachment.type,
+        mime: attachment.mime ?? null,
+        size: attachment.size ?? null,
+        url: null,
+        name: attachment.name,
+        sourceUrl: attachment.url,
       };
+      result.push(item);
 
-      const countMessages = (root: HTMLElement) =>
-        Array.from(root.querySelectorAll<HTMLElement>(messageSelectors)).filter((node) => {
-          if (isInsideNav(node)) return false;
-          const text = extractMessageText(node);
-          return text.length > 0 && text.length < 4000 && !isUiNoise(text);
-        }).length;
-
-      const findMessageContainer = (): HTMLElement | null => {
-        const containers: Map<HTMLElement, number> = new Map();
-        const nodes = Array.from(document.querySelectorAll<HTMLElement>(messageSelectors)).filter(
-          (node) => !isInsideNav(node),
-        );
-
-        for (const node of nodes) {
-          let cur: HTMLElement | null = node;
-          for (let i = 0; i < 6 && cur; i++) {
-            if (!cur || cur.tagName === 'BODY' || cur.tagName === 'HTML' || cur.tagName === 'MAIN') break;
-            if (!isInsideNav(cur)) {
-              containers.set(cur, (containers.get(cur) ?? 0) + 1);
-            }
-            cur = cur.parentElement;
+      const page = session.page;
+      if (!attachment.url || !page || !downloadableKinds.has(attachment.type)) {
+        continue;
+      }
+      try {
+        const media = await this.fetchMedia(page, attachment.url);
+        const saved = this.media.save(media.data, media.mime ?? item.mime);
+        item.url = saved.url;
+        item.mime = media.mime ?? item.mime;
+        item.size = media.data.length;
+      } catch (e: unknown) {
+        this.bus.emit({
+          type: 'status',
+          level: 'warn',
+          message: `Attachment download failed in ${session.binding.id} (${attachment.type}): ${e instanceof Error ? e.message : String(e)}`,
+          at: new Date().toISOString(),
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * blob:/data: URLs only exist inside the page, so they are read there;
+   * everything else is fetched from Node with the page's cookies.
+   */
+  private async fetchMedia(
+    page: Page,
+    url: string,
+  ): Promise<{ data: Buffer; mime: string | null }> {
+    const maxBytes = this.media.maxBytes;
+    const tooLarge = () =>
+      new Error(`larger than MEDIA_MAX_BYTES (${maxBytes})`);
+
+    if (/^(blob|data):/i.test(url)) {
+      const res = await page.evaluate(
+        async (src, max) => {
+          const blob = await (await fetch(src)).blob();
+          if (blob.size > max) return null;
+          const bytes = new Uint8Array(await blob.arrayBuffer());
+          let binary = '';
+          for (let i = 0; i < bytes.length; i += 0x8000) {
+            binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
           }
-        }
+          return { b64: btoa(binary), mime: blob.type };
+        },
+        url,
+        maxBytes,
+      );
+      if (!res) throw tooLarge();
+      return { data: Buffer.from(res.b64, 'base64'), mime: res.mime || null };
+    }
 
-        let best: { el: HTMLElement; count: number } | null = null;
-        for (const [el, count] of containers.entries()) {
-          if (!best || count > best.count) best = { el, count };
-        }
+    const cookies = await page.cookies(url);
+    const res = await fetch(url, {
+      headers: {
+        cookie: cookies.map((c) => `${c.name}=${c.value}`).join('; '),
+        'user-agent': await page.browser().userAgent(),
+        referer: page.url(),
+      },
+      signal: AbortSignal.timeout(MEDIA_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    if (Number(res.headers.get('content-length') ?? 0) > maxBytes) {
+      throw tooLarge();
+    }
 
-        if (!best || best.count < 2) return null;
-        return best.el;
-      };
+    const data = Buffer.from(await res.arrayBuffer());
+    if (data.length > maxBytes) throw tooLarge();
+    const mime = res.headers.get('content-type')?.split(';')[0].trim();
+    return { data, mime: mime || null };
+  }
+
+  private rememberMessageId(session: ChatSession, id: string) {
+    session.seenIds.add(id);
+    if (session.seenIds.size <= SEEN_IDS_LIMIT) return;
+    const [oldest] = session.seenIds;
+    session.seenIds.delete(oldest);
+  }
+
+  private preferredMessageSource(): MessageSource {
+    return this.sourceOverride ?? this.config.get('watcher').messageSource;
+  }
+
+  /**
+   * Starts collecting messenger traffic of a chat page: JSON HTTP responses
+   * and, through CDP, the frames of the messenger WebSocket. Must run before
+   * navigation, as CDP only reports sockets opened after Network.enable.
+   */
+  private async attachNetworkCapture(session: ChatSession, page: Page) {
+    page.on('response', (res) => void this.captureHttpMessages(session, res));
+
+    try {
+      const cdp = await page.createCDPSession();
+      cdp.on('Network.webSocketFrameReceived', (evt) => {
+        // opcode 1 = text frame; binary frames are not decoded
+        if (evt.response.opcode !== 1) return;
+        this.captureSocketFrame(session, evt.response.payloadData);
+      });
+      await cdp.send('Network.enable');
+      session.socketCapture = true;
+    } catch (e: unknown) {
+      session.socketCapture = false;
+      this.bus.emit({
+        type: 'status',
+        level: 'warn',
+        message: `WebSocket capture unavailable in ${session.binding.id}: ${e instanceof Error ? e.message : String(e)}`,
+        at: new Date().toISOString(),
+      });
+    }
+  }
 
-      const container = findMessageContainer();
-      if (!container) return '';
-
-      const candidates = Array.from(container.querySelectorAll<HTMLElement>(messageSelectors));
-      for (let i = candidates.length - 1; i >= 0; i -= 1) {
-        const node = candidates[i];
-        if (isInsideNav(node)) continue;
-        const text = extractMessageText(node);
-        if (!text || text.length > 4000) continue;
-        if (isUiNoise(text)) continue;
-        return text;
+  private async captureHttpMessages(session: ChatSession, res: HTTPResponse) {
+    try {
+      const ct = String(res.headers()['content-type'] ?? '').toLowerCase();
+      if (!ct.includes('application/json')) return;
+      if (!/messenger|chat|channel/i.test(res.url())) return;
+
+      const data: unknown = await res.json();
+      // Responses of the chat page without a channel ID belong to this chat
+      this.ingestNetworkMessages(session, decodeMessengerPayload(data), false);
+    } catch {
+      // Redirects, empty bodies and closed pages carry nothing useful
+    }
+  }
+
+  private captureSocketFrame(session: ChatSession, payloadData: string) {
+    const data = parseSocketFrame(payloadData);
+    if (data === null) return;
+
+    const userId = findSessionUserId(data);
+    if (userId) {
+      session.selfUserId = userId;
+      return;
+    }
+    // The socket serves the whole inbox, so only frames naming this chat count
+    this.ingestNetworkMessages(session, decodeMessengerPayload(data), true);
+  }
+
+  private ingestNetworkMessages(
+    session: ChatSession,
+    decoded: DecodedMessage[],
+    requireChannel: boolean,
+  ) {
+    const channelId = session.binding.id;
+    const fresh: DecodedMessage[] = [];
+
+    for (const msg of decoded) {
+      if (msg.channelId ? msg.channelId !== channelId : requireChannel) {
+        continue;
+      }
+      if (session.networkMessages.some((m) => m.id === msg.id)) continue;
+
+      if (!msg.direction && msg.authorId && session.selfUserId) {
+        msg.direction =
+          msg.authorId === session.selfUserId ? 'outgoing' : 'incoming';
       }
+      session.networkMessages.push(msg);
+      fresh.push(msg);
+    }
+
+    if (session.networkMessages.length > NETWORK_MESSAGES_LIMIT) {
+      session.networkMessages.splice(
+        0,
+        session.networkMessages.length - NETWORK_MESSAGES_LIMIT,
+      );
+    }
 
-      return '';
+    if (session.source !== 'network') return;
+    for (const msg of fresh) {
+      this.emitChatMessage(
+        session,
+        {
+          text: msg.text,
+          direction: msg.direction,
+          author: '',
+          id: msg.id,
+          sentAt: msg.at,
+          attachments: msg.attachments,
+        },
+        new Date().toISOString(),
+      );
+    }
+  }
+
+  /**
+   * Network source: messages are emitted as the socket delivers them. The
+   * last DOM bubble is checked periodically; if it stays unknown to the
+   * decoded traffic for NETWORK_FALLBACK_AFTER_MS, decoding is considered
+   * broken and that bubble is returned so the caller can fall back.
+   * Returns null right away when socket capture is not available.
+   */
+  private async watchNetwork(
+    session: ChatSession,
+  ): Promise<ParsedMessage | null> {
+    if (!session.socketCapture) return null;
+
+    const page = this.mustSessionPage(session);
+    const {
+      networkCheckIntervalMs: checkInterval,
+      networkFallbackAfterMs: fallbackAfter,
+    } = this.config.get('watcher');
+
+    session.source = 'network';
+    this.bus.emit({
+      type: 'status',
+      level: 'info',
+      message: `Network capture active in ${session.binding.id} ✅`,
+      at: new Date().toISOString(),
     });
 
-    if (!text) return null;
-    return { from, text, at: new Date().toISOString() };
+    // Last DOM bubble the traffic has not accounted for, and since when
+    let pendingKey = '';
+    let pendingSince = 0;
+    while (!this.stopping && !session.stopped) {
+      if (page.url().includes('login')) {
+        throw new AuthRequiredError('Session expired (redirected to login)');
+      }
+      await sleep(checkInterval);
+
+      const last = await this.readLastMessage(page).catch(() => null);
+      if (!last || this.isKnownFromNetwork(session, last)) {
+        pendingKey = '';
+        continue;
+      }
+      const key = this.messageFingerprint(session, last);
+      if (key === session.lastFingerprint) continue;
+
+      if (pendingKey !== key) {
+        pendingKey = key;
+        pendingSince = Date.now();
+      } else if (Date.now() - pendingSince >= fallbackAfter) {
+        session.source = null;
+        return last;
+      }
+    }
+    return null;
+  }
+
+  private isKnownFromNetwork(session: ChatSession, msg: ParsedMessage) {
+    if (msg.id) {
+      return (
+        session.seenIds.has(msg.id) ||
+        session.networkMessages.some((m) => m.id === msg.id)
+      );
+    }
+    const text = msg.text.replace(/\s+/g, ' ').trim();
+    return session.networkMessages.some((m) => m.text === text);
+  }
+
+  /**
+   * Finds the network copy of a bubble that has no ID in the markup: the
+   * oldest not yet emitted message with the same text (and side, when known).
+   */
+  private claimNetworkMessage(
+    session: ChatSession,
+    msg: ParsedMessage,
+  ): DecodedMessage | null {
+    const text = msg.text.replace(/\s+/g, ' ').trim();
+    return (
+      session.networkMessages.find(
+        (m) =>
+          !session.seenIds.has(m.id) &&
+          m.text === text &&
+          (!msg.direction || !m.direction || m.direction === msg.direction),
+      ) ?? null
+    );
+  }
+
+  /** Injects the shared DOM parser (see avito.parser.ts) into the page. */
+  private async ensureParser(page: Page) {
+    await page.evaluate(avitoParserScript);
   }
 
   private mustPage(): Page {
@@ -1457,7 +2052,15 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
     return this.page;
   }
 
+  private mustSessionPage(session: ChatSession): Page {
+    if (!session.page) throw new Error(`Chat page not initialized (${session.binding.id})`);
+    return session.page;
+  }
+
   private async safeClose() {
+    this.loggedIn = false;
+    await this.screencast.stop();
+    await this.stopAllChatSessions();
     try {
       await this.page?.close().catch(() => undefined);
     } finally {
@@ -1470,9 +2073,8 @@ export class AvitoWatcherService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  private async dumpDebugArtifacts(tag: string) {
+  private async dumpDebugArtifacts(tag: string, page: Page | undefined = this.page) {
     try {
-      const page = this.page;
       if (!page) return;
 
       const dir = path.join(process.cwd(), 'debug');
@@ -1,11 +1,9 @@
-import { Controller, Get, Post } from '@nestjs/common';
-import * as fs from 'fs';
-import * as path from 'path';
+import { Body, Controller, Delete, Get, Param, Post } from '@nestjs/common';
 import { AvitoWatcherService } from './avito.watcher.service';
+import { RequireRole } from './auth.guard';
+import { ChatBinding, ChatBindingsService, normalizeChatUrl } from './chat-bindings.service';
 import { EventBus } from './event-bus';
 
-type BindState = { url: string; boundAt: string };
-
 type BindKind = 'channel' | 'search' | 'messenger' | 'other' | 'none';
 
 type BindResult = {
@@ -13,8 +11,11 @@ type BindResult = {
   kind: BindKind;
   url?: string;
   message?: string;
+  binding?: ChatBinding;
 };
 
+type BindRequest = { url?: string };
+
 const messengerUrlRe = /avito\.ru\/(profile\/)?messenger(\/|\?|$)/i;
 const messengerChannelUrlRe = /avito\.ru\/profile\/messenger\/channel\//i;
 const messengerChannelPathRe = /\/profile\/messenger\/channel\//i;
@@ -23,43 +24,35 @@ const messengerSearchQueryRe = /[?&]q=/i;
 
 @Controller('bind')
 export class BindController {
-  private readonly bindFilePath = path.join(process.cwd(), '.avito-target.json');
-
   constructor(
     private readonly watcher: AvitoWatcherService,
+    private readonly bindings: ChatBindingsService,
     private readonly bus: EventBus,
   ) {}
 
-  @Get('status')
-  status(): BindResult {
-    const state = this.read();
-    if (!state?.url) {
-      this.emitStatus('warn', 'Bind status: not bound');
-      return { ok: false, kind: 'none' };
-    }
-
-    const normalizedUrl = this.normalizeUrl(state.url);
-    const classification = this.classifyUrl(normalizedUrl);
-    if (classification.kind !== 'channel') {
-      this.emitStatus('warn', `Bind status: invalid url (${classification.kind})`);
-      return {
-        ok: false,
-        kind: classification.kind,
-        url: normalizedUrl,
-        message: 'Bound URL is not channel',
-      };
-    }
-
-    this.emitStatus('info', `Bind status: ${normalizedUrl}`);
-    return { ok: true, kind: 'channel', url: normalizedUrl };
+  @Get()
+  list() {
+    const bindings = this.bindings.list().map((binding) => ({
+      ...binding,
+      state: this.watcher.getChatState(binding.id),
+      messageSource: this.watcher.getChatSource(binding.id),
+    }));
+    return { ok: true, bindings };
   }
 
   /**
-   * Binds current Puppeteer page URL as the target chat.
-   * Use flow: run with HEADLESS=false, login, open the desired chat manually, then POST /bind/current.
+   * Adds a chat binding. With `url` in the body binds that channel URL,
+   * otherwise binds the current Puppeteer page URL.
+   * Use flow: run with HEADLESS=false, login, open the desired chat manually, then POST /bind.
    */
-  @Post('current')
-  async bindCurrent(): Promise<BindResult & { debugUrls?: string[] }> {
+  @RequireRole('operator')
+  @Post()
+  async add(@Body() body: BindRequest = {}): Promise<BindResult & { debugUrls?: string[] }> {
+    const requestedUrl = String(body?.url ?? '').trim();
+    if (requestedUrl) {
+      return this.bindUrl(requestedUrl);
+    }
+
     const initialUrl = (this.watcher.getCurrentUrl() ?? '').trim();
     let candidateUrl = initialUrl;
 
@@ -79,7 +72,38 @@ export class BindController {
       return { ok: false, kind: 'other', message, debugUrls };
     }
 
-    const normalizedUrl = this.normalizeUrl(candidateUrl);
+    const result = this.bindUrl(candidateUrl);
+    return result.ok ? result : { ...result, debugUrls };
+  }
+
+  @RequireRole('operator')
+  @Delete(':id')
+  remove(@Param('id') id: string) {
+    const binding = this.bindings.get(id);
+    if (!binding) {
+      this.emitStatus('warn', `Unbind failed: ${id} is not bound`);
+      return { ok: false, id, message: 'Binding not found' };
+    }
+    if (binding.source === 'env') {
+      const message = 'Binding comes from TARGET_CHAT_URL and cannot be removed';
+      this.emitStatus('warn', `Unbind failed: ${message}`);
+      return { ok: false, id, message };
+    }
+
+    try {
+      this.bindings.remove(id);
+    } catch (error) {
+      const message = `Failed to remove binding: ${error instanceof Error ? error.message : String(error)}`;
+      this.emitStatus('error', message);
+      return { ok: false, id, message };
+    }
+
+    this.emitStatus('info', `Chat binding removed: ${binding.url}`);
+    return { ok: true, id };
+  }
+
+  private bindUrl(rawUrl: string): BindResult {
+    const normalizedUrl = normalizeChatUrl(rawUrl);
     const classification = this.classifyUrl(normalizedUrl);
     if (classification.kind !== 'channel') {
       const message = 'Not a channel URL. Open a chat and try again.';
@@ -89,54 +113,25 @@ export class BindController {
         kind: classification.kind,
         message,
         url: normalizedUrl,
-        debugUrls,
       };
     }
 
-    const state: BindState = { url: normalizedUrl, boundAt: new Date().toISOString() };
-    fs.writeFileSync(this.bindFilePath, JSON.stringify(state, null, 2), 'utf-8');
-
-    const okMessage = `Target chat bound: ${normalizedUrl}`;
-    this.emitStatus('info', okMessage);
-    return { ok: true, kind: 'channel', url: normalizedUrl };
-  }
-
-  @Post('clear')
-  clear() {
+    let binding: ChatBinding | null;
     try {
-      if (fs.existsSync(this.bindFilePath)) {
-        fs.unlinkSync(this.bindFilePath);
-      }
-      this.emitStatus('info', 'Target chat binding cleared');
+      binding = this.bindings.add(normalizedUrl);
     } catch (error) {
-      const message = `Failed to clear binding: ${error instanceof Error ? error.message : String(error)}`;
+      const message = `Failed to save binding: ${error instanceof Error ? error.message : String(error)}`;
       this.emitStatus('error', message);
+      return { ok: false, kind: 'channel', message, url: normalizedUrl };
     }
-
-    return { ok: true };
-  }
-
-  private read(): BindState | null {
-    try {
-      if (!fs.existsSync(this.bindFilePath)) return null;
-      const raw = fs.readFileSync(this.bindFilePath, 'utf-8');
-      const j = JSON.parse(raw);
-      const url = String(j?.url ?? '').trim();
-      const boundAt = String(j?.boundAt ?? '').trim();
-      if (!url) return null;
-      return { url, boundAt: boundAt || new Date(0).toISOString() };
-    } catch {
-      return null;
+    if (!binding) {
+      const message = 'Cannot extract channel ID from URL';
+      this.emitStatus('warn', `${message}: ${normalizedUrl}`);
+      return { ok: false, kind: 'channel', message, url: normalizedUrl };
     }
-  }
 
-  private normalizeUrl(raw: string): string {
-    const trimmed = raw.trim();
-    if (!trimmed) return trimmed;
-    if (trimmed.startsWith('/')) {
-      return `https://www.avito.ru${trimmed}`;
-    }
-    return trimmed;
+    this.emitStatus('info', `Chat bound: ${binding.url} (id ${binding.id})`);
+    return { ok: true, kind: 'channel', url: binding.url, binding };
   }
 
   private isChannelUrl(url: string): boolean {
@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ChatBindingsService,
+  channelIdFromUrl,
+  normalizeChatUrl,
+} from './chat-bindings.service';
+import { ConfigService } from './config.service';
+
+const CHAT_URL = 'https://www.avito.ru/profile/messenger/channel/u2i-aBc123';
+
+describe('ChatBindingsService', () => {
+  let dir: string;
+  let file: string;
+
+  // Bindings live in `.avito-target.json` of the working directory
+  const create = () => new ChatBindingsService(new ConfigService());
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chat-bindings-'));
+    file = path.join(dir, '.avito-target.json');
+    jest.spyOn(process, 'cwd').mockReturnValue(dir);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.TARGET_CHAT_URL;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('adds chats by URL, once per channel', () => {
+    const bindings = create();
+
+    const added = bindings.add('/profile/messenger/channel/u2i-aBc123?from=x');
+    expect(added).toMatchObject({
+      id: 'u2i-aBc123',
+      url: 'https://www.avito.ru/profile/messenger/channel/u2i-aBc123?from=x',
+      source: 'bind',
+    });
+    expect(bindings.add(CHAT_URL, 'auto')).toEqual(added);
+    expect(bindings.add('https://www.avito.ru/profile/messenger')).toBeNull();
+
+    bindings.add('/profile/messenger/channel/u2i-nEw456', 'auto');
+    expect(bindings.list().map((b) => [b.id, b.source])).toEqual([
+      ['u2i-aBc123', 'bind'],
+      ['u2i-nEw456', 'auto'],
+    ]);
+    expect(bindings.get('u2i-nEw456')?.source).toBe('auto');
+    expect(bindings.get('u2i-other')).toBeNull();
+  });
+
+  it('keeps the bindings on disk', () => {
+    create().add(CHAT_URL);
+    create().add('/profile/messenger/channel/u2i-nEw456');
+
+    const reloaded = create();
+    expect(reloaded.list().map((b) => b.id)).toEqual([
+      'u2i-aBc123',
+      'u2i-nEw456',
+    ]);
+    expect(reloaded.remove('u2i-aBc123')).toBe(true);
+    expect(reloaded.remove('u2i-aBc123')).toBe(false);
+    expect(create().get('u2i-aBc123')).toBeNull();
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual({
+      bindings: [
+        expect.objectContaining({
+          url: 'https://www.avito.ru/profile/messenger/channel/u2i-nEw456',
+        }),
+      ],
+    });
+  });
+
+  it('reads the legacy single-chat file and ignores a broken one', () => {
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ url: CHAT_URL, boundAt: '2025-10-14T06:00:00.000Z' }),
+    );
+    expect(create().list()).toEqual([
+      {
+        id: 'u2i-aBc123',
+        url: CHAT_URL,
+        boundAt: '2025-10-14T06:00:00.000Z',
+        source: 'bind',
+      },
+    ]);
+
+    fs.writeFileSync(file, '{broken');
+    expect(create().list()).toEqual([]);
+  });
+
+  it('lists TARGET_CHAT_URL first without storing or removing it', () => {
+    process.env.TARGET_CHAT_URL = '/profile/messenger/channel/u2i-eNv001';
+    const bindings = create();
+    bindings.add(CHAT_URL);
+
+    expect(bindings.list().map((b) => [b.id, b.source])).toEqual([
+      ['u2i-eNv001', 'env'],
+      ['u2i-aBc123', 'bind'],
+    ]);
+    expect(bindings.remove('u2i-eNv001')).toBe(false);
+    expect(fs.readFileSync(file, 'utf-8')).not.toContain('u2i-eNv001');
+  });
+});
+
+describe('chat URLs', () => {
+  it('extracts channel IDs and completes relative URLs', () => {
+    expect(channelIdFromUrl(`${CHAT_URL}#end`)).toBe('u2i-aBc123');
+    expect(channelIdFromUrl('/profile/messenger')).toBeNull();
+    expect(channelIdFromUrl(null)).toBeNull();
+    expect(normalizeChatUrl(' /profile/messenger ')).toBe(
+      'https://www.avito.ru/profile/messenger',
+    );
+    expect(normalizeChatUrl(CHAT_URL)).toBe(CHAT_URL);
+  });
+});
@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigService } from './config.service';
+
+export type ChatBindingSource = 'bind' | 'auto' | 'env';
+
+export type ChatBinding = {
+  id: string;
+  url: string;
+  boundAt: string;
+  source: ChatBindingSource;
+};
+
+type StoredBinding = { url?: string; boundAt?: string; source?: string };
+
+// Legacy single-chat files are a bare StoredBinding without `bindings`.
+type StoredFile = StoredBinding & { bindings?: StoredBinding[] };
+
+const channelIdRe = /\/messenger\/channel\/([^/?#]+)/i;
+
+/** Extracts the Avito channel ID (last path segment after /channel/) from a chat URL. */
+export function channelIdFromUrl(url: string | null): string | null {
+  const match = (url ?? '').match(channelIdRe);
+  return match?.[1] ? decodeURIComponent(match[1]) : null;
+}
+
+export function normalizeChatUrl(raw: string): string {
+  const trimmed = raw.trim();
+  if (!trimmed) return trimmed;
+  if (trimmed.startsWith('/')) {
+    return `https://www.avito.ru${trimmed}`;
+  }
+  return trimmed;
+}
+
+/**
+ * Persistent list of bound chats.
+ *
+ * Stored in `.avito-target.json` as `{ bindings: [...] }`. The legacy single-chat
+ * format (`{ url, boundAt }`) is still read, and TARGET_CHAT_URL is exposed as a
+ * read-only binding.
+ */
+@Injectable()
+export class ChatBindingsService {
+  private readonly filePath = path.join(process.cwd(), '.avito-target.json');
+
+  constructor(private readonly config: ConfigService) {}
+
+  list(): ChatBinding[] {
+    const bindings = this.read();
+    const env = this.envBinding();
+    if (env && !bindings.some((b) => b.id === env.id)) {
+      bindings.unshift(env);
+    }
+    return bindings;
+  }
+
+  get(id: string): ChatBinding | null {
+    return this.list().find((b) => b.id === id) ?? null;
+  }
+
+  /** Adds a channel URL; returns the existing binding if the channel is already bound. */
+  add(rawUrl: string, source: ChatBindingSource = 'bind'): ChatBinding | null {
+    const url = normalizeChatUrl(rawUrl);
+    const id = channelIdFromUrl(url);
+    if (!id) return null;
+
+    const existing = this.list().find((b) => b.id === id);
+    if (existing) return existing;
+
+    const binding: ChatBinding = {
+      id,
+      url,
+      boundAt: new Date().toISOString(),
+      source,
+    };
+    this.write([...this.read(), binding]);
+    return binding;
+  }
+
+  /** Removes a stored binding. Env bindings (TARGET_CHAT_URL) cannot be removed. */
+  remove(id: string): boolean {
+    const bindings = this.read();
+    const next = bindings.filter((b) => b.id !== id);
+    if (next.length === bindings.length) return false;
+    this.write(next);
+    return true;
+  }
+
+  private envBinding(): ChatBinding | null {
+    const direct = this.config.get('watcher').targetChatUrl;
+    if (!direct) return null;
+    const url = normalizeChatUrl(direct);
+    const id = channelIdFromUrl(url);
+    if (!id) return null;
+    return { id, url, boundAt: new Date(0).toISOString(), source: 'env' };
+  }
+
+  private read(): ChatBinding[] {
+    try {
+      if (!fs.existsSync(this.filePath)) return [];
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const j = JSON.parse(raw) as StoredFile;
+      const items = Array.isArray(j?.bindings) ? j.bindings : [j];
+
+      const bindings: ChatBinding[] = [];
+      for (const item of items) {
+        const url = normalizeChatUrl(String(item?.url ?? ''));
+        const id = channelIdFromUrl(url);
+        if (!id || bindings.some((b) => b.id === id)) continue;
+        const boundAt = String(item?.boundAt ?? '').trim();
+        bindings.push({
+          id,
+          url,
+          boundAt: boundAt || new Date(0).toISOString(),
+          source: item?.source === 'auto' ? 'auto' : 'bind',
+        });
+      }
+      return bindings;
+    } catch {
+      return [];
+    }
+  }
+
+  private write(bindings: ChatBinding[]) {
+    const stored = bindings.filter((b) => b.source !== 'env');
+    fs.writeFileSync(
+      this.filePath,
+      JSON.stringify({ bindings: stored }, null, 2),
+      'utf-8',
+    );
+  }
+}
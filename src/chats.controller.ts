@@ -0,0 +1,62 @@
+import { Body, Controller, Get, Param, Post } from '@nestjs/common';
+import { AvitoWatcherService } from './avito.watcher.service';
+import { RequireRole } from './auth.guard';
+import { ChatBindingsService } from './chat-bindings.service';
+import { TemplatesService } from './templates.service';
+
+type SendMessageRequest = { text?: string; templateId?: string };
+
+@RequireRole('operator')
+@Controller('chats')
+export class ChatsController {
+  constructor(
+    private readonly watcher: AvitoWatcherService,
+    private readonly bindings: ChatBindingsService,
+    private readonly templates: TemplatesService,
+  ) {}
+
+  /**
+   * A bound chat with the listing it is about (title, price, item ID, link,
+   * thumbnail), as read from the chat header when the chat was opened.
+   */
+  @RequireRole('viewer')
+  @Get(':id')
+  getChat(@Param('id') id: string) {
+    const binding = this.bindings.get(id);
+    if (!binding) return { ok: false, message: `Chat ${id} is not bound` };
+    const details = this.watcher.getChatDetails(id);
+    return {
+      ok: true,
+      chat: {
+        ...binding,
+        state: this.watcher.getChatState(id),
+        messageSource: this.watcher.getChatSource(id),
+        title: details?.title ?? null,
+        listing: details?.listing ?? null,
+        readAt: details?.readAt ?? null,
+      },
+    };
+  }
+
+  /**
+   * Types a reply into the open Avito chat and waits until it shows up in the
+   * message list. Replies to the same chat are sent one at a time.
+   *
+   * `{ templateId }` instead of `{ text }` sends a template filled for this chat.
+   */
+  @Post(':id/messages')
+  sendMessage(@Param('id') id: string, @Body() body: SendMessageRequest = {}) {
+    if (body?.templateId) {
+      const text = this.templates.render(String(body.templateId), id);
+      if (text === null) {
+        return {
+          ok: false,
+          channelId: id,
+          message: `Template ${String(body.templateId)} not found`,
+        };
+      }
+      return this.watcher.sendMessage(id, text);
+    }
+    return this.watcher.sendMessage(id, String(body?.text ?? ''));
+  }
+}
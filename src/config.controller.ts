@@ -1,9 +1,17 @@
 import { Controller, Get } from '@nestjs/common';
+import { ConfigService } from './config.service';
 
 @Controller('config')
 export class ConfigController {
+  constructor(private readonly config: ConfigService) {}
+
+  /** Effective settings with secrets masked; `publicUrl` is what the dashboard links to. */
   @Get()
   getConfig() {
-    return { publicUrl: process.env.PUBLIC_URL ?? null };
+    return {
+      ok: true,
+      publicUrl: this.config.get('app').publicUrl,
+      config: this.config.redacted(),
+    };
   }
 }
@@ -0,0 +1,87 @@
+import {
+  ConfigValidationError,
+  loadConfig,
+  redactConfig,
+} from './config.service';
+
+describe('loadConfig', () => {
+  it('falls back to defaults, treating empty values as unset', () => {
+    const config = loadConfig({ PORT: '', HEADLESS: '  ' });
+
+    expect(config.app.port).toBe(3000);
+    expect(config.browser.headless).toBe(false);
+    expect(config.watcher.messageSource).toBe('observer');
+    expect(config.auth.operatorTokens).toEqual([]);
+    expect(config.tunnel.urlRegex).toBeNull();
+  });
+
+  it('parses typed values', () => {
+    const config = loadConfig({
+      PORT: '8080',
+      HEADLESS: 'yes',
+      MESSAGE_SOURCE: 'Network',
+      AUTH_VIEWER_TOKENS: 'a, b,,',
+      TUNNEL_URL_REGEX: 'https://\\S+\\.example',
+    });
+
+    expect(config.app.port).toBe(8080);
+    expect(config.browser.headless).toBe(true);
+    expect(config.watcher.messageSource).toBe('network');
+    expect(config.auth.viewerTokens).toEqual(['a', 'b']);
+    expect(config.tunnel.urlRegex?.test('https://x.example')).toBe(true);
+  });
+
+  it('reports every invalid variable at once', () => {
+    let error: unknown;
+    try {
+      loadConfig({
+        PORT: '80a',
+        HEADLESS: 'maybe',
+        MESSAGE_SOURCE: 'carrier-pigeon',
+        PUBLIC_URL: 'example.com',
+        TUNNEL_URL_REGEX: '(',
+        AUTO_REPLY_TIMEZONE: 'Mars/Olympus',
+        TELEGRAM_POLL_TIMEOUT_S: '90',
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    const problems = (error as ConfigValidationError).problems;
+    expect(problems.map((p) => p.split(':')[0])).toEqual([
+      'PORT',
+      'PUBLIC_URL',
+      'HEADLESS',
+      'MESSAGE_SOURCE',
+      'AUTO_REPLY_TIMEZONE',
+      'TELEGRAM_POLL_TIMEOUT_S',
+      'TUNNEL_URL_REGEX',
+    ]);
+    expect((error as Error).message).toContain('PORT: expected an integer');
+  });
+});
+
+describe('redactConfig', () => {
+  it('masks secrets and names the source variable', () => {
+    const view = redactConfig(
+      loadConfig({
+        AUTH_OPERATOR_TOKENS: 'op-secret',
+        AVITO_LOGIN: 'me@example.com',
+        TARGET_CHAT_URL: 'https://www.avito.ru/profile/messenger/channel/1',
+      }),
+    );
+
+    expect(view.auth.operatorTokens).toEqual({
+      env: 'AUTH_OPERATOR_TOKENS',
+      value: '***',
+    });
+    expect(view.auth.viewerTokens.value).toBeNull();
+    expect(view.avito.login.value).toBe('***');
+    expect(view.avito.password.value).toBeNull();
+    expect(view.watcher.targetChatUrl.value).toBe(
+      'https://www.avito.ru/profile/messenger/channel/1',
+    );
+    expect(JSON.stringify(view)).not.toContain('op-secret');
+  });
+});
@@ -0,0 +1,348 @@
+import { Injectable } from '@nestjs/common';
+import type { MessageSource } from './avito.watcher.service';
+
+type Env = Record<string, string | undefined>;
+
+/** One environment variable: how to parse it and whether to hide its value. */
+export type ConfigField<T> = {
+  env: string;
+  secret: boolean;
+  parse: (raw: string | undefined) => T;
+};
+
+function field<T>(
+  env: string,
+  parse: (raw: string | undefined) => T,
+  secret = false,
+): ConfigField<T> {
+  return { env, secret, parse };
+}
+
+// Empty values count as unset, so `FOO=` in .env falls back to the default
+function present(raw: string | undefined): string | undefined {
+  const value = raw?.trim();
+  return value ? value : undefined;
+}
+
+function str(env: string, fallback: string): ConfigField<string> {
+  return field(env, (raw) => present(raw) ?? fallback);
+}
+
+function optionalStr(env: string, secret = false): ConfigField<string | null> {
+  return field(env, (raw) => present(raw) ?? null, secret);
+}
+
+function int(
+  env: string,
+  fallback: number,
+  { min = 0, max = Number.MAX_SAFE_INTEGER } = {},
+): ConfigField<number> {
+  return field(env, (raw) => {
+    const value = present(raw);
+    if (value === undefined) return fallback;
+    if (!/^-?\d+$/.test(value)) {
+      throw new Error(`expected an integer, got "${value}"`);
+    }
+    const n = Number(value);
+    if (n < min || n > max) {
+      throw new Error(`expected ${min}..${max}, got ${n}`);
+    }
+    return n;
+  });
+}
+
+function bool(env: string, fallback: boolean): ConfigField<boolean> {
+  return field(env, (raw) => {
+    const value = present(raw)?.toLowerCase();
+    if (value === undefined) return fallback;
+    if (['true', '1', 'yes', 'on'].includes(value)) return true;
+    if (['false', '0', 'no', 'off'].includes(value)) return false;
+    throw new Error(`expected true or false, got "${value}"`);
+  });
+}
+
+function oneOf<T extends string>(
+  env: string,
+  values: readonly T[],
+  fallback: T,
+): ConfigField<T> {
+  return field(env, (raw) => {
+    const value = present(raw)?.toLowerCase();
+    if (value === undefined) return fallback;
+    const match = values.find((v) => v === value);
+    if (!match) {
+      throw new Error(`expected one of ${values.join(', ')}, got "${value}"`);
+    }
+    return match;
+  });
+}
+
+function url(env: string, fallback: string | null = null) {
+  return field<string | null>(env, (raw) => {
+    const value = present(raw);
+    if (value === undefined) return fallback;
+    if (!/^https?:\/\//i.test(value) || !URL.canParse(value)) {
+      throw new Error(`expected an http(s) URL, got "${value}"`);
+    }
+    return value;
+  });
+}
+
+function list(
+  env: string,
+  secret = false,
+  fallback: string[] = [],
+): ConfigField<string[]> {
+  return field(
+    env,
+    (raw) => {
+      const items = (raw ?? '')
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+      return items.length ? items : fallback;
+    },
+    secret,
+  );
+}
+
+function timeZone(env: string, fallback: string): ConfigField<string> {
+  return field(env, (raw) => {
+    const value = present(raw) ?? fallback;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+    } catch {
+      throw new Error(`expected an IANA time zone, got "${value}"`);
+    }
+    return value;
+  });
+}
+
+function regex(env: string): ConfigField<RegExp | null> {
+  return field(env, (raw) => {
+    const value = present(raw);
+    if (value === undefined) return null;
+    try {
+      return new RegExp(value);
+    } catch (e) {
+      throw new Error(e instanceof Error ? e.message : String(e));
+    }
+  });
+}
+
+const messageSources: readonly MessageSource[] = [
+  'network',
+  'observer',
+  'polling',
+];
+
+/**
+ * Every setting the service reads from the environment, grouped by the part
+ * of the app that uses it. `.env.example` documents the same variables.
+ */
+export const configSchema = {
+  app: {
+    nodeEnv: str('NODE_ENV', 'development'),
+    port: int('PORT', 3000, { min: 1, max: 65535 }),
+    publicUrl: url('PUBLIC_URL'),
+  },
+  auth: {
+    operatorTokens: list('AUTH_OPERATOR_TOKENS', true),
+    viewerTokens: list('AUTH_VIEWER_TOKENS', true),
+    sessionSecret: optionalStr('AUTH_SESSION_SECRET', true),
+    sessionTtlHours: int('AUTH_SESSION_TTL_HOURS', 12, { min: 1 }),
+  },
+  browser: {
+    headless: bool('HEADLESS', false),
+    executablePath: optionalStr('PUPPETEER_EXECUTABLE_PATH'),
+    navTimeoutMs: int('NAV_TIMEOUT_MS', 60000, { min: 1000 }),
+  },
+  avito: {
+    login: optionalStr('AVITO_LOGIN', true),
+    password: optionalStr('AVITO_PASSWORD', true),
+    twoFaTimeoutMs: int('AVITO_2FA_TIMEOUT_MS', 120000, { min: 1000 }),
+    loginTimeoutMs: int('AVITO_LOGIN_TIMEOUT_MS', 5 * 60_000, { min: 10000 }),
+    cookiesPath: optionalStr('AVITO_COOKIES_PATH'),
+    cookiesJson: optionalStr('AVITO_COOKIES_JSON', true),
+    cookiesB64: optionalStr('AVITO_COOKIES_B64', true),
+    selfName: str('AVITO_SELF_NAME', 'Я'),
+    cookiesFile: str('AVITO_COOKIES_FILE', '.avito-cookies.enc'),
+    cookiesSecret: optionalStr('AVITO_COOKIES_SECRET', true),
+    sessionCookies: list('AVITO_SESSION_COOKIES', false, ['sessid']),
+    cookieWarnHours: int('AVITO_COOKIE_WARN_HOURS', 72, { min: 1 }),
+  },
+  watcher: {
+    targetChatUrl: optionalStr('TARGET_CHAT_URL'),
+    autoBindOnOpen: bool('AUTO_BIND_ON_OPEN', false),
+    messageSource: oneOf('MESSAGE_SOURCE', messageSources, 'observer'),
+    pollIntervalMs: int('POLL_INTERVAL_MS', 1500, { min: 100 }),
+    networkCheckIntervalMs: int('NETWORK_CHECK_INTERVAL_MS', 3000, {
+      min: 100,
+    }),
+    networkFallbackAfterMs: int('NETWORK_FALLBACK_AFTER_MS', 10000, {
+      min: 0,
+    }),
+    sendConfirmTimeoutMs: int('SEND_CONFIRM_TIMEOUT_MS', 10000, { min: 100 }),
+  },
+  inbox: {
+    enabled: bool('INBOX_WATCH', false),
+    intervalMs: int('INBOX_POLL_INTERVAL_MS', 15000, { min: 1000 }),
+    autoBind: bool('INBOX_AUTO_BIND', false),
+    forward: bool('INBOX_FORWARD', false),
+  },
+  media: {
+    dir: str('MEDIA_DIR', 'media'),
+    maxBytes: int('MEDIA_MAX_BYTES', 25 * 1024 * 1024, { min: 1 }),
+  },
+  store: {
+    messagesPath: str('MESSAGE_STORE_PATH', '.avito-messages.jsonl'),
+  },
+  webhooks: {
+    maxAttempts: int('WEBHOOK_MAX_ATTEMPTS', 6, { min: 1 }),
+    retryBaseMs: int('WEBHOOK_RETRY_BASE_MS', 1000, { min: 0 }),
+    timeoutMs: int('WEBHOOK_TIMEOUT_MS', 10000, { min: 100 }),
+  },
+  autoReply: {
+    dryRun: bool('AUTO_REPLY_DRY_RUN', false),
+    timeZone: timeZone('AUTO_REPLY_TIMEZONE', 'Europe/Moscow'),
+  },
+  scheduler: {
+    retryBaseMs: int('SCHEDULED_RETRY_BASE_MS', 30000, { min: 1000 }),
+    maxAttempts: int('SCHEDULED_MAX_ATTEMPTS', 10, { min: 1 }),
+  },
+  telegram: {
+    botToken: optionalStr('TELEGRAM_BOT_TOKEN', true),
+    chatId: optionalStr('TELEGRAM_CHAT_ID'),
+    apiBaseUrl: url('TELEGRAM_API_BASE_URL', 'https://api.telegram.org'),
+    pollTimeoutS: int('TELEGRAM_POLL_TIMEOUT_S', 25, { min: 0, max: 50 }),
+    timeoutMs: int('TELEGRAM_TIMEOUT_MS', 10000, { min: 100 }),
+  },
+  tunnel: {
+    provider: oneOf(
+      'TUNNEL_PROVIDER',
+      ['auto', 'none', 'cloudpub', 'command', 'static'] as const,
+      'auto',
+    ),
+    enabled: bool('TUNNEL_ENABLED', false),
+    command: optionalStr('TUNNEL_COMMAND'),
+    urlRegex: regex('TUNNEL_URL_REGEX'),
+    urlFile: optionalStr('TUNNEL_URL_FILE'),
+    urlHosts: list('TUNNEL_URL_HOSTS'),
+    healthUrl: url('TUNNEL_HEALTH_URL'),
+    healthIntervalMs: int('TUNNEL_HEALTH_INTERVAL_MS', 30000, { min: 1000 }),
+    healthTimeoutMs: int('TUNNEL_HEALTH_TIMEOUT_MS', 5000, { min: 100 }),
+    healthFailures: int('TUNNEL_HEALTH_FAILURES', 3, { min: 1 }),
+    restartBaseMs: int('TUNNEL_RESTART_BASE_MS', 1000, { min: 100 }),
+    restartMaxMs: int('TUNNEL_RESTART_MAX_MS', 60000, { min: 1000 }),
+    restartLimit: int('TUNNEL_RESTART_LIMIT', 5, { min: 1 }),
+    restartWindowMs: int('TUNNEL_RESTART_WINDOW_MS', 600000, { min: 1000 }),
+  },
+  cloudpub: {
+    enabled: bool('CLOUDPUB_ENABLED', false),
+    bin: str('CLOUDPUB_BIN', 'cloudpub'),
+  },
+};
+
+type Schema = typeof configSchema;
+
+export type AppConfig = {
+  [G in keyof Schema]: {
+    [K in keyof Schema[G]]: Schema[G][K] extends ConfigField<infer T>
+      ? T
+      : never;
+  };
+};
+
+export type ConfigGroup = keyof AppConfig;
+
+/** Thrown with every invalid variable at once, one per line. */
+export class ConfigValidationError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems.map((p) => `  - ${p}`).join('\n')}`,
+    );
+  }
+}
+
+type AnyField = ConfigField<unknown>;
+
+function groups(): [string, Record<string, AnyField>][] {
+  return Object.entries(configSchema) as [string, Record<string, AnyField>][];
+}
+
+/** Parses and validates the environment; throws ConfigValidationError. */
+export function loadConfig(env: Env = process.env): AppConfig {
+  const problems: string[] = [];
+  const config: Record<string, Record<string, unknown>> = {};
+
+  for (const [group, fields] of groups()) {
+    config[group] = {};
+    for (const [key, spec] of Object.entries(fields)) {
+      try {
+        config[group][key] = spec.parse(env[spec.env]);
+      } catch (e) {
+        problems.push(
+          `${spec.env}: ${e instanceof Error ? e.message : String(e)}`,
+        );
+      }
+    }
+  }
+
+  if (problems.length) throw new ConfigValidationError(problems);
+  return config as AppConfig;
+}
+
+/**
+ * Effective settings with secrets replaced by `"***"` (or null when unset),
+ * keyed by group and also listing the variable each value came from.
+ */
+export function redactConfig(
+  config: AppConfig,
+): Record<string, Record<string, { env: string; value: unknown }>> {
+  const view: Record<
+    string,
+    Record<string, { env: string; value: unknown }>
+  > = {};
+  const values = config as Record<string, Record<string, unknown>>;
+
+  for (const [group, fields] of groups()) {
+    view[group] = {};
+    for (const [key, spec] of Object.entries(fields)) {
+      let value = values[group][key];
+      if (spec.secret) {
+        const set = Array.isArray(value) ? value.length > 0 : value !== null;
+        value = set ? '***' : null;
+      } else if (value instanceof RegExp) {
+        value = value.source;
+      }
+      view[group][key] = { env: spec.env, value };
+    }
+  }
+  return view;
+}
+
+/**
+ * Typed settings, parsed from the environment once at startup. Invalid values
+ * fail the start with a list of every problem instead of silently turning
+ * into NaN or false.
+ */
+@Injectable()
+export class ConfigService {
+  private readonly values: AppConfig;
+
+  constructor() {
+    this.values = loadConfig(process.env);
+  }
+
+  get<G extends ConfigGroup>(group: G): AppConfig[G] {
+    return this.values[group];
+  }
+
+  get isTest(): boolean {
+    return this.values.app.nodeEnv === 'test';
+  }
+
+  redacted() {
+    return redactConfig(this.values);
+  }
+}
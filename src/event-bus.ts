@@ -1,9 +1,113 @@
 import { Injectable } from '@nestjs/common';
 import { Subject } from 'rxjs';
+import {
+  AttachmentKind,
+  MessageDirection,
+  ParsedListing,
+} from './avito.parser';
+import { WatcherPhase } from './watcher-state';
+import type { TunnelProviderName } from './tunnel-providers';
+
+export type DeliveryStatus = 'queued' | 'sent' | 'failed';
+
+/**
+ * pending: Avito shows a code form and waits for `POST /auth/2fa`;
+ * submitted: the code was typed in; rejected: Avito did not accept it (a new
+ * one can be sent); passed / expired: the challenge is over.
+ */
+export type AuthChallengeStatus =
+  | 'pending'
+  | 'submitted'
+  | 'rejected'
+  | 'passed'
+  | 'expired';
+
+export type MessageAttachment = {
+  type: AttachmentKind;
+  mime: string | null;
+  size: number | null;
+  /** Local copy served under `/media`; null for cards and failed downloads. */
+  url: string | null;
+  name: string | null;
+  /** Original Avito URL (blob: for voice notes read from the page). */
+  sourceUrl: string | null;
+};
+
+/** Listing a chat is about, from the chat header; URLs are absolute. */
+export type ChatListing = ParsedListing;
 
 export type StreamEvent =
-  | { type: 'status'; level: 'info' | 'warn' | 'error'; message: string; at: string }
-  | { type: 'message'; from: string; text: string; at: string };
+  | {
+      type: 'status';
+      level: 'info' | 'warn' | 'error';
+      message: string;
+      at: string;
+    }
+  | {
+      type: 'message';
+      channelId: string;
+      /** Avito's own message ID; null when neither the page nor the traffic exposed it. */
+      messageId: string | null;
+      direction: MessageDirection;
+      from: string;
+      text: string;
+      attachments: MessageAttachment[];
+      /** Listing of the chat; absent in history recorded before listings were read. */
+      listing?: ChatListing | null;
+      at: string;
+    }
+  | {
+      type: 'delivery';
+      requestId: string;
+      channelId: string;
+      text: string;
+      status: DeliveryStatus;
+      error?: string;
+      at: string;
+    }
+  | {
+      /** The watcher run loop moved to another phase (see GET /watcher/state). */
+      type: 'watcher';
+      phase: WatcherPhase;
+      previous: WatcherPhase;
+      reason: string | null;
+      at: string;
+    }
+  | {
+      /** The public URL appeared, changed or went away with its tunnel (see GET /tunnel). */
+      type: 'tunnel_url';
+      provider: TunnelProviderName;
+      url: string | null;
+      previousUrl: string | null;
+      at: string;
+    }
+  | {
+      /** A dialog outside the bound chats got a new or unread message (INBOX_WATCH). */
+      type: 'dialog_updated';
+      channelId: string;
+      url: string;
+      /** Counterpart name. */
+      name: string;
+      itemTitle: string;
+      /** Preview of the last message from the dialog list. */
+      snippet: string;
+      unread: number;
+      /** First time the dialog shows up in the list. */
+      isNew: boolean;
+      /** Bound just now because of INBOX_AUTO_BIND. */
+      autoBound: boolean;
+      at: string;
+    }
+  | {
+      /** Login needs a confirmation code (SMS); answer with POST /auth/2fa. */
+      type: 'auth_challenge';
+      challengeId: string;
+      status: AuthChallengeStatus;
+      /** Text of the code form, e.g. where the code was sent. */
+      hint: string | null;
+      expiresAt: string;
+      at: string;
+    };
 
 @Injectable()
 export class EventBus {
@@ -1,9 +1,59 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, Header, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { Public } from './auth.guard';
+import { AvitoWatcherService } from './avito.watcher.service';
+import { MetricsService } from './metrics.service';
 
-@Controller('health')
+// The supervisor ticks every second; this long without a tick means it hangs
+const HEARTBEAT_STALE_MS = 60_000;
+
+@Controller()
 export class HealthController {
-  @Get()
-  health() {
-    return { ok: true, at: new Date().toISOString() };
+  constructor(
+    private readonly watcher: AvitoWatcherService,
+    private readonly metrics: MetricsService,
+  ) {}
+
+  /**
+   * Watcher liveness. Answers 503 when the browser is down, the session is
+   * back on the login page, the loop is in error backoff or stopped ticking.
+   */
+  @Public()
+  @Get('health')
+  health(@Res({ passthrough: true }) res: Response) {
+    const watcher = this.watcher.getHealth();
+    const now = Date.now();
+    const since = (iso: string | null) =>
+      iso ? Math.round((now - Date.parse(iso)) / 1000) : null;
+
+    const heartbeatAge = since(watcher.lastHeartbeatAt);
+    const ok =
+      !watcher.enabled ||
+      (watcher.browserAlive &&
+        watcher.loggedIn &&
+        watcher.phase !== 'error_backoff' &&
+        heartbeatAge !== null &&
+        heartbeatAge * 1000 < HEARTBEAT_STALE_MS);
+
+    if (!ok) res.status(503);
+    return {
+      ok,
+      at: new Date(now).toISOString(),
+      watcher: {
+        ...watcher,
+        secondsSinceLastMessage: since(watcher.lastMessageAt),
+        secondsSinceHeartbeat: heartbeatAge,
+      },
+    };
+  }
+
+  /**
+   * Prometheus text exposition of the counters in MetricsService. Needs a
+   * viewer token like the rest of the API (`authorization` in the scrape config).
+   */
+  @Get('metrics')
+  @Header('content-type', 'text/plain; version=0.0.4; charset=utf-8')
+  metricsText() {
+    return this.metrics.render();
   }
 }
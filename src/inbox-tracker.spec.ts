@@ -0,0 +1,55 @@
+import type { ParsedDialog } from './avito.parser';
+import { InboxTracker } from './inbox-tracker';
+
+const dialog = (id: string, patch: Partial<ParsedDialog> = {}) => ({
+  href: `/profile/messenger/channel/${id}`,
+  name: 'Ольга',
+  itemTitle: 'Детская коляска',
+  snippet: 'Здравствуйте',
+  unread: 0,
+  ...patch,
+});
+
+describe('InboxTracker', () => {
+  it('takes the first snapshot as the baseline, reporting only unread dialogs', () => {
+    const inbox = new InboxTracker();
+    const updates = inbox.update([
+      dialog('u2i-a'),
+      dialog('u2i-b', { unread: 1 }),
+    ]);
+
+    expect(updates).toEqual([
+      {
+        dialog: expect.objectContaining({
+          channelId: 'u2i-b',
+          url: 'https://www.avito.ru/profile/messenger/channel/u2i-b',
+          unread: 1,
+        }) as unknown,
+        isNew: false,
+      },
+    ]);
+    expect(inbox.list()).toHaveLength(2);
+  });
+
+  it('reports new dialogs and new unread messages', () => {
+    const inbox = new InboxTracker();
+    inbox.update([dialog('u2i-a'), dialog('u2i-b', { unread: 1 })]);
+
+    const updates = inbox.update([
+      dialog('u2i-c', { snippet: 'Ещё продаёте?', unread: 1 }),
+      dialog('u2i-b', { unread: 1, snippet: 'Можно сегодня?' }),
+      // Read elsewhere: no longer unread, nothing to report
+      dialog('u2i-a', { snippet: 'Спасибо' }),
+    ]);
+
+    expect(
+      updates.map((u) => [u.dialog.channelId, u.isNew, u.dialog.snippet]),
+    ).toEqual([
+      ['u2i-c', true, 'Ещё продаёте?'],
+      ['u2i-b', false, 'Можно сегодня?'],
+    ]);
+    expect(
+      inbox.update([dialog('u2i-b', { unread: 1, snippet: 'Можно сегодня?' })]),
+    ).toEqual([]);
+  });
+});
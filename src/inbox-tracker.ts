@@ -0,0 +1,87 @@
+import type { ParsedDialog } from './avito.parser';
+import { channelIdFromUrl, normalizeChatUrl } from './chat-bindings.service';
+
+/** A conversation of the messenger dialog list, as last seen. */
+export type InboxDialog = {
+  channelId: string;
+  url: string;
+  name: string;
+  itemTitle: string;
+  snippet: string;
+  unread: number;
+  firstSeenAt: string;
+  updatedAt: string;
+};
+
+export type DialogUpdate = {
+  dialog: InboxDialog;
+  /** The dialog was not in any earlier snapshot. */
+  isNew: boolean;
+};
+
+// Dialogs scrolled out of the list are remembered, up to this many
+const DIALOGS_LIMIT = 500;
+
+/**
+ * Turns dialog list snapshots into updates: a dialog that was not listed
+ * before, one whose unread count went up, or an unread one with a new
+ * preview. The first snapshot is the baseline and only reports dialogs that
+ * are already unread.
+ */
+export class InboxTracker {
+  private readonly dialogs = new Map<string, InboxDialog>();
+  private baseline = false;
+
+  /** Most recently updated first. */
+  list(): InboxDialog[] {
+    return Array.from(this.dialogs.values()).sort((a, b) =>
+      b.updatedAt.localeCompare(a.updatedAt),
+    );
+  }
+
+  update(parsed: ParsedDialog[], now = new Date()): DialogUpdate[] {
+    const at = now.toISOString();
+    const updates: DialogUpdate[] = [];
+
+    for (const item of parsed) {
+      const url = normalizeChatUrl(item.href);
+      const channelId = channelIdFromUrl(url);
+      if (!channelId) continue;
+
+      const previous = this.dialogs.get(channelId);
+      const dialog: InboxDialog = {
+        channelId,
+        url,
+        name: item.name,
+        itemTitle: item.itemTitle,
+        snippet: item.snippet,
+        unread: item.unread,
+        firstSeenAt: previous?.firstSeenAt ?? at,
+        updatedAt: previous?.updatedAt ?? at,
+      };
+
+      let changed: boolean;
+      if (!previous) {
+        changed = this.baseline || dialog.unread > 0;
+      } else {
+        changed =
+          dialog.unread > previous.unread ||
+          (dialog.unread > 0 && dialog.snippet !== previous.snippet);
+      }
+      if (changed) dialog.updatedAt = at;
+
+      this.dialogs.delete(channelId);
+      this.dialogs.set(channelId, dialog);
+      if (changed) {
+        updates.push({ dialog, isNew: !previous && this.baseline });
+      }
+    }
+
+    while (this.dialogs.size > DIALOGS_LIMIT) {
+      const [oldest] = this.dialogs.keys();
+      this.dialogs.delete(oldest);
+    }
+    this.baseline = true;
+    return updates;
+  }
+}
@@ -0,0 +1,13 @@
+import { Controller, Get } from '@nestjs/common';
+import { AvitoWatcherService } from './avito.watcher.service';
+
+@Controller('inbox')
+export class InboxController {
+  constructor(private readonly watcher: AvitoWatcherService) {}
+
+  /** Dialogs of the messenger list seen by the inbox scan (INBOX_WATCH). */
+  @Get()
+  getInbox() {
+    return { ok: true, ...this.watcher.getInbox() };
+  }
+}
@@ -1,21 +1,43 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { WsAdapter } from '@nestjs/platform-ws';
+import { AuthService, assertAuthForPublicAccess } from './auth.service';
+import {
+  ConfigService,
+  ConfigValidationError,
+  loadConfig,
+} from './config.service';
 import * as dotenv from 'dotenv';
 
 async function bootstrap() {
   dotenv.config();
 
+  // Fail fast with every bad variable listed, before Nest starts wiring things
+  try {
+    assertAuthForPublicAccess(loadConfig());
+  } catch (e) {
+    if (!(e instanceof ConfigValidationError)) throw e;
+    console.error(e.message);
+    process.exit(1);
+  }
+
   const app = await NestFactory.create(AppModule);
   app.useWebSocketAdapter(new WsAdapter(app));
+  // Stop the browser and the tunnel client on Ctrl+C / SIGTERM
+  app.enableShutdownHooks();
 
-  const port = Number(process.env.PORT ?? 3000);
+  const { port } = app.get(ConfigService).get('app');
   await app.listen(port, '0.0.0.0');
 
   // eslint-disable-next-line no-console
   console.log(`HTTP: http://localhost:${port}/`);
   // eslint-disable-next-line no-console
   console.log(`WS:   ws://localhost:${port}/ws`);
+  if (!app.get(AuthService).enabled) {
+    console.warn(
+      'Auth is off: set AUTH_OPERATOR_TOKENS before exposing the service',
+    );
+  }
 }
 
 bootstrap();
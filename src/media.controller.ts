@@ -0,0 +1,19 @@
+import { Controller, Get, Param, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { MediaService } from './media.service';
+
+@Controller('media')
+export class MediaController {
+  constructor(private readonly media: MediaService) {}
+
+  /** Serves a downloaded attachment by the file name from its `url`. */
+  @Get(':file')
+  serve(@Param('file') file: string, @Res() res: Response) {
+    const full = this.media.resolve(file);
+    if (!full) {
+      res.status(404).json({ ok: false, message: 'Media not found' });
+      return;
+    }
+    res.sendFile(full);
+  }
+}
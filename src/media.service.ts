@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigService } from './config.service';
+
+const extensions: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'audio/webm': '.weba',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'application/pdf': '.pdf',
+};
+
+const fileNameRe = /^[a-f0-9]{40}(\.[a-z0-9]+)?$/;
+
+/**
+ * Local folder for downloaded message media (MEDIA_DIR, `media/` by default).
+ *
+ * Files are named by the SHA-1 of their content, so the same photo seen twice
+ * is stored once, and names are safe to serve as-is under `/media`.
+ */
+@Injectable()
+export class MediaService {
+  private readonly dir: string;
+
+  readonly maxBytes: number;
+
+  constructor(config: ConfigService) {
+    const media = config.get('media');
+    this.dir = path.resolve(media.dir);
+    this.maxBytes = media.maxBytes;
+  }
+
+  save(data: Buffer, mime: string | null): { file: string; url: string } {
+    const hash = createHash('sha1').update(data).digest('hex');
+    const file = `${hash}${extensions[mime ?? ''] ?? ''}`;
+    const full = path.join(this.dir, file);
+
+    if (!fs.existsSync(full)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.writeFileSync(full, data);
+    }
+    return { file, url: `/media/${file}` };
+  }
+
+  /** Absolute path of a stored file; null for unknown or malformed names. */
+  resolve(file: string): string | null {
+    if (!fileNameRe.test(file)) return null;
+    const full = path.join(this.dir, file);
+    return fs.existsSync(full) ? full : null;
+  }
+}
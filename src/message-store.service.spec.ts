@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from './config.service';
+import { EventBus, StreamEvent } from './event-bus';
+import { MessageStoreService } from './message-store.service';
+
+function message(
+  text: string,
+  at: string,
+  extra: Partial<Extract<StreamEvent, { type: 'message' }>> = {},
+): StreamEvent {
+  return {
+    type: 'message',
+    channelId: 'u2i-aBc123',
+    messageId: null,
+    direction: 'incoming',
+    from: 'Рушан',
+    text,
+    attachments: [],
+    listing: null,
+    at,
+    ...extra,
+  };
+}
+
+function status(text: string, at: string): StreamEvent {
+  return { type: 'status', level: 'info', message: text, at };
+}
+
+describe('MessageStoreService', () => {
+  let bus: EventBus;
+  let store: MessageStoreService;
+
+  beforeEach(() => {
+    bus = new EventBus();
+    store = new MessageStoreService(bus, new ConfigService());
+  });
+
+  afterEach(() => store.onModuleDestroy());
+
+  const texts = (items: StreamEvent[]) =>
+    items.map((e) => (e.type === 'status' ? e.message : 'text' in e && e.text));
+
+  it('stores messages and statuses with increasing cursors', () => {
+    const first = message('Здравствуйте', '2025-10-14T09:00:00.000Z');
+    bus.emit(first);
+    bus.emit(status('Chat opened', '2025-10-14T09:00:01.000Z'));
+    bus.emit({
+      type: 'delivery',
+      requestId: 'r-1',
+      channelId: 'u2i-aBc123',
+      text: 'Да',
+      status: 'sent',
+      at: '2025-10-14T09:00:02.000Z',
+    });
+
+    const page = store.query();
+    expect(page.items.map((e) => [e.type, e.cursor])).toEqual([
+      ['message', 1],
+      ['status', 2],
+    ]);
+    expect(page).toMatchObject({ cursor: 2, hasMore: false });
+    expect(store.cursorOf(first)).toBe(1);
+  });
+
+  it('pages back from the newest record and forward after a cursor', () => {
+    for (let i = 1; i <= 5; i += 1) {
+      bus.emit(message(`m${i}`, `2025-10-14T09:00:0${i}.000Z`));
+    }
+
+    const newest = store.query({ limit: 2 });
+    expect(texts(newest.items)).toEqual(['m4', 'm5']);
+    expect(newest).toMatchObject({ cursor: 5, hasMore: true });
+
+    const older = store.query({ before: newest.items[0].cursor, limit: 2 });
+    expect(texts(older.items)).toEqual(['m2', 'm3']);
+    expect(older.hasMore).toBe(true);
+    expect(texts(store.query({ before: 2, limit: 2 }).items)).toEqual(['m1']);
+
+    const next = store.query({ after: 1, limit: 3 });
+    expect(texts(next.items)).toEqual(['m2', 'm3', 'm4']);
+    expect(next).toMatchObject({ cursor: 4, hasMore: true });
+    expect(store.query({ after: 5 })).toEqual({
+      items: [],
+      cursor: 5,
+      hasMore: false,
+    });
+  });
+
+  it('clamps the limit', () => {
+    for (let i = 0; i < 501; i += 1) {
+      bus.emit(status(`s${i}`, '2025-10-14T09:00:00.000Z'));
+    }
+    expect(store.query({ limit: 0 }).items).toHaveLength(1);
+    expect(store.query({ limit: 2.7 }).items).toHaveLength(2);
+    expect(store.query({ limit: 10_000 }).items).toHaveLength(500);
+    expect(store.query().items).toHaveLength(50);
+  });
+
+  it('filters by time, type, chat, direction, sender and text', () => {
+    bus.emit(message('Ещё продаёте?', '2025-10-14T08:00:00.000Z'));
+    bus.emit(status('Chat opened', '2025-10-14T09:00:00.000Z'));
+    bus.emit(
+      message('Да, продаю', '2025-10-14T09:30:00.000Z', {
+        direction: 'outgoing',
+        from: 'Я',
+      }),
+    );
+    bus.emit(
+      message('А торг возможен?', '2025-10-14T10:00:00.000Z', {
+        channelId: 'u2i-nEw456',
+        from: 'Ольга',
+      }),
+    );
+    // Written before message directions existed
+    bus.emit(
+      message('Где забрать?', '2025-10-14T11:00:00.000Z', {
+        direction: undefined,
+      }),
+    );
+
+    expect(
+      texts(
+        store.query({
+          since: '2025-10-14T09:00:00.000Z',
+          until: '2025-10-14T10:00:00.000Z',
+        }).items,
+      ),
+    ).toEqual(['Chat opened', 'Да, продаю', 'А торг возможен?']);
+    expect(texts(store.query({ type: 'status' }).items)).toEqual([
+      'Chat opened',
+    ]);
+    expect(texts(store.query({ channelId: 'u2i-nEw456' }).items)).toEqual([
+      'А торг возможен?',
+    ]);
+    expect(
+      texts(
+        store.query({ channelId: 'u2i-aBc123', direction: 'incoming' }).items,
+      ),
+    ).toEqual(['Ещё продаёте?', 'Где забрать?']);
+    expect(texts(store.query({ sender: ' ольга ' }).items)).toEqual([
+      'А торг возможен?',
+    ]);
+    expect(texts(store.query({ q: 'ПРОДА' }).items)).toEqual([
+      'Ещё продаёте?',
+      'Да, продаю',
+    ]);
+    expect(texts(store.query({ q: 'opened' }).items)).toEqual(['Chat opened']);
+  });
+
+  describe('on disk', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+      store.onModuleDestroy();
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'message-store-'));
+      file = path.join(dir, 'messages.jsonl');
+      process.env.MESSAGE_STORE_PATH = file;
+      jest
+        .spyOn(ConfigService.prototype, 'isTest', 'get')
+        .mockReturnValue(false);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      delete process.env.MESSAGE_STORE_PATH;
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reloads the records and continues the cursors after a restart', () => {
+      store = new MessageStoreService(bus, new ConfigService());
+      bus.emit(message('Здравствуйте', '2025-10-14T09:00:00.000Z'));
+      bus.emit(status('Chat opened', '2025-10-14T09:00:01.000Z'));
+      store.onModuleDestroy();
+
+      bus = new EventBus();
+      store = new MessageStoreService(bus, new ConfigService());
+      expect(texts(store.query().items)).toEqual([
+        'Здравствуйте',
+        'Chat opened',
+      ]);
+
+      bus.emit(status('Watcher started', '2025-10-14T09:05:00.000Z'));
+      expect(store.query({ after: 2 }).items).toEqual([
+        expect.objectContaining({ message: 'Watcher started', cursor: 3 }),
+      ]);
+      expect(fs.readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(3);
+    });
+
+    it('skips unreadable lines and reports them', () => {
+      const good = {
+        ...status('Chat opened', '2025-10-14T09:00:00.000Z'),
+        cursor: 7,
+      };
+      fs.writeFileSync(
+        file,
+        [
+          JSON.stringify(good),
+          '{"type":"status","message":"cut',
+          JSON.stringify({ type: 'status', message: 'no cursor' }),
+          '',
+        ].join('\n'),
+      );
+
+      const statuses: string[] = [];
+      bus = new EventBus();
+      bus.events$.subscribe((e) => {
+        if (e.type === 'status') statuses.push(e.message);
+      });
+      store = new MessageStoreService(bus, new ConfigService());
+
+      expect(statuses).toEqual([
+        `Message store: skipped 2 unreadable lines in ${file}`,
+      ]);
+      // The warning itself is stored after the record that loaded
+      expect(store.query().items.map((e) => e.cursor)).toEqual([7, 8]);
+    });
+  });
+});
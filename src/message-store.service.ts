@@ -0,0 +1,199 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventBus, StreamEvent } from './event-bus';
+import { MessageDirection } from './avito.parser';
+import { ConfigService } from './config.service';
+
+export type StoredEvent = StreamEvent & { cursor: number };
+
+export type MessageQuery = {
+  /** Return records with cursor greater than this (paging forward). */
+  after?: number;
+  /** Return records with cursor less than this (paging back). */
+  before?: number;
+  since?: string;
+  until?: string;
+  type?: StreamEvent['type'];
+  channelId?: string;
+  direction?: MessageDirection;
+  sender?: string;
+  q?: string;
+  limit?: number;
+};
+
+export type MessagePage = {
+  items: StoredEvent[];
+  /** Highest cursor in `items`, or the `after` cursor when nothing matched. */
+  cursor: number | null;
+  hasMore: boolean;
+};
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * Append-only JSONL store for `message` and `status` events.
+ *
+ * Every record gets a monotonically increasing `cursor`. The whole file is
+ * loaded on startup and kept in memory for queries.
+ */
+@Injectable()
+export class MessageStoreService implements OnModuleDestroy {
+  private readonly filePath: string | null;
+  private readonly records: StoredEvent[] = [];
+  private readonly cursors = new WeakMap<StreamEvent, number>();
+  private readonly subscription: Subscription;
+  private lastCursor = 0;
+
+  constructor(
+    private readonly bus: EventBus,
+    config: ConfigService,
+  ) {
+    // In tests keep the store in memory only
+    this.filePath = config.isTest
+      ? null
+      : path.resolve(config.get('store').messagesPath);
+
+    const skipped = this.load();
+    this.subscription = this.bus.events$.subscribe((evt) => this.append(evt));
+
+    if (skipped > 0) {
+      this.bus.emit({
+        type: 'status',
+        level: 'warn',
+        message: `Message store: skipped ${skipped} unreadable lines in ${this.filePath}`,
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  onModuleDestroy() {
+    this.subscription.unsubscribe();
+  }
+
+  /** Cursor assigned to a live event, if it was persisted. */
+  cursorOf(evt: StreamEvent): number | null {
+    return this.cursors.get(evt) ?? null;
+  }
+
+  query(query: MessageQuery = {}): MessagePage {
+    const limit = Math.min(
+      Math.max(1, Math.floor(query.limit ?? DEFAULT_LIMIT)),
+      MAX_LIMIT,
+    );
+    const since = query.since ? Date.parse(query.since) : NaN;
+    const until = query.until ? Date.parse(query.until) : NaN;
+    const sender = query.sender?.trim().toLowerCase() ?? '';
+    const q = query.q?.trim().toLowerCase() ?? '';
+
+    const matches = (record: StoredEvent) => {
+      if (query.after !== undefined && record.cursor <= query.after) {
+        return false;
+      }
+      if (query.before !== undefined && record.cursor >= query.before) {
+        return false;
+      }
+      if (query.type && record.type !== query.type) return false;
+
+      const at = Date.parse(record.at);
+      if (!Number.isNaN(since) && at < since) return false;
+      if (!Number.isNaN(until) && at > until) return false;
+
+      if (query.channelId || query.direction || sender) {
+        if (record.type !== 'message') return false;
+        if (query.channelId && record.channelId !== query.channelId) {
+          return false;
+        }
+        // Records written before directions existed count as incoming
+        const direction = record.direction ?? 'incoming';
+        if (query.direction && direction !== query.direction) return false;
+        if (sender && !record.from.toLowerCase().includes(sender)) {
+          return false;
+        }
+      }
+
+      if (q) {
+        const text =
+          record.type === 'status'
+            ? record.message
+            : 'text' in record
+              ? record.text
+              : '';
+        if (!text.toLowerCase().includes(q)) return false;
+      }
+      return true;
+    };
+
+    // Paging forward reads from the oldest record, otherwise from the newest
+    const forward = query.after !== undefined;
+    const items: StoredEvent[] = [];
+    let hasMore = false;
+
+    if (forward) {
+      for (const record of this.records) {
+        if (!matches(record)) continue;
+        if (items.length === limit) {
+          hasMore = true;
+          break;
+        }
+        items.push(record);
+      }
+    } else {
+      for (let i = this.records.length - 1; i >= 0; i -= 1) {
+        if (!matches(this.records[i])) continue;
+        if (items.length === limit) {
+          hasMore = true;
+          break;
+        }
+        items.push(this.records[i]);
+      }
+      items.reverse();
+    }
+
+    const cursor = items.length
+      ? items[items.length - 1].cursor
+      : (query.after ?? null);
+    return { items, cursor, hasMore };
+  }
+
+  private append(evt: StreamEvent) {
+    if (evt.type !== 'message' && evt.type !== 'status') return;
+
+    const record: StoredEvent = { ...evt, cursor: this.lastCursor + 1 };
+    this.lastCursor = record.cursor;
+    this.records.push(record);
+    this.cursors.set(evt, record.cursor);
+
+    if (!this.filePath) return;
+    try {
+      fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`, 'utf-8');
+    } catch {
+      // The store must never break the event stream; the record stays in memory
+    }
+  }
+
+  /** Loads persisted records; returns the number of unreadable lines. */
+  private load(): number {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return 0;
+
+    let skipped = 0;
+    const raw = fs.readFileSync(this.filePath, 'utf-8');
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as StoredEvent;
+        if (typeof record?.cursor !== 'number' || !record.type) {
+          skipped += 1;
+          continue;
+        }
+        this.records.push(record);
+        this.lastCursor = Math.max(this.lastCursor, record.cursor);
+      } catch {
+        skipped += 1;
+      }
+    }
+    return skipped;
+  }
+}
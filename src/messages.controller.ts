@@ -0,0 +1,64 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { StreamEvent } from './event-bus';
+import { MessageDirection } from './avito.parser';
+import { MessageQuery, MessageStoreService } from './message-store.service';
+
+type MessagesQueryParams = {
+  after?: string;
+  before?: string;
+  since?: string;
+  until?: string;
+  type?: string;
+  channelId?: string;
+  direction?: string;
+  sender?: string;
+  q?: string;
+  limit?: string;
+};
+
+const eventTypes: StreamEvent['type'][] = ['message', 'status'];
+const directions: MessageDirection[] = ['incoming', 'outgoing'];
+
+@Controller('messages')
+export class MessagesController {
+  constructor(private readonly store: MessageStoreService) {}
+
+  /**
+   * Stored history, oldest first.
+   * Without `after` returns the newest page; page back with `before=<first cursor>`,
+   * forward with `after=<cursor>`.
+   */
+  @Get()
+  list(@Query() params: MessagesQueryParams) {
+    const query: MessageQuery = {
+      after: this.toNumber(params.after),
+      before: this.toNumber(params.before),
+      since: params.since,
+      until: params.until,
+      channelId: params.channelId,
+      sender: params.sender,
+      q: params.q,
+      limit: this.toNumber(params.limit),
+    };
+
+    const type = eventTypes.find((t) => t === params.type);
+    if (params.type && !type) {
+      return { ok: false, message: `Unknown type: ${params.type}` };
+    }
+    query.type = type;
+
+    const direction = directions.find((d) => d === params.direction);
+    if (params.direction && !direction) {
+      return { ok: false, message: `Unknown direction: ${params.direction}` };
+    }
+    query.direction = direction;
+
+    return { ok: true, ...this.store.query(query) };
+  }
+
+  private toNumber(raw: string | undefined): number | undefined {
+    if (raw === undefined || raw.trim() === '') return undefined;
+    const value = Number(raw);
+    return Number.isFinite(value) ? value : undefined;
+  }
+}
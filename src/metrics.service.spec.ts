@@ -0,0 +1,58 @@
+import { MetricsService, metricNames } from './metrics.service';
+
+describe('MetricsService', () => {
+  let metrics: MetricsService;
+
+  beforeEach(() => {
+    metrics = new MetricsService();
+  });
+
+  it('renders counters with HELP/TYPE lines, zero before the first increment', () => {
+    const text = metrics.render();
+
+    expect(text).toContain(
+      '# TYPE avito_auth_failures_total counter\navito_auth_failures_total 0\n',
+    );
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('keeps one series per label set', () => {
+    metrics.inc(metricNames.messages, { direction: 'incoming' });
+    metrics.inc(metricNames.messages, { direction: 'incoming' });
+    metrics.inc(metricNames.messages, { direction: 'outgoing' });
+
+    const text = metrics.render();
+    expect(text).toContain(
+      'avito_messages_emitted_total{direction="incoming"} 2',
+    );
+    expect(text).toContain(
+      'avito_messages_emitted_total{direction="outgoing"} 1',
+    );
+    expect(text).not.toContain('avito_messages_emitted_total 0');
+    expect(metrics.value(metricNames.messages)).toBe(3);
+  });
+
+  it('escapes label values', () => {
+    metrics.inc(metricNames.restarts, { reason: 'say "hi"\n' });
+
+    expect(metrics.render()).toContain(
+      'avito_watcher_restarts_total{reason="say \\"hi\\"\\n"} 1',
+    );
+  });
+
+  it('reads gauges at render time', () => {
+    let clients = 1;
+    metrics.gauge(metricNames.wsClients, 'WS clients', () => clients);
+    clients = 3;
+
+    expect(metrics.render()).toContain(
+      '# TYPE avito_ws_clients gauge\navito_ws_clients 3\n',
+    );
+  });
+
+  it('rejects unknown counters', () => {
+    expect(() => metrics.inc('nope_total')).toThrow(
+      'Unknown counter: nope_total',
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+
+export type MetricLabels = Record<string, string>;
+
+type Counter = {
+  help: string;
+  // Serialized label set → value
+  values: Map<string, number>;
+};
+
+type Gauge = {
+  help: string;
+  collect: () => number;
+};
+
+export const metricNames = {
+  messages: 'avito_messages_emitted_total',
+  restarts: 'avito_watcher_restarts_total',
+  authFailures: 'avito_auth_failures_total',
+  tunnelFlips: 'avito_tunnel_health_flips_total',
+  tunnelRestarts: 'avito_tunnel_restarts_total',
+  wsClients: 'avito_ws_clients',
+} as const;
+
+function formatLabels(labels: MetricLabels | undefined): string {
+  const entries = Object.entries(labels ?? {});
+  if (!entries.length) return '';
+  const body = entries
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([k, v]) =>
+        `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+    )
+    .join(',');
+  return `{${body}}`;
+}
+
+/**
+ * In-process counters and gauges, rendered in the Prometheus text format
+ * at `GET /metrics`. Services bump counters directly; gauges are read from
+ * their owners at scrape time.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly counters = new Map<string, Counter>();
+  private readonly gauges = new Map<string, Gauge>();
+
+  constructor() {
+    this.defineCounter(
+      metricNames.messages,
+      'Chat messages published on the event bus',
+    );
+    this.defineCounter(
+      metricNames.restarts,
+      'Browser restarts of the watcher run loop',
+    );
+    this.defineCounter(
+      metricNames.authFailures,
+      'Avito logins that failed or sessions that fell back to the login page',
+    );
+    this.defineCounter(
+      metricNames.tunnelFlips,
+      'Tunnel health check changes between up and down',
+    );
+    this.defineCounter(
+      metricNames.tunnelRestarts,
+      'Tunnel client restarts by reason',
+    );
+  }
+
+  inc(name: string, labels?: MetricLabels, by = 1) {
+    const counter = this.counters.get(name);
+    if (!counter) throw new Error(`Unknown counter: ${name}`);
+    const key = formatLabels(labels);
+    counter.values.set(key, (counter.values.get(key) ?? 0) + by);
+  }
+
+  /** Current value of a counter (summed over label sets when `labels` is omitted). */
+  value(name: string, labels?: MetricLabels): number {
+    const counter = this.counters.get(name);
+    if (!counter) return 0;
+    if (labels) return counter.values.get(formatLabels(labels)) ?? 0;
+    let total = 0;
+    for (const v of counter.values.values()) total += v;
+    return total;
+  }
+
+  gauge(name: string, help: string, collect: () => number) {
+    this.gauges.set(name, { help, collect });
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const [name, counter] of this.counters) {
+      lines.push(`# HELP ${name} ${counter.help}`, `# TYPE ${name} counter`);
+      // Unlabelled counters are exported as 0 before their first increment
+      if (!counter.values.size) lines.push(`${name} 0`);
+      for (const [labels, value] of counter.values) {
+        lines.push(`${name}${labels} ${value}`);
+      }
+    }
+    for (const [name, gauge] of this.gauges) {
+      let value: number;
+      try {
+        value = gauge.collect();
+      } catch {
+        continue;
+      }
+      lines.push(
+        `# HELP ${name} ${gauge.help}`,
+        `# TYPE ${name} gauge`,
+        `${name} ${value}`,
+      );
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private defineCounter(name: string, help: string) {
+    this.counters.set(name, { help, values: new Map() });
+  }
+}
@@ -0,0 +1,38 @@
+import type { ChatListing } from './event-bus';
+
+/** Values for the `{placeholders}` of canned replies. */
+export type ReplyVariables = {
+  /** Name of the other side of the chat. */
+  name: string;
+  /** Title of the chat listing. */
+  item: string;
+  /** Price of the listing as shown on Avito, e.g. "12 000 ₽". */
+  price: string;
+};
+
+export const replyVariableNames = ['name', 'item', 'price'] as const;
+
+export function replyVariables(
+  from: string | null | undefined,
+  listing: ChatListing | null | undefined,
+): ReplyVariables {
+  return {
+    name: from?.trim() ?? '',
+    item: listing?.title ?? '',
+    price: listing?.price ?? '',
+  };
+}
+
+/**
+ * Fills `{name}`, `{item}` and `{price}`; unknown placeholders stay as they
+ * are, missing values become empty. The result is trimmed.
+ */
+export function renderReply(template: string, vars: ReplyVariables): string {
+  return template
+    .replace(/\{(\w+)\}/g, (match, key: string) =>
+      (replyVariableNames as readonly string[]).includes(key)
+        ? vars[key as keyof ReplyVariables]
+        : match,
+    )
+    .trim();
+}
@@ -0,0 +1,82 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RequireRole } from './auth.guard';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import type {
+  ScheduledMessageInput,
+  ScheduledMessageState,
+} from './scheduled-messages.service';
+
+const states: ScheduledMessageState[] = [
+  'pending',
+  'sending',
+  'sent',
+  'failed',
+  'cancelled',
+];
+
+@RequireRole('operator')
+@Controller('scheduled-messages')
+export class ScheduledMessagesController {
+  constructor(private readonly scheduled: ScheduledMessagesService) {}
+
+  /** Pending messages first; `?state=` narrows the list. */
+  @Get()
+  list(@Query('state') state?: string) {
+    if (state && !states.some((s) => s === state)) {
+      return {
+        ok: false,
+        message: `state must be one of ${states.join(', ')}`,
+      };
+    }
+    return {
+      ok: true,
+      messages: this.scheduled.list(state as ScheduledMessageState | undefined),
+    };
+  }
+
+  /**
+   * Queues a message: `{ channelId, text | templateId, sendAt: ISO date-time | delaySeconds }`.
+   * A template is filled for the chat when the message goes out.
+   */
+  @Post()
+  schedule(@Body() body: ScheduledMessageInput = {}) {
+    try {
+      return { ok: true, scheduled: this.scheduled.schedule(body ?? {}) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, message };
+    }
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string) {
+    const scheduled = this.scheduled.get(id);
+    if (!scheduled) {
+      return { ok: false, id, message: 'Scheduled message not found' };
+    }
+    return { ok: true, scheduled };
+  }
+
+  /** Cancels a message that has not gone out yet. */
+  @Delete(':id')
+  cancel(@Param('id') id: string) {
+    try {
+      const scheduled = this.scheduled.cancel(id);
+      if (!scheduled) {
+        return { ok: false, id, message: 'Scheduled message not found' };
+      }
+      return { ok: true, scheduled };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, id, message };
+    }
+  }
+}
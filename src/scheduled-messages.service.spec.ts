@@ -0,0 +1,235 @@
+import { AvitoWatcherService, ChatSessionState } from './avito.watcher.service';
+import { ChatBindingsService } from './chat-bindings.service';
+import { ConfigService } from './config.service';
+import { EventBus } from './event-bus';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { TemplatesService } from './templates.service';
+
+const CHAT = 'u2i-aBc123';
+
+describe('ScheduledMessagesService', () => {
+  let chatState: ChatSessionState;
+  let sendMessage: jest.Mock;
+  let templates: TemplatesService;
+  let service: ScheduledMessagesService;
+  let statuses: string[];
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-10-14T09:00:00.000Z') });
+    process.env.SCHEDULED_RETRY_BASE_MS = '1000';
+    process.env.SCHEDULED_MAX_ATTEMPTS = '3';
+
+    chatState = 'watching';
+    sendMessage = jest.fn().mockResolvedValue({
+      requestId: 'r-1',
+      channelId: CHAT,
+      ok: true,
+      started: true,
+    });
+    const watcher = {
+      sendMessage,
+      getChatState: () => chatState,
+      getChatDetails: () => ({ title: 'Рушан', listing: null, readAt: '' }),
+    } as unknown as AvitoWatcherService;
+    const bindings = {
+      get: (id: string) => (id === CHAT ? { id } : null),
+    } as unknown as ChatBindingsService;
+    const bus = new EventBus();
+    const config = new ConfigService();
+    templates = new TemplatesService(bus, watcher, config);
+    service = new ScheduledMessagesService(
+      bus,
+      watcher,
+      bindings,
+      templates,
+      config,
+    );
+    statuses = [];
+    bus.events$.subscribe((evt) => {
+      if (evt.type === 'status') statuses.push(evt.message);
+    });
+    service.start();
+  });
+
+  afterEach(() => {
+    service.stop();
+    jest.useRealTimers();
+    delete process.env.SCHEDULED_RETRY_BASE_MS;
+    delete process.env.SCHEDULED_MAX_ATTEMPTS;
+  });
+
+  it('sends the message when it is due', async () => {
+    const scheduled = service.schedule({
+      channelId: CHAT,
+      text: 'Доброе утро!',
+      sendAt: '2025-10-14T10:00:00.000Z',
+    });
+
+    await jest.advanceTimersByTimeAsync(59 * 60_000);
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(sendMessage.mock.calls).toEqual([[CHAT, 'Доброе утро!']]);
+    expect(service.get(scheduled.id)).toMatchObject({
+      state: 'sent',
+      attempts: 1,
+      sentAt: '2025-10-14T10:00:00.000Z',
+    });
+    expect(statuses).toEqual([
+      `Scheduled message ${scheduled.id} sent to ${CHAT}`,
+    ]);
+  });
+
+  it('fills a template when the message goes out', async () => {
+    const template = templates.create({ name: 'Утро', text: '{name}, привет' });
+    service.schedule({
+      channelId: CHAT,
+      templateId: template.id,
+      delaySeconds: 5,
+    });
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(sendMessage).toHaveBeenCalledWith(CHAT, 'Рушан, привет');
+  });
+
+  it('retries while the chat is not open, then gives up', async () => {
+    chatState = 'opening';
+    const scheduled = service.schedule({
+      channelId: CHAT,
+      text: 'Привет',
+      delaySeconds: 0,
+    });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(service.get(scheduled.id)).toMatchObject({
+      state: 'pending',
+      attempts: 1,
+      nextAttemptAt: '2025-10-14T09:00:01.000Z',
+      lastError: `Chat ${CHAT} is not open`,
+    });
+
+    chatState = 'watching';
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(service.get(scheduled.id)?.state).toBe('sent');
+
+    chatState = 'stopped';
+    const failing = service.schedule({
+      channelId: CHAT,
+      text: 'Ещё раз',
+      delaySeconds: 0,
+    });
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(service.get(failing.id)).toMatchObject({
+      state: 'failed',
+      attempts: 3,
+    });
+    expect(statuses[statuses.length - 1]).toBe(
+      `Scheduled message ${failing.id} to ${CHAT} failed after 3 attempt(s): Chat ${CHAT} is not open`,
+    );
+  });
+
+  it('does not repeat a send that failed in an open chat', async () => {
+    sendMessage.mockResolvedValue({
+      requestId: 'r-1',
+      channelId: CHAT,
+      ok: false,
+      started: true,
+      error: 'Message not confirmed in chat within 10s',
+    });
+    const scheduled = service.schedule({
+      channelId: CHAT,
+      text: 'Привет',
+      delaySeconds: 0,
+    });
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(service.get(scheduled.id)).toMatchObject({
+      state: 'failed',
+      lastError: 'Message not confirmed in chat within 10s',
+    });
+  });
+
+  it('retries a send the watcher refused before typing', async () => {
+    sendMessage.mockResolvedValueOnce({
+      requestId: 'r-1',
+      channelId: CHAT,
+      ok: false,
+      started: false,
+      error: `Chat ${CHAT} was closed`,
+    });
+    const scheduled = service.schedule({
+      channelId: CHAT,
+      text: 'Привет',
+      delaySeconds: 0,
+    });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(service.get(scheduled.id)).toMatchObject({
+      state: 'pending',
+      lastError: `Chat ${CHAT} was closed`,
+    });
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+    expect(service.get(scheduled.id)?.state).toBe('sent');
+  });
+
+  it('does not repeat a send interrupted by the chat closing', async () => {
+    sendMessage.mockImplementation(() => {
+      chatState = 'stopped';
+      return Promise.resolve({
+        requestId: 'r-1',
+        channelId: CHAT,
+        ok: false,
+        started: true,
+        error: 'Message not confirmed in chat within 10s',
+      });
+    });
+    const scheduled = service.schedule({
+      channelId: CHAT,
+      text: 'Привет',
+      delaySeconds: 0,
+    });
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(service.get(scheduled.id)).toMatchObject({
+      state: 'failed',
+      attempts: 1,
+      lastError: 'Message not confirmed in chat within 10s',
+    });
+  });
+
+  it('cancels pending messages and validates new ones', async () => {
+    const scheduled = service.schedule({
+      channelId: CHAT,
+      text: 'Привет',
+      delaySeconds: 60,
+    });
+    expect(service.cancel(scheduled.id)?.state).toBe('cancelled');
+    expect(() => service.cancel(scheduled.id)).toThrow(
+      'Scheduled message is already cancelled',
+    );
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    expect(() =>
+      service.schedule({ channelId: 'u2i-other', text: 'x', delaySeconds: 1 }),
+    ).toThrow('Chat u2i-other is not bound');
+    expect(() =>
+      service.schedule({ channelId: CHAT, delaySeconds: 1 }),
+    ).toThrow('Either text or templateId is required');
+    expect(() =>
+      service.schedule({
+        channelId: CHAT,
+        text: 'x',
+        sendAt: '2025-10-13T09:00:00.000Z',
+      }),
+    ).toThrow('sendAt is in the past');
+    expect(() => service.schedule({ channelId: CHAT, text: 'x' })).toThrow(
+      'sendAt or delaySeconds is required',
+    );
+    expect(service.cancel('missing')).toBeNull();
+  });
+});
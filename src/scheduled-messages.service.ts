@@ -0,0 +1,383 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventBus } from './event-bus';
+import { AvitoWatcherService } from './avito.watcher.service';
+import { ChatBindingsService } from './chat-bindings.service';
+import { ConfigService } from './config.service';
+import { TemplatesService } from './templates.service';
+
+export type ScheduledMessageState =
+  | 'pending'
+  | 'sending'
+  | 'sent'
+  | 'failed'
+  | 'cancelled';
+
+export type ScheduledMessage = {
+  id: string;
+  channelId: string;
+  /** Text to send; null when the message is a template. */
+  text: string | null;
+  /** Template filled for the chat at send time. */
+  templateId: string | null;
+  /** When the message was asked to go out. */
+  sendAt: string;
+  state: ScheduledMessageState;
+  attempts: number;
+  /** Next try while pending: `sendAt` at first, later the retry time. */
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  sentAt: string | null;
+  createdAt: string;
+};
+
+export type ScheduledMessageInput = {
+  channelId?: unknown;
+  text?: unknown;
+  templateId?: unknown;
+  /** ISO date-time. */
+  sendAt?: unknown;
+  /** Alternative to `sendAt`: seconds from now. */
+  delaySeconds?: unknown;
+};
+
+type StoredFile = { messages?: ScheduledMessage[] };
+
+/** Finished messages kept for the list; older ones are dropped. */
+const FINISHED_LIMIT = 100;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+// setTimeout overflows after ~24.8 days; far-off messages are re-checked
+const MAX_TIMER_MS = 60 * 60 * 1000;
+// Clock skew allowed for a sendAt that is already in the past
+const PAST_TOLERANCE_MS = 60 * 1000;
+const TEXT_LIMIT = 4000;
+
+/**
+ * Messages queued for later (`/scheduled-messages`), sent through the
+ * watcher's open chat when they are due. Kept in
+ * `.avito-scheduled-messages.json`, so pending ones survive a restart and the
+ * overdue ones go out right after it.
+ *
+ * When the send cannot start (chat not open at the due time, browser down,
+ * re-login) it is retried with backoff (SCHEDULED_RETRY_BASE_MS, up to
+ * SCHEDULED_MAX_ATTEMPTS tries). A send that failed after typing began is
+ * not retried, since the text may already have reached the chat.
+ */
+@Injectable()
+export class ScheduledMessagesService implements OnModuleInit, OnModuleDestroy {
+  private readonly filePath: string | null;
+  private readonly messages = new Map<string, ScheduledMessage>();
+  private readonly retryBaseMs: number;
+  private readonly maxAttempts: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly bus: EventBus,
+    private readonly watcher: AvitoWatcherService,
+    private readonly bindings: ChatBindingsService,
+    private readonly templates: TemplatesService,
+    private readonly config: ConfigService,
+  ) {
+    const scheduler = config.get('scheduler');
+    this.retryBaseMs = scheduler.retryBaseMs;
+    this.maxAttempts = scheduler.maxAttempts;
+
+    // In tests keep the queue in memory only
+    this.filePath = config.isTest
+      ? null
+      : path.join(process.cwd(), '.avito-scheduled-messages.json');
+
+    this.load();
+  }
+
+  onModuleInit() {
+    if (this.config.isTest) return;
+    this.start();
+  }
+
+  onModuleDestroy() {
+    this.stop();
+  }
+
+  start() {
+    this.running = true;
+    this.arm();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** Pending messages first, each group by send time. */
+  list(state?: ScheduledMessageState): ScheduledMessage[] {
+    const order = (m: ScheduledMessage) =>
+      m.state === 'pending' || m.state === 'sending' ? 0 : 1;
+    return Array.from(this.messages.values())
+      .filter((m) => !state || m.state === state)
+      .sort((a, b) => order(a) - order(b) || a.sendAt.localeCompare(b.sendAt));
+  }
+
+  get(id: string): ScheduledMessage | null {
+    return this.messages.get(id) ?? null;
+  }
+
+  schedule(input: ScheduledMessageInput): ScheduledMessage {
+    const channelId =
+      typeof input.channelId === 'string' ? input.channelId.trim() : '';
+    if (!channelId) throw new Error('channelId is required');
+    if (!this.bindings.get(channelId)) {
+      throw new Error(`Chat ${channelId} is not bound`);
+    }
+
+    const text = typeof input.text === 'string' ? input.text.trim() : '';
+    const templateId =
+      typeof input.templateId === 'string' ? input.templateId.trim() : '';
+    if (!text === !templateId) {
+      throw new Error('Either text or templateId is required');
+    }
+    if (text.length > TEXT_LIMIT) {
+      throw new Error(`text is longer than ${TEXT_LIMIT} characters`);
+    }
+    if (templateId && !this.templates.get(templateId)) {
+      throw new Error(`Template ${templateId} not found`);
+    }
+
+    const now = Date.now();
+    const sendAt = this.parseSendAt(input, now);
+    const message: ScheduledMessage = {
+      id: randomUUID(),
+      channelId,
+      text: text || null,
+      templateId: templateId || null,
+      sendAt: sendAt.toISOString(),
+      state: 'pending',
+      attempts: 0,
+      nextAttemptAt: sendAt.toISOString(),
+      lastError: null,
+      sentAt: null,
+      createdAt: new Date(now).toISOString(),
+    };
+    this.messages.set(message.id, message);
+    this.save();
+    this.arm();
+    return message;
+  }
+
+  /** Cancels a pending message; throws when it is no longer pending. */
+  cancel(id: string): ScheduledMessage | null {
+    const message = this.messages.get(id);
+    if (!message) return null;
+    if (message.state !== 'pending') {
+      throw new Error(`Scheduled message is already ${message.state}`);
+    }
+    message.state = 'cancelled';
+    message.nextAttemptAt = null;
+    this.finish();
+    this.arm();
+    return message;
+  }
+
+  private parseSendAt(input: ScheduledMessageInput, now: number): Date {
+    if (input.sendAt !== undefined && input.delaySeconds !== undefined) {
+      throw new Error('Give either sendAt or delaySeconds, not both');
+    }
+    if (input.delaySeconds !== undefined) {
+      const seconds = Number(input.delaySeconds);
+      if (!Number.isInteger(seconds) || seconds < 0) {
+        throw new Error('delaySeconds must be a non-negative integer');
+      }
+      return new Date(now + seconds * 1000);
+    }
+    if (input.sendAt === undefined) {
+      throw new Error('sendAt or delaySeconds is required');
+    }
+    const sendAt = new Date(String(input.sendAt as string));
+    if (typeof input.sendAt !== 'string' || Number.isNaN(sendAt.getTime())) {
+      throw new Error('sendAt must be an ISO date-time');
+    }
+    if (sendAt.getTime() < now - PAST_TOLERANCE_MS) {
+      throw new Error('sendAt is in the past');
+    }
+    return sendAt;
+  }
+
+  // One timer for the earliest pending message
+  private arm() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (!this.running) return;
+
+    let next: number | null = null;
+    for (const message of this.messages.values()) {
+      if (message.state !== 'pending' || !message.nextAttemptAt) continue;
+      const at = Date.parse(message.nextAttemptAt);
+      if (next === null || at < next) next = at;
+    }
+    if (next === null) return;
+
+    const delay = Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_MS);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.runDue();
+    }, delay);
+  }
+
+  private runDue() {
+    const now = Date.now();
+    for (const message of this.messages.values()) {
+      if (message.state !== 'pending' || !message.nextAttemptAt) continue;
+      if (Date.parse(message.nextAttemptAt) > now) continue;
+      void this.send(message);
+    }
+    this.arm();
+  }
+
+  private async send(message: ScheduledMessage) {
+    message.state = 'sending';
+    message.nextAttemptAt = null;
+    message.attempts++;
+    this.save();
+
+    // Nothing was typed yet, so trying again later cannot send it twice
+    if (this.watcher.getChatState(message.channelId) !== 'watching') {
+      this.retryOrFail(message, `Chat ${message.channelId} is not open`);
+      return;
+    }
+
+    let text = message.text;
+    if (message.templateId) {
+      text = this.templates.render(message.templateId, message.channelId);
+      if (text === null) {
+        this.fail(message, `Template ${message.templateId} not found`);
+        return;
+      }
+    }
+
+    const result = await this.watcher
+      .sendMessage(message.channelId, text ?? '')
+      .catch((e: unknown) => ({
+        ok: false,
+        started: true,
+        error: e instanceof Error ? e.message : String(e),
+      }));
+
+    if (result.ok) {
+      message.state = 'sent';
+      message.sentAt = new Date().toISOString();
+      message.lastError = null;
+      this.finish();
+      this.status(
+        'info',
+        `Scheduled message ${message.id} sent to ${message.channelId}`,
+      );
+      return;
+    }
+
+    const error = result.error ?? 'unknown error';
+    if (!result.started) {
+      this.retryOrFail(message, error);
+    } else {
+      this.fail(message, error);
+    }
+  }
+
+  private retryOrFail(message: ScheduledMessage, error: string) {
+    if (message.attempts >= this.maxAttempts) {
+      this.fail(message, error);
+      return;
+    }
+    const delay = Math.min(
+      this.retryBaseMs * 2 ** (message.attempts - 1),
+      MAX_BACKOFF_MS,
+    );
+    message.state = 'pending';
+    message.lastError = error;
+    message.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    this.save();
+    this.arm();
+    this.status(
+      'warn',
+      `Scheduled message ${message.id} to ${message.channelId} not sent (${error}), retrying in ${Math.round(delay / 1000)}s`,
+    );
+  }
+
+  private fail(message: ScheduledMessage, error: string) {
+    message.state = 'failed';
+    message.lastError = error;
+    message.nextAttemptAt = null;
+    this.finish();
+    this.status(
+      'warn',
+      `Scheduled message ${message.id} to ${message.channelId} failed after ${message.attempts} attempt(s): ${error}`,
+    );
+  }
+
+  // Saves after a message finished, dropping the oldest finished ones
+  private finish() {
+    const finished = Array.from(this.messages.values())
+      .filter((m) => m.state !== 'pending' && m.state !== 'sending')
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+    for (const old of finished.slice(0, -FINISHED_LIMIT)) {
+      this.messages.delete(old.id);
+    }
+    this.save();
+  }
+
+  private status(level: 'info' | 'warn', message: string) {
+    this.bus.emit({
+      type: 'status',
+      level,
+      message,
+      at: new Date().toISOString(),
+    });
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const stored = JSON.parse(raw) as StoredFile;
+      for (const item of stored?.messages ?? []) {
+        if (!item?.id || !item.channelId || !item.sendAt) continue;
+        const message: ScheduledMessage = { ...item };
+        // Stopped mid-send: the text may have gone out, so do not repeat it
+        if (message.state === 'sending') {
+          message.state = 'failed';
+          message.lastError = 'Interrupted by a restart, may have been sent';
+          message.nextAttemptAt = null;
+        }
+        this.messages.set(message.id, message);
+      }
+    } catch {
+      this.status(
+        'warn',
+        `Scheduled messages: cannot read ${this.filePath}, starting with an empty queue`,
+      );
+    }
+  }
+
+  private save() {
+    if (!this.filePath) return;
+    try {
+      fs.writeFileSync(
+        this.filePath,
+        JSON.stringify(
+          { messages: Array.from(this.messages.values()) },
+          null,
+          2,
+        ),
+        'utf-8',
+      );
+    } catch (e) {
+      this.status(
+        'warn',
+        `Scheduled messages: cannot save ${this.filePath}: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+  }
+}
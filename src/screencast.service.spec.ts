@@ -0,0 +1,75 @@
+import { EventEmitter } from 'events';
+import type { Page } from 'puppeteer';
+import { ScreencastMessage, ScreencastService } from './screencast.service';
+
+function fakePage() {
+  const session = Object.assign(new EventEmitter(), {
+    send: jest.fn().mockResolvedValue(undefined),
+    detach: jest.fn().mockResolvedValue(undefined),
+  });
+  const page = {
+    createCDPSession: jest.fn().mockResolvedValue(session),
+    mouse: { click: jest.fn().mockResolvedValue(undefined) },
+    keyboard: {
+      type: jest.fn().mockResolvedValue(undefined),
+      press: jest.fn().mockResolvedValue(undefined),
+    },
+  };
+  return { page, session, asPage: page as unknown as Page };
+}
+
+describe('ScreencastService', () => {
+  let service: ScreencastService;
+  let messages: ScreencastMessage[];
+
+  beforeEach(() => {
+    service = new ScreencastService();
+    messages = [];
+    service.messages$.subscribe((m) => messages.push(m));
+  });
+
+  it('streams and acknowledges frames until stopped', async () => {
+    const { session, asPage } = fakePage();
+    await service.start(asPage, 'login required');
+
+    session.emit('Page.screencastFrame', {
+      data: 'AAAA',
+      sessionId: 7,
+      metadata: { deviceWidth: 1280, deviceHeight: 800 },
+    });
+    expect(session.send).toHaveBeenCalledWith('Page.screencastFrameAck', {
+      sessionId: 7,
+    });
+    expect(service.snapshot()).toEqual([
+      expect.objectContaining({ type: 'screencast_state', active: true }),
+      expect.objectContaining({ type: 'screencast_frame', width: 1280 }),
+    ]);
+
+    await service.stop();
+    expect(session.send).toHaveBeenCalledWith('Page.stopScreencast');
+    expect(session.detach).toHaveBeenCalled();
+    expect(messages.map((m) => m.type)).toEqual([
+      'screencast_state',
+      'screencast_frame',
+      'screencast_state',
+    ]);
+    expect(service.snapshot()).toEqual([
+      expect.objectContaining({ active: false, reason: null }),
+    ]);
+  });
+
+  it('replays input only while streaming and only for allowed keys', async () => {
+    const { page, asPage } = fakePage();
+    expect(await service.input({ kind: 'click', x: 1, y: 2 })).toBe(false);
+
+    await service.start(asPage, 'login required');
+    expect(await service.input({ kind: 'click', x: 10, y: 20 })).toBe(true);
+    expect(await service.input({ kind: 'type', text: '1234' })).toBe(true);
+    expect(await service.input({ kind: 'key', key: 'Enter' })).toBe(true);
+    expect(await service.input({ kind: 'key', key: 'F12' })).toBe(false);
+
+    expect(page.mouse.click).toHaveBeenCalledWith(10, 20);
+    expect(page.keyboard.type).toHaveBeenCalledWith('1234', { delay: 30 });
+    expect(page.keyboard.press).toHaveBeenCalledTimes(1);
+  });
+});
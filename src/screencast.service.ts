@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import { Subject } from 'rxjs';
+import type { CDPSession, KeyInput, Page, Protocol } from 'puppeteer';
+
+/**
+ * Messages for operator WS clients. They bypass the EventBus on purpose:
+ * frames are large, and a login screen must not end up in the message store
+ * or in webhooks.
+ */
+export type ScreencastMessage =
+  | {
+      type: 'screencast_state';
+      active: boolean;
+      reason: string | null;
+      at: string;
+    }
+  | {
+      type: 'screencast_frame';
+      /** Base64 JPEG. */
+      data: string;
+      /** Page size in CSS pixels; clicks are sent back in these coordinates. */
+      width: number;
+      height: number;
+      at: string;
+    };
+
+export type ScreencastInput =
+  | { kind: 'click'; x: number; y: number }
+  | { kind: 'type'; text: string }
+  | { kind: 'key'; key: string };
+
+// Keys the dashboard may press; everything printable goes through `type`
+const allowedKeys = new Set<string>([
+  'Enter',
+  'Backspace',
+  'Delete',
+  'Tab',
+  'Escape',
+  'ArrowLeft',
+  'ArrowRight',
+  'ArrowUp',
+  'ArrowDown',
+  'Home',
+  'End',
+]);
+
+const TEXT_LIMIT = 256;
+
+/**
+ * Live view of a Puppeteer page for remote login: CDP `Page.startScreencast`
+ * frames go to operators over WS, and their clicks and keystrokes are
+ * replayed on the page. Only one page is streamed at a time, and input is
+ * ignored while nothing is streamed.
+ */
+@Injectable()
+export class ScreencastService {
+  private readonly subject = new Subject<ScreencastMessage>();
+  private page: Page | null = null;
+  private session: CDPSession | null = null;
+  private lastFrame: ScreencastMessage | null = null;
+  private reason: string | null = null;
+
+  readonly messages$ = this.subject.asObservable();
+
+  get active(): boolean {
+    return this.page !== null;
+  }
+
+  /** State plus the latest frame, for a client that just subscribed. */
+  snapshot(): ScreencastMessage[] {
+    const state = this.stateMessage();
+    return this.lastFrame ? [state, this.lastFrame] : [state];
+  }
+
+  async start(page: Page, reason: string) {
+    if (this.page === page) return;
+    await this.stop();
+
+    const session = await page.createCDPSession();
+    this.page = page;
+    this.session = session;
+    this.reason = reason;
+
+    session.on(
+      'Page.screencastFrame',
+      (frame: Protocol.Page.ScreencastFrameEvent) => {
+        if (this.session !== session) return;
+        session
+          .send('Page.screencastFrameAck', { sessionId: frame.sessionId })
+          .catch(() => undefined);
+        this.lastFrame = {
+          type: 'screencast_frame',
+          data: frame.data,
+          width: Math.round(frame.metadata.deviceWidth),
+          height: Math.round(frame.metadata.deviceHeight),
+          at: new Date().toISOString(),
+        };
+        this.subject.next(this.lastFrame);
+      },
+    );
+    await session.send('Page.startScreencast', {
+      format: 'jpeg',
+      quality: 60,
+      maxWidth: 1280,
+      maxHeight: 800,
+    });
+    this.subject.next(this.stateMessage());
+  }
+
+  async stop() {
+    const session = this.session;
+    if (!session) return;
+    this.page = null;
+    this.session = null;
+    this.lastFrame = null;
+    this.reason = null;
+    await session.send('Page.stopScreencast').catch(() => undefined);
+    await session.detach().catch(() => undefined);
+    this.subject.next(this.stateMessage());
+  }
+
+  /** Replays an operator's input on the streamed page; false when there is none. */
+  async input(input: ScreencastInput): Promise<boolean> {
+    const page = this.page;
+    if (!page) return false;
+
+    switch (input.kind) {
+      case 'click': {
+        const { x, y } = input;
+        if (!Number.isFinite(x) || !Number.isFinite(y)) return false;
+        await page.mouse.click(x, y);
+        return true;
+      }
+      case 'type': {
+        const text = String(input.text ?? '').slice(0, TEXT_LIMIT);
+        if (!text) return false;
+        await page.keyboard.type(text, { delay: 30 });
+        return true;
+      }
+      case 'key': {
+        if (!allowedKeys.has(input.key)) return false;
+        await page.keyboard.press(input.key as KeyInput);
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  private stateMessage(): ScreencastMessage {
+    return {
+      type: 'screencast_state',
+      active: this.active,
+      reason: this.reason,
+      at: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import type { Cookie } from 'puppeteer';
+import { ConfigService } from './config.service';
+import { EventBus, StreamEvent } from './event-bus';
+import {
+  SessionCookiesService,
+  decryptCookies,
+  encryptCookies,
+  sessionExpiry,
+} from './session-cookies.service';
+
+const hour = 60 * 60 * 1000;
+const now = Date.parse('2025-10-20T12:00:00Z');
+
+function cookie(name: string, expiresMs: number): Cookie {
+  return {
+    name,
+    value: `${name}-value`,
+    domain: '.avito.ru',
+    path: '/',
+    expires: expiresMs > 0 ? expiresMs / 1000 : -1,
+    size: 10,
+    httpOnly: true,
+    secure: true,
+    session: expiresMs <= 0,
+  } as Cookie;
+}
+
+describe('cookie encryption', () => {
+  it('round-trips and rejects a wrong secret', () => {
+    const cookies = [cookie('sessid', now + hour)];
+    const file = encryptCookies(cookies, 'right');
+
+    expect(file).not.toContain('sessid-value');
+    expect(decryptCookies(file, 'right')).toEqual(cookies);
+    expect(() => decryptCookies(file, 'wrong')).toThrow();
+  });
+});
+
+describe('sessionExpiry', () => {
+  it('takes the earliest expiry of the session cookies only', () => {
+    const cookies = [
+      cookie('sessid', now + 5 * hour),
+      cookie('auth', now + 2 * hour),
+      cookie('other', now + hour),
+      cookie('u', -1),
+    ];
+
+    expect(sessionExpiry(cookies, ['sessid', 'auth'])?.getTime()).toBe(
+      now + 2 * hour,
+    );
+    expect(sessionExpiry(cookies, ['u'])).toBeNull();
+  });
+});
+
+describe('SessionCookiesService', () => {
+  let events: StreamEvent[];
+  let service: SessionCookiesService;
+
+  beforeEach(() => {
+    process.env.AVITO_COOKIE_WARN_HOURS = '24';
+    const bus = new EventBus();
+    events = [];
+    bus.events$.subscribe((e) => events.push(e));
+    service = new SessionCookiesService(bus, new ConfigService());
+  });
+
+  afterEach(() => {
+    delete process.env.AVITO_COOKIE_WARN_HOURS;
+  });
+
+  it('warns once when the session is about to expire', () => {
+    service.checkExpiry([cookie('sessid', now + 48 * hour)], now);
+    expect(events).toEqual([]);
+
+    const soon = [cookie('sessid', now + 10 * hour)];
+    service.checkExpiry(soon, now);
+    service.checkExpiry(soon, now + hour);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'status',
+      level: 'warn',
+      message: expect.stringContaining('expires in ~10h') as string,
+    });
+    expect(service.expiresAt?.getTime()).toBe(now + 10 * hour);
+  });
+});
@@ -0,0 +1,194 @@
+import { Injectable } from '@nestjs/common';
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Cookie } from 'puppeteer';
+import { EventBus } from './event-bus';
+import { ConfigService } from './config.service';
+
+type EncryptedFile = {
+  v: 1;
+  savedAt: string;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+/** AES-256-GCM with a scrypt key; the result is the JSON of the cookie file. */
+export function encryptCookies(
+  cookies: Cookie[],
+  secret: string,
+  now = new Date(),
+): string {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(
+    'aes-256-gcm',
+    scryptSync(secret, salt, 32),
+    iv,
+  );
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(cookies), 'utf-8'),
+    cipher.final(),
+  ]);
+  const file: EncryptedFile = {
+    v: 1,
+    savedAt: now.toISOString(),
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+  return JSON.stringify(file);
+}
+
+/** Throws when the secret is wrong or the file was tampered with. */
+export function decryptCookies(raw: string, secret: string): Cookie[] {
+  const file = JSON.parse(raw) as Partial<EncryptedFile>;
+  if (file.v !== 1 || !file.salt || !file.iv || !file.tag || !file.data) {
+    throw new Error('Unknown cookie file format');
+  }
+  const key = scryptSync(secret, Buffer.from(file.salt, 'base64'), 32);
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    key,
+    Buffer.from(file.iv, 'base64'),
+  );
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+  const json = Buffer.concat([
+    decipher.update(Buffer.from(file.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf-8');
+  return JSON.parse(json) as Cookie[];
+}
+
+/**
+ * Earliest expiry among the session cookies, or null when none of them is
+ * set or all are browser-session cookies (`expires` of -1).
+ */
+export function sessionExpiry(cookies: Cookie[], names: string[]): Date | null {
+  let earliest: number | null = null;
+  for (const cookie of cookies) {
+    if (!names.includes(cookie.name) || !(cookie.expires > 0)) continue;
+    const ms = cookie.expires * 1000;
+    if (earliest === null || ms < earliest) earliest = ms;
+  }
+  return earliest === null ? null : new Date(earliest);
+}
+
+/**
+ * Avito cookies saved after each successful login, encrypted with
+ * AVITO_COOKIES_SECRET (or a random key kept next to the file), so a restart
+ * picks up the rotated session instead of the one from `.env`.
+ *
+ * Also watches the session cookie expiry and warns AVITO_COOKIE_WARN_HOURS
+ * ahead, before Avito starts redirecting to the login page.
+ */
+@Injectable()
+export class SessionCookiesService {
+  private readonly filePath: string | null;
+  private readonly sessionCookies: string[];
+  private readonly warnMs: number;
+  private secret: string | null;
+  // Expiry we already warned about, so each session is announced once
+  private warnedExpiry: number | null = null;
+  private lastExpiry: Date | null = null;
+
+  constructor(
+    private readonly bus: EventBus,
+    config: ConfigService,
+  ) {
+    const avito = config.get('avito');
+    // In tests never touch the disk
+    this.filePath = config.isTest ? null : path.resolve(avito.cookiesFile);
+    this.secret = avito.cookiesSecret;
+    this.sessionCookies = avito.sessionCookies;
+    this.warnMs = avito.cookieWarnHours * 60 * 60 * 1000;
+  }
+
+  /** Expiry of the session seen by the last save() or checkExpiry(). */
+  get expiresAt(): Date | null {
+    return this.lastExpiry;
+  }
+
+  /** Cookies from the encrypted file; null when there is none or it cannot be read. */
+  load(): { cookies: Cookie[]; savedAt: string | null } | null {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return null;
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const cookies = decryptCookies(raw, this.key());
+      const { savedAt } = JSON.parse(raw) as Partial<EncryptedFile>;
+      return { cookies, savedAt: savedAt ?? null };
+    } catch (e) {
+      this.bus.emit({
+        type: 'status',
+        level: 'warn',
+        message: `Saved cookies unreadable (${this.filePath}): ${e instanceof Error ? e.message : String(e)}`,
+        at: new Date().toISOString(),
+      });
+      return null;
+    }
+  }
+
+  save(cookies: Cookie[]) {
+    this.checkExpiry(cookies);
+    if (!this.filePath || !cookies.length) return;
+    try {
+      fs.writeFileSync(this.filePath, encryptCookies(cookies, this.key()), {
+        encoding: 'utf-8',
+        mode: 0o600,
+      });
+    } catch (e) {
+      this.bus.emit({
+        type: 'status',
+        level: 'warn',
+        message: `Cannot save cookies to ${this.filePath}: ${e instanceof Error ? e.message : String(e)}`,
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  /** Emits a warning once per session when its expiry is within the window. */
+  checkExpiry(cookies: Cookie[], now = Date.now()) {
+    const expiry = sessionExpiry(cookies, this.sessionCookies);
+    this.lastExpiry = expiry;
+    if (!expiry) return;
+
+    const left = expiry.getTime() - now;
+    if (left > this.warnMs || this.warnedExpiry === expiry.getTime()) return;
+    this.warnedExpiry = expiry.getTime();
+
+    const hours = Math.max(0, Math.round(left / (60 * 60 * 1000)));
+    this.bus.emit({
+      type: 'status',
+      level: 'warn',
+      message:
+        left > 0
+          ? `Avito session expires in ~${hours}h (${expiry.toISOString()}). Log in again or refresh cookies.`
+          : `Avito session cookie expired at ${expiry.toISOString()}.`,
+      at: new Date().toISOString(),
+    });
+  }
+
+  // AVITO_COOKIES_SECRET, or a random key generated once and kept beside the file
+  private key(): string {
+    if (this.secret) return this.secret;
+    const keyPath = `${this.filePath}.key`;
+    if (fs.existsSync(keyPath)) {
+      this.secret = fs.readFileSync(keyPath, 'utf-8').trim();
+    } else {
+      this.secret = randomBytes(32).toString('hex');
+      fs.writeFileSync(keyPath, `${this.secret}\n`, {
+        encoding: 'utf-8',
+        mode: 0o600,
+      });
+    }
+    return this.secret;
+  }
+}
@@ -0,0 +1,48 @@
+import { Controller, Get } from '@nestjs/common';
+import { RequireRole } from './auth.guard';
+import { AvitoWatcherService } from './avito.watcher.service';
+import { SessionCookiesService } from './session-cookies.service';
+
+// Cookies are a full Avito login, so only operators may see them
+@RequireRole('operator')
+@Controller('session')
+export class SessionController {
+  constructor(
+    private readonly watcher: AvitoWatcherService,
+    private readonly sessionCookies: SessionCookiesService,
+  ) {}
+
+  /**
+   * Avito cookies in the AVITO_COOKIES_JSON format: `cookies` can be pasted into
+   * `.env` as is. Taken from the running browser, or from the saved file when
+   * the browser is down.
+   */
+  @Get('cookies')
+  async cookies() {
+    const live = await this.watcher.exportCookies().catch(() => null);
+    if (live) {
+      this.sessionCookies.checkExpiry(live);
+      return {
+        ok: true,
+        source: 'browser',
+        expiresAt: this.sessionCookies.expiresAt?.toISOString() ?? null,
+        cookies: live,
+      };
+    }
+
+    const saved = this.sessionCookies.load();
+    if (!saved)
+      return {
+        ok: false,
+        message: 'Browser is not running and no cookies are saved',
+      };
+    this.sessionCookies.checkExpiry(saved.cookies);
+    return {
+      ok: true,
+      source: 'saved',
+      savedAt: saved.savedAt,
+      expiresAt: this.sessionCookies.expiresAt?.toISOString() ?? null,
+      cookies: saved.cookies,
+    };
+  }
+}
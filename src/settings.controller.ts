@@ -0,0 +1,53 @@
+import { Body, Controller, Get, Patch, Req } from '@nestjs/common';
+import { RequireRole } from './auth.guard';
+import type { AuthedRequest } from './auth.guard';
+import { SettingsService } from './settings.service';
+
+@Controller('settings')
+export class SettingsController {
+  constructor(private readonly settings: SettingsService) {}
+
+  /** Effective settings and which of them override the env. */
+  @Get()
+  get() {
+    return {
+      ok: true,
+      settings: this.settings.get(),
+      overridden: this.settings.overridden(),
+    };
+  }
+
+  /**
+   * Partial update, e.g. `{ "selfName": "Иван", "pollIntervalMs": 3000 }`;
+   * `null` or `""` resets a setting to its env value. Nothing changes if any
+   * value is invalid.
+   */
+  @RequireRole('operator')
+  @Patch()
+  update(
+    @Body() body: Record<string, unknown> = {},
+    @Req() req: AuthedRequest,
+  ) {
+    try {
+      const { settings, changes } = this.settings.update(body ?? {}, {
+        role: req.role ?? 'operator',
+        ip: req.ip ?? null,
+      });
+      return {
+        ok: true,
+        settings,
+        overridden: this.settings.overridden(),
+        changes,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, message };
+    }
+  }
+
+  /** Recent changes, newest first. */
+  @Get('audit')
+  audit() {
+    return { ok: true, audit: this.settings.auditTrail() };
+  }
+}
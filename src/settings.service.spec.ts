@@ -0,0 +1,91 @@
+import { ConfigService } from './config.service';
+import { EventBus } from './event-bus';
+import { SettingsService, SettingsUpdate } from './settings.service';
+
+describe('SettingsService', () => {
+  const actor = { role: 'operator', ip: '127.0.0.1' };
+  let settings: SettingsService;
+
+  beforeEach(() => {
+    process.env.AVITO_SELF_NAME = 'Анна';
+    process.env.POLL_INTERVAL_MS = '2000';
+    settings = new SettingsService(new EventBus(), new ConfigService());
+  });
+
+  afterEach(() => {
+    delete process.env.AVITO_SELF_NAME;
+    delete process.env.POLL_INTERVAL_MS;
+  });
+
+  it('starts from the env values', () => {
+    expect(settings.get()).toMatchObject({
+      selfName: 'Анна',
+      pollIntervalMs: 2000,
+      autoBindOnOpen: false,
+      tunnelHealthUrl: null,
+    });
+    expect(settings.overridden()).toEqual([]);
+  });
+
+  it('applies a patch, announces it and records it in the audit trail', () => {
+    const seen: SettingsUpdate[] = [];
+    settings.changes$.subscribe((u) => seen.push(u));
+
+    const { changes } = settings.update(
+      { selfName: 'Иван', pollIntervalMs: '3000', autoBindOnOpen: false },
+      actor,
+    );
+
+    expect(changes).toEqual([
+      { key: 'pollIntervalMs', from: 2000, to: 3000 },
+      { key: 'selfName', from: 'Анна', to: 'Иван' },
+    ]);
+    expect(settings.get().pollIntervalMs).toBe(3000);
+    expect(seen).toHaveLength(1);
+    expect(settings.auditTrail()).toEqual([
+      expect.objectContaining({ actor, changes }),
+    ]);
+  });
+
+  it('rejects the whole patch when any value is invalid', () => {
+    expect(() =>
+      settings.update(
+        {
+          selfName: 'Иван',
+          pollIntervalMs: 5,
+          autoBindOnOpen: 'maybe',
+          x: 1,
+        },
+        actor,
+      ),
+    ).toThrow(/pollIntervalMs: .*autoBindOnOpen: .*x: unknown setting/);
+    expect(settings.get().selfName).toBe('Анна');
+    expect(settings.auditTrail()).toEqual([]);
+  });
+
+  it('resets a setting to its env value with null', () => {
+    settings.update({ selfName: 'Иван' }, actor);
+    settings.update({ selfName: null }, actor);
+
+    expect(settings.get().selfName).toBe('Анна');
+    expect(settings.overridden()).toEqual([]);
+    expect(settings.auditTrail()[0].changes).toEqual([
+      { key: 'selfName', from: 'Иван', to: 'Анна' },
+    ]);
+  });
+
+  it('treats an empty string like null', () => {
+    settings.update({ selfName: 'Иван' }, actor);
+    settings.update({ selfName: '' }, actor);
+
+    expect(settings.get().selfName).toBe('Анна');
+    expect(settings.overridden()).toEqual([]);
+  });
+
+  it('does not record updates that change nothing', () => {
+    const { changes } = settings.update({ selfName: 'Анна' }, actor);
+
+    expect(changes).toEqual([]);
+    expect(settings.auditTrail()).toEqual([]);
+  });
+});
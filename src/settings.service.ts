@@ -0,0 +1,250 @@
+import { Injectable } from '@nestjs/common';
+import { Subject } from 'rxjs';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventBus } from './event-bus';
+import {
+  AppConfig,
+  ConfigField,
+  ConfigGroup,
+  ConfigService,
+  configSchema,
+} from './config.service';
+
+/**
+ * Settings that can be changed at runtime, each backed by a config field: the
+ * env value is the default and the field parser validates new values.
+ */
+const editable = {
+  autoBindOnOpen: ['watcher', 'autoBindOnOpen'],
+  pollIntervalMs: ['watcher', 'pollIntervalMs'],
+  selfName: ['avito', 'selfName'],
+  tunnelHealthUrl: ['tunnel', 'healthUrl'],
+  tunnelHealthIntervalMs: ['tunnel', 'healthIntervalMs'],
+} as const;
+
+export type SettingKey = keyof typeof editable;
+
+type SettingValue<P> = P extends readonly [infer G extends ConfigGroup, infer K]
+  ? K extends keyof AppConfig[G]
+    ? AppConfig[G][K]
+    : never
+  : never;
+
+export type Settings = {
+  [K in SettingKey]: SettingValue<(typeof editable)[K]>;
+};
+
+export const settingKeys = Object.keys(editable) as SettingKey[];
+
+export type SettingChange = {
+  key: SettingKey;
+  from: unknown;
+  to: unknown;
+};
+
+export type SettingsAuditEntry = {
+  at: string;
+  /** Role of the caller and where the request came from. */
+  actor: { role: string; ip: string | null };
+  changes: SettingChange[];
+};
+
+export type SettingsUpdate = {
+  settings: Settings;
+  changes: SettingChange[];
+};
+
+type StoredFile = { settings?: Record<string, unknown> };
+
+const AUDIT_LIMIT = 100;
+
+function configField(key: SettingKey): ConfigField<unknown> {
+  const [group, name] = editable[key];
+  return (configSchema[group] as Record<string, ConfigField<unknown>>)[name];
+}
+
+/**
+ * Runtime-editable settings (`PATCH /settings`). Overrides of the env values
+ * are kept in `.avito-settings.json`; every change is appended to the audit
+ * trail `.avito-settings-audit.jsonl` and announced on `changes$`, so the
+ * services that use a setting can react without a restart.
+ */
+@Injectable()
+export class SettingsService {
+  private readonly filePath: string | null;
+  private readonly auditPath: string | null;
+  private readonly overrides = new Map<SettingKey, unknown>();
+  private readonly audit: SettingsAuditEntry[] = [];
+  private readonly changesSubject = new Subject<SettingsUpdate>();
+
+  readonly changes$ = this.changesSubject.asObservable();
+
+  constructor(
+    private readonly bus: EventBus,
+    private readonly config: ConfigService,
+  ) {
+    // In tests keep settings and the audit trail in memory only
+    const inMemory = config.isTest;
+    this.filePath = inMemory
+      ? null
+      : path.join(process.cwd(), '.avito-settings.json');
+    this.auditPath = inMemory
+      ? null
+      : path.join(process.cwd(), '.avito-settings-audit.jsonl');
+
+    this.load();
+    this.loadAudit();
+  }
+
+  get(): Settings {
+    const settings: Record<string, unknown> = {};
+    for (const key of settingKeys) {
+      settings[key] = this.overrides.has(key)
+        ? this.overrides.get(key)
+        : this.defaultValue(key);
+    }
+    return settings as Settings;
+  }
+
+  /** Keys whose value comes from the settings file rather than the env. */
+  overridden(): SettingKey[] {
+    return Array.from(this.overrides.keys());
+  }
+
+  /** Most recent changes first. */
+  auditTrail(): SettingsAuditEntry[] {
+    return [...this.audit].reverse();
+  }
+
+  /**
+   * Applies a partial update; `null` or `""` resets a setting to its env value.
+   * Validates the whole patch before changing anything.
+   */
+  update(
+    patch: Record<string, unknown>,
+    actor: SettingsAuditEntry['actor'],
+  ): SettingsUpdate {
+    const problems: string[] = [];
+    const next = new Map(this.overrides);
+
+    for (const [name, raw] of Object.entries(patch ?? {})) {
+      const key = settingKeys.find((k) => k === name);
+      if (!key) {
+        problems.push(`${name}: unknown setting`);
+        continue;
+      }
+      // An empty value would parse to the schema default, not the env value
+      if (raw === null || (typeof raw === 'string' && !raw.trim())) {
+        next.delete(key);
+        continue;
+      }
+      if (!['string', 'number', 'boolean'].includes(typeof raw)) {
+        problems.push(`${name}: expected a string, number or boolean`);
+        continue;
+      }
+      try {
+        next.set(
+          key,
+          configField(key).parse(String(raw as string | number | boolean)),
+        );
+      } catch (e) {
+        problems.push(`${name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    if (problems.length) throw new Error(problems.join('; '));
+
+    const before = this.get();
+    this.overrides.clear();
+    for (const [key, value] of next) this.overrides.set(key, value);
+    const settings = this.get();
+
+    const changes = settingKeys
+      .filter((key) => before[key] !== settings[key])
+      .map((key) => ({ key, from: before[key], to: settings[key] }));
+    if (!changes.length) return { settings, changes };
+
+    this.save();
+    this.record({ at: new Date().toISOString(), actor, changes });
+    this.bus.emit({
+      type: 'status',
+      level: 'info',
+      message: `Settings changed by ${actor.role}: ${changes
+        .map(
+          (c) => `${c.key} ${JSON.stringify(c.from)} → ${JSON.stringify(c.to)}`,
+        )
+        .join(', ')}`,
+      at: new Date().toISOString(),
+    });
+    this.changesSubject.next({ settings, changes });
+    return { settings, changes };
+  }
+
+  private defaultValue(key: SettingKey): unknown {
+    const [group, name] = editable[key];
+    return (this.config.get(group) as Record<string, unknown>)[name];
+  }
+
+  private record(entry: SettingsAuditEntry) {
+    this.audit.push(entry);
+    if (this.audit.length > AUDIT_LIMIT) this.audit.shift();
+    if (!this.auditPath) return;
+    try {
+      fs.appendFileSync(this.auditPath, `${JSON.stringify(entry)}\n`, 'utf-8');
+    } catch {
+      // The change itself is saved; the entry stays visible in memory
+    }
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const stored = JSON.parse(raw) as StoredFile;
+      for (const [name, value] of Object.entries(stored?.settings ?? {})) {
+        const key = settingKeys.find((k) => k === name);
+        if (!key || value === undefined) continue;
+        // Re-validate: the file may have been edited by hand
+        const input = value === null ? '' : String(value as string | number);
+        this.overrides.set(key, configField(key).parse(input));
+      }
+    } catch {
+      this.overrides.clear();
+      this.bus.emit({
+        type: 'status',
+        level: 'warn',
+        message: `Settings: cannot read ${this.filePath}, using env values`,
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  private loadAudit() {
+    if (!this.auditPath || !fs.existsSync(this.auditPath)) return;
+    try {
+      const lines = fs
+        .readFileSync(this.auditPath, 'utf-8')
+        .split('\n')
+        .filter(Boolean)
+        .slice(-AUDIT_LIMIT);
+      for (const line of lines) {
+        try {
+          this.audit.push(JSON.parse(line) as SettingsAuditEntry);
+        } catch {
+          // Skip a torn last line
+        }
+      }
+    } catch {
+      // Start with an empty trail; new entries are still appended
+    }
+  }
+
+  private save() {
+    if (!this.filePath) return;
+    fs.writeFileSync(
+      this.filePath,
+      JSON.stringify({ settings: Object.fromEntries(this.overrides) }, null, 2),
+      'utf-8',
+    );
+  }
+}
@@ -0,0 +1,251 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { EventBus, StreamEvent } from './event-bus';
+import { AvitoWatcherService } from './avito.watcher.service';
+import { TelegramRelayService } from './telegram-relay.service';
+import { ConfigService } from './config.service';
+
+type ApiCall = { method: string; params: Record<string, unknown> };
+
+/** Minimal Bot API: records calls, hands out queued updates to getUpdates. */
+function startMockBotApi() {
+  const calls: ApiCall[] = [];
+  const updates: unknown[] = [];
+  let nextMessageId = 100;
+  // sendMessage calls left to leave without an answer
+  let hanging = 0;
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+    req.on('end', () => {
+      const method = (req.url ?? '').split('/').pop() ?? '';
+      const params = JSON.parse(raw || '{}') as Record<string, unknown>;
+      const reply = (result: unknown) => {
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ ok: true, result }));
+      };
+
+      if (method === 'getUpdates') {
+        // Short long-poll so the relay keeps asking
+        setTimeout(() => reply(updates.splice(0)), 20);
+        return;
+      }
+      calls.push({ method, params });
+      if (hanging > 0) {
+        hanging--;
+        return;
+      }
+      reply({
+        message_id: nextMessageId++,
+        chat: { id: params.chat_id },
+        text: params.text,
+      });
+    });
+  });
+
+  return new Promise<{
+    url: string;
+    calls: ApiCall[];
+    updates: unknown[];
+    hang: (count: number) => void;
+    close: () => Promise<void>;
+  }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        calls,
+        updates,
+        hang: (count) => (hanging = count),
+        close: () =>
+          new Promise((done) => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 2000) {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+const incoming: StreamEvent = {
+  type: 'message',
+  channelId: 'u2i-aBc123',
+  messageId: 'm-1',
+  direction: 'incoming',
+  from: 'Рушан',
+  text: 'Ещё актуально?',
+  attachments: [],
+  at: '2025-10-14T06:12:00.000Z',
+};
+
+describe('TelegramRelayService', () => {
+  let api: Awaited<ReturnType<typeof startMockBotApi>>;
+  let bus: EventBus;
+  let sendMessage: jest.Mock;
+  let relay: TelegramRelayService;
+
+  beforeEach(async () => {
+    api = await startMockBotApi();
+    process.env.TELEGRAM_BOT_TOKEN = '123:abc';
+    process.env.TELEGRAM_CHAT_ID = '-100500';
+    process.env.TELEGRAM_API_BASE_URL = api.url;
+    process.env.TELEGRAM_POLL_TIMEOUT_S = '0';
+    process.env.TELEGRAM_TIMEOUT_MS = '200';
+
+    bus = new EventBus();
+    sendMessage = jest.fn().mockResolvedValue({
+      requestId: 'r-1',
+      channelId: incoming.channelId,
+      ok: true,
+      started: true,
+    });
+    const watcher = { sendMessage } as unknown as AvitoWatcherService;
+    relay = new TelegramRelayService(bus, watcher, new ConfigService());
+    relay.start();
+  });
+
+  afterEach(async () => {
+    await relay.stop();
+    await api.close();
+    delete process.env.TELEGRAM_BOT_TOKEN;
+    delete process.env.TELEGRAM_CHAT_ID;
+    delete process.env.TELEGRAM_API_BASE_URL;
+    delete process.env.TELEGRAM_POLL_TIMEOUT_S;
+    delete process.env.TELEGRAM_TIMEOUT_MS;
+    delete process.env.INBOX_FORWARD;
+  });
+
+  it('forwards incoming messages to the configured chat', async () => {
+    bus.emit({ ...incoming, direction: 'outgoing', text: 'Да' });
+    bus.emit(incoming);
+    await waitFor(() => api.calls.length > 0);
+
+    expect(api.calls).toEqual([
+      {
+        method: 'sendMessage',
+        params: expect.objectContaining({
+          chat_id: '-100500',
+          text: '💬 Рушан · u2i-aBc123\nЕщё актуально?',
+        }) as unknown,
+      },
+    ]);
+  });
+
+  it('moves on when a Bot API request gets no answer', async () => {
+    const statuses: string[] = [];
+    bus.events$.subscribe((evt) => {
+      if (evt.type === 'status') statuses.push(evt.message);
+    });
+    api.hang(1);
+
+    bus.emit({ ...incoming, text: 'Первое' });
+    bus.emit({ ...incoming, text: 'Второе' });
+    await waitFor(() => api.calls.length > 1);
+
+    expect(statuses).toContain(
+      'Telegram relay: Telegram sendMessage: no response in 200ms',
+    );
+    expect(api.calls[1].params.text).toBe('💬 Рушан · u2i-aBc123\nВторое');
+  });
+
+  it('names the listing of the chat', async () => {
+    bus.emit({
+      ...incoming,
+      listing: {
+        itemId: '3456789012',
+        title: 'Велосипед Stels Navigator 700',
+        price: '12 000 ₽',
+        priceValue: 12000,
+        url: 'https://www.avito.ru/kazan/velosipedy/velosiped_stels_navigator_700_3456789012',
+        imageUrl: null,
+      },
+    });
+    await waitFor(() => api.calls.length > 0);
+
+    expect(api.calls[0].params.text).toBe(
+      '💬 Рушан · u2i-aBc123\n📦 Велосипед Stels Navigator 700 · 12 000 ₽\nЕщё актуально?',
+    );
+  });
+
+  it('sends replies to a forwarded message back into the Avito chat', async () => {
+    bus.emit(incoming);
+    await waitFor(() => api.calls.length === 1);
+
+    api.updates.push(
+      {
+        update_id: 7,
+        message: {
+          message_id: 300,
+          chat: { id: -100500 },
+          text: 'Да, актуально',
+          reply_to_message: { message_id: 100 },
+        },
+      },
+      // Not a reply, or not from the relay chat: ignored
+      {
+        update_id: 8,
+        message: { message_id: 301, chat: { id: -100500 }, text: 'Привет' },
+      },
+      {
+        update_id: 9,
+        message: {
+          message_id: 302,
+          chat: { id: 42 },
+          text: 'Чужой',
+          reply_to_message: { message_id: 100 },
+        },
+      },
+    );
+    await waitFor(() => api.calls.length === 2);
+
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage).toHaveBeenCalledWith('u2i-aBc123', 'Да, актуально');
+    expect(api.calls[1].params).toMatchObject({
+      chat_id: '-100500',
+      text: '✅ Sent',
+      reply_to_message_id: 300,
+    });
+  });
+
+  it('posts inbox dialogs only with INBOX_FORWARD', async () => {
+    const dialog: StreamEvent = {
+      type: 'dialog_updated',
+      channelId: 'u2i-nEw456',
+      url: 'https://www.avito.ru/profile/messenger/channel/u2i-nEw456',
+      name: 'Ольга',
+      itemTitle: 'Детская коляска Cybex',
+      snippet: 'А торг возможен?',
+      unread: 2,
+      isNew: true,
+      autoBound: false,
+      at: '2025-10-14T06:12:00.000Z',
+    };
+    bus.emit(dialog);
+
+    await relay.stop();
+    process.env.INBOX_FORWARD = 'true';
+    const watcher = { sendMessage } as unknown as AvitoWatcherService;
+    relay = new TelegramRelayService(bus, watcher, new ConfigService());
+    relay.start();
+    bus.emit(dialog);
+    await waitFor(() => api.calls.length > 0);
+
+    expect(api.calls.map((c) => c.params.text)).toEqual([
+      [
+        '🆕 New dialog · Ольга · u2i-nEw456',
+        '📦 Детская коляска Cybex',
+        'А торг возможен?',
+        'https://www.avito.ru/profile/messenger/channel/u2i-nEw456',
+      ].join('\n'),
+    ]);
+  });
+});
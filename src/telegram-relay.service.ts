@@ -0,0 +1,310 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { EventBus, StreamEvent } from './event-bus';
+import { AvitoWatcherService } from './avito.watcher.service';
+import { ConfigService } from './config.service';
+
+type MessageEvent = Extract<StreamEvent, { type: 'message' }>;
+type DialogEvent = Extract<StreamEvent, { type: 'dialog_updated' }>;
+
+type TelegramMessage = {
+  message_id: number;
+  chat: { id: number | string };
+  text?: string;
+  reply_to_message?: { message_id: number };
+};
+
+type TelegramUpdate = {
+  update_id: number;
+  message?: TelegramMessage;
+};
+
+type TelegramResponse<T> = {
+  ok: boolean;
+  result?: T;
+  description?: string;
+  parameters?: { retry_after?: number };
+};
+
+/** How many forwarded posts are remembered for routing replies. */
+const FORWARDED_LIMIT = 1000;
+const POLL_RETRY_MS = 5000;
+const MAX_SEND_ATTEMPTS = 3;
+
+class TelegramApiError extends Error {
+  constructor(
+    readonly method: string,
+    readonly description: string,
+    readonly retryAfter?: number,
+  ) {
+    super(`Telegram ${method}: ${description}`);
+  }
+}
+
+/**
+ * Telegram relay: incoming Avito messages are posted to TELEGRAM_CHAT_ID by the
+ * bot TELEGRAM_BOT_TOKEN, and a Telegram reply to one of those posts is sent
+ * back into the Avito chat it came from. With INBOX_FORWARD, updates of
+ * dialogs outside the bound chats are posted as well.
+ *
+ * Updates are read with `getUpdates` long polling, so no public URL is needed.
+ * TELEGRAM_API_BASE_URL points the relay at another Bot API server (a local
+ * mock in tests); requests that get no answer in TELEGRAM_TIMEOUT_MS fail.
+ */
+@Injectable()
+export class TelegramRelayService implements OnModuleInit, OnModuleDestroy {
+  private readonly token: string;
+  private readonly chatId: string;
+  private readonly baseUrl: string;
+  private readonly pollTimeoutS: number;
+  private readonly timeoutMs: number;
+  private readonly forwardDialogs: boolean;
+
+  // Telegram message ID of a forwarded post → Avito channel it came from
+  private readonly forwarded = new Map<number, string>();
+  private subscription: Subscription | null = null;
+  private sendQueue: Promise<unknown> = Promise.resolve();
+  private polling: AbortController | null = null;
+  private pollLoop: Promise<void> | null = null;
+  private offset = 0;
+
+  constructor(
+    private readonly bus: EventBus,
+    private readonly watcher: AvitoWatcherService,
+    private readonly config: ConfigService,
+  ) {
+    const telegram = config.get('telegram');
+    this.token = telegram.botToken ?? '';
+    this.chatId = telegram.chatId ?? '';
+    this.baseUrl = (telegram.apiBaseUrl ?? '').replace(/\/+$/, '');
+    this.pollTimeoutS = telegram.pollTimeoutS;
+    this.timeoutMs = telegram.timeoutMs;
+    this.forwardDialogs = config.get('inbox').forward;
+  }
+
+  onModuleInit() {
+    if (this.config.isTest) return;
+    this.start();
+  }
+
+  async onModuleDestroy() {
+    await this.stop();
+  }
+
+  get enabled(): boolean {
+    return Boolean(this.token && this.chatId);
+  }
+
+  start() {
+    if (this.subscription) return;
+    if (!this.enabled) {
+      if (this.token || this.chatId) {
+        this.status(
+          'warn',
+          'Telegram relay disabled: set both TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID',
+        );
+      }
+      return;
+    }
+
+    this.subscription = this.bus.events$.subscribe((evt) => {
+      if (evt.type === 'message' && evt.direction === 'incoming') {
+        this.enqueue(() =>
+          this.forward(evt.channelId, this.formatMessage(evt)),
+        );
+      }
+      if (evt.type === 'dialog_updated' && this.forwardDialogs) {
+        this.enqueue(() => this.forward(evt.channelId, this.formatDialog(evt)));
+      }
+    });
+    this.polling = new AbortController();
+    this.pollLoop = this.poll(this.polling.signal);
+    this.status('info', `Telegram relay started for chat ${this.chatId}`);
+  }
+
+  async stop() {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+    this.polling?.abort();
+    this.polling = null;
+    await this.pollLoop;
+    this.pollLoop = null;
+    await this.sendQueue;
+  }
+
+  private async forward(channelId: string, text: string) {
+    const sent = await this.call<TelegramMessage>('sendMessage', {
+      chat_id: this.chatId,
+      text,
+      disable_web_page_preview: true,
+    });
+
+    this.forwarded.set(sent.message_id, channelId);
+    if (this.forwarded.size > FORWARDED_LIMIT) {
+      const [oldest] = this.forwarded.keys();
+      this.forwarded.delete(oldest);
+    }
+  }
+
+  private formatMessage(evt: MessageEvent): string {
+    const lines = [`💬 ${evt.from || 'Avito'} · ${evt.channelId}`];
+    if (evt.listing) {
+      const price = evt.listing.price ? ` · ${evt.listing.price}` : '';
+      lines.push(`📦 ${evt.listing.title}${price}`);
+    }
+    if (evt.text) lines.push(evt.text);
+    for (const a of evt.attachments) {
+      const link = a.sourceUrl ?? a.url;
+      lines.push(`📎 ${a.name ?? a.type}${link ? `: ${link}` : ''}`);
+    }
+    return lines.join('\n');
+  }
+
+  private formatDialog(evt: DialogEvent): string {
+    const head = evt.isNew ? '🆕 New dialog' : `📨 Unread: ${evt.unread}`;
+    const lines = [`${head} · ${evt.name || 'Avito'} · ${evt.channelId}`];
+    if (evt.itemTitle) lines.push(`📦 ${evt.itemTitle}`);
+    if (evt.snippet) lines.push(evt.snippet);
+    lines.push(evt.url);
+    return lines.join('\n');
+  }
+
+  private async poll(signal: AbortSignal) {
+    let failing = false;
+    while (!signal.aborted) {
+      try {
+        const updates = await this.call<TelegramUpdate[]>(
+          'getUpdates',
+          {
+            offset: this.offset,
+            timeout: this.pollTimeoutS,
+            allowed_updates: ['message'],
+          },
+          signal,
+        );
+        failing = false;
+        for (const update of updates) {
+          this.offset = Math.max(this.offset, update.update_id + 1);
+          if (update.message) this.handleMessage(update.message);
+        }
+      } catch (e: unknown) {
+        if (signal.aborted) return;
+        if (!failing) {
+          const message = e instanceof Error ? e.message : String(e);
+          this.status('warn', `Telegram polling failed: ${message}`);
+        }
+        failing = true;
+        await delay(POLL_RETRY_MS, signal);
+      }
+    }
+  }
+
+  private handleMessage(msg: TelegramMessage) {
+    if (String(msg.chat.id) !== this.chatId) return;
+    const replyTo = msg.reply_to_message?.message_id;
+    const channelId = replyTo ? this.forwarded.get(replyTo) : undefined;
+    const text = msg.text?.trim();
+    if (!channelId || !text) return;
+
+    void this.watcher.sendMessage(channelId, text).then((result) =>
+      this.enqueue(() =>
+        this.call('sendMessage', {
+          chat_id: this.chatId,
+          text: result.ok ? '✅ Sent' : `❌ Not sent: ${result.error}`,
+          reply_to_message_id: msg.message_id,
+        }),
+      ),
+    );
+  }
+
+  /** Telegram calls that post into the chat go one by one, in event order. */
+  private enqueue(task: () => Promise<unknown>) {
+    this.sendQueue = this.sendQueue
+      .then(() => this.withRetry(task))
+      .catch((e: unknown) => {
+        const message = e instanceof Error ? e.message : String(e);
+        this.status('warn', `Telegram relay: ${message}`);
+      });
+  }
+
+  private async withRetry(task: () => Promise<unknown>) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await task();
+      } catch (e: unknown) {
+        if (
+          !(e instanceof TelegramApiError) ||
+          e.retryAfter === undefined ||
+          attempt >= MAX_SEND_ATTEMPTS
+        ) {
+          throw e;
+        }
+        // 429 Too Many Requests tells how long to wait
+        await delay(e.retryAfter * 1000);
+      }
+    }
+  }
+
+  private async call<T>(
+    method: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    // A hung request would stall the send queue; long polls are held open
+    // by the server on purpose, so they get the poll timeout on top
+    const timeoutMs =
+      method === 'getUpdates'
+        ? this.pollTimeoutS * 1000 + this.timeoutMs
+        : this.timeoutMs;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}/bot${this.token}/${method}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(params),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (e) {
+      if (timeout.aborted && !signal?.aborted) {
+        throw new TelegramApiError(method, `no response in ${timeoutMs}ms`);
+      }
+      throw e;
+    }
+    const body = (await res
+      .json()
+      .catch(() => null)) as TelegramResponse<T> | null;
+    if (!body?.ok) {
+      throw new TelegramApiError(
+        method,
+        body?.description ?? `HTTP ${res.status}`,
+        body?.parameters?.retry_after,
+      );
+    }
+    return body.result as T;
+  }
+
+  private status(level: 'info' | 'warn', message: string) {
+    this.bus.emit({
+      type: 'status',
+      level,
+      message,
+      at: new Date().toISOString(),
+    });
+  }
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    // The poll signal lives as long as the relay: do not leave listeners on it
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
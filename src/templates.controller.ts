@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RequireRole } from './auth.guard';
+import { replyVariableNames } from './reply-text';
+import { TemplatesService } from './templates.service';
+import type { ReplyTemplateInput } from './templates.service';
+
+@RequireRole('operator')
+@Controller('templates')
+export class TemplatesController {
+  constructor(private readonly templates: TemplatesService) {}
+
+  @Get()
+  list() {
+    return {
+      ok: true,
+      variables: replyVariableNames,
+      templates: this.templates.list(),
+    };
+  }
+
+  /** Adds a canned reply: `{ name, text }`, e.g. `"{name}, {item} ещё в продаже, {price}"`. */
+  @Post()
+  create(@Body() body: ReplyTemplateInput = {}) {
+    try {
+      return { ok: true, template: this.templates.create(body ?? {}) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, message };
+    }
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string) {
+    const template = this.templates.get(id);
+    if (!template) return { ok: false, id, message: 'Template not found' };
+    return { ok: true, template };
+  }
+
+  @Patch(':id')
+  update(@Param('id') id: string, @Body() body: ReplyTemplateInput = {}) {
+    try {
+      const template = this.templates.update(id, body ?? {});
+      if (!template) return { ok: false, id, message: 'Template not found' };
+      return { ok: true, template };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, id, message };
+    }
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string) {
+    if (!this.templates.remove(id)) {
+      return { ok: false, id, message: 'Template not found' };
+    }
+    return { ok: true, id };
+  }
+
+  /**
+   * The template filled for `?channelId=`, for the reply box. Variables the
+   * watcher has not read yet (chat not opened) come out empty.
+   */
+  @Get(':id/render')
+  render(@Param('id') id: string, @Query('channelId') channelId = '') {
+    const text = this.templates.render(id, channelId);
+    if (text === null) return { ok: false, id, message: 'Template not found' };
+    return {
+      ok: true,
+      id,
+      channelId: channelId || null,
+      variables: this.templates.variables(channelId),
+      text,
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AvitoWatcherService, ChatDetails } from './avito.watcher.service';
+import { ConfigService } from './config.service';
+import { EventBus, StreamEvent } from './event-bus';
+import { TemplatesService } from './templates.service';
+
+const details: ChatDetails = {
+  title: 'Рушан',
+  listing: {
+    itemId: '3456789012',
+    title: 'Велосипед Stels',
+    price: '12 000 ₽',
+    priceValue: 12000,
+    url: 'https://www.avito.ru/kazan/velosipedy/velosiped_stels_3456789012',
+    imageUrl: null,
+  },
+  readAt: '2025-10-14T06:12:00.000Z',
+};
+
+// Opened, but the listing card has not been read yet
+const untitled: ChatDetails = {
+  title: ' Ольга ',
+  listing: null,
+  readAt: '2025-10-14T06:20:00.000Z',
+};
+
+describe('TemplatesService', () => {
+  let bus: EventBus;
+  let service: TemplatesService;
+
+  const watcher = {
+    getChatDetails: (id: string) =>
+      ({ 'u2i-aBc123': details, 'u2i-nEw456': untitled })[id] ?? null,
+  } as unknown as AvitoWatcherService;
+  const create = () => new TemplatesService(bus, watcher, new ConfigService());
+
+  beforeEach(() => {
+    bus = new EventBus();
+    service = create();
+  });
+
+  it('fills the variables from the chat', () => {
+    const template = service.create({
+      name: 'Актуально',
+      text: '{name}, {item} ещё продаётся за {price}. {unknown}',
+    });
+
+    expect(service.render(template.id, 'u2i-aBc123')).toBe(
+      'Рушан, Велосипед Stels ещё продаётся за 12 000 ₽. {unknown}',
+    );
+    // A chat the watcher has not read leaves them empty
+    expect(service.render(template.id, 'u2i-other')).toBe(
+      ',  ещё продаётся за . {unknown}',
+    );
+    expect(service.render('missing', 'u2i-aBc123')).toBeNull();
+  });
+
+  it('renders what is known of a chat without listing details', () => {
+    const template = service.create({
+      name: 'Привет',
+      text: '{name}, здравствуйте! {item} {price}',
+    });
+
+    expect(service.variables('u2i-nEw456')).toEqual({
+      name: 'Ольга',
+      item: '',
+      price: '',
+    });
+    expect(service.render(template.id, 'u2i-nEw456')).toBe(
+      'Ольга, здравствуйте!',
+    );
+    expect(service.variables('u2i-other')).toEqual({
+      name: '',
+      item: '',
+      price: '',
+    });
+  });
+
+  it('validates, updates and removes templates', () => {
+    expect(() => service.create({ name: 'x', text: '  ' })).toThrow(
+      'text is required',
+    );
+    expect(() => service.create({ text: 'x' })).toThrow('name is required');
+
+    const b = service.create({ name: 'Б', text: 'один' });
+    service.create({ name: 'А', text: 'два' });
+    expect(service.list().map((t) => t.name)).toEqual(['А', 'Б']);
+
+    expect(service.update(b.id, { text: 'три' })).toMatchObject({
+      name: 'Б',
+      text: 'три',
+    });
+    expect(() => service.update(b.id, { name: '' })).toThrow();
+    expect(service.update('missing', { text: 'x' })).toBeNull();
+    expect(service.get(b.id)?.text).toBe('три');
+
+    expect(service.remove(b.id)).toBe(true);
+    expect(service.remove(b.id)).toBe(false);
+    expect(service.get(b.id)).toBeNull();
+  });
+
+  it('limits names and texts, trimmed', () => {
+    expect(() => service.create({ name: 'н'.repeat(101), text: 'x' })).toThrow(
+      'name is longer than 100 characters',
+    );
+    expect(() => service.create({ name: 'x', text: 'т'.repeat(4001) })).toThrow(
+      'text is longer than 4000 characters',
+    );
+    expect(() => service.create({ name: 42, text: 'x' })).toThrow(
+      'name is required',
+    );
+
+    const template = service.create({
+      name: ` ${'н'.repeat(100)} `,
+      text: `${'т'.repeat(4000)}\n`,
+    });
+    expect(template.name).toHaveLength(100);
+    expect(template.text).toHaveLength(4000);
+    expect(() =>
+      service.update(template.id, { text: 'т'.repeat(4001) }),
+    ).toThrow('text is longer than 4000 characters');
+    expect(service.get(template.id)?.text).toHaveLength(4000);
+  });
+
+  it('updates only the fields given', () => {
+    jest.useFakeTimers({ now: new Date('2025-10-14T06:00:00.000Z') });
+    const template = service.create({ name: 'Адрес', text: 'Казань' });
+
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    expect(service.update(template.id, { name: 'Где забрать' })).toEqual({
+      id: template.id,
+      name: 'Где забрать',
+      text: 'Казань',
+      createdAt: '2025-10-14T06:00:00.000Z',
+      updatedAt: '2025-10-14T07:00:00.000Z',
+    });
+    expect(service.update(template.id, {})).toMatchObject({
+      name: 'Где забрать',
+      text: 'Казань',
+    });
+    jest.useRealTimers();
+  });
+
+  describe('on disk', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-'));
+      file = path.join(dir, '.avito-templates.json');
+      jest.spyOn(process, 'cwd').mockReturnValue(dir);
+      jest
+        .spyOn(ConfigService.prototype, 'isTest', 'get')
+        .mockReturnValue(false);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('keeps the templates across restarts', () => {
+      const first = create();
+      const kept = first.create({ name: 'Актуально', text: 'Да, продаю' });
+      const dropped = first.create({ name: 'Торг', text: 'Без торга' });
+      first.update(kept.id, { text: 'Да, ещё продаю' });
+      first.remove(dropped.id);
+
+      const reloaded = create();
+      expect(reloaded.list()).toEqual([first.get(kept.id)]);
+      expect(reloaded.get(kept.id)?.text).toBe('Да, ещё продаю');
+      expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual({
+        templates: reloaded.list(),
+      });
+    });
+
+    it('skips malformed entries and fills missing dates', () => {
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          templates: [
+            {
+              id: 't-1',
+              name: 'Актуально',
+              text: 'Да, продаю',
+              createdAt: '2025-10-14T06:00:00.000Z',
+            },
+            { id: 't-2', name: 'Без текста' },
+            { name: 'Без id', text: 'x' },
+            null,
+            { id: 't-3', name: 'Старый', text: 'Без дат' },
+          ],
+        }),
+      );
+
+      expect(create().list()).toEqual([
+        {
+          id: 't-1',
+          name: 'Актуально',
+          text: 'Да, продаю',
+          createdAt: '2025-10-14T06:00:00.000Z',
+          updatedAt: '2025-10-14T06:00:00.000Z',
+        },
+        {
+          id: 't-3',
+          name: 'Старый',
+          text: 'Без дат',
+          createdAt: '1970-01-01T00:00:00.000Z',
+          updatedAt: '1970-01-01T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('starts empty and warns when the file cannot be read', () => {
+      fs.writeFileSync(file, '{"templates": [');
+      const statuses: StreamEvent[] = [];
+      bus.events$.subscribe((e) => statuses.push(e));
+
+      expect(create().list()).toEqual([]);
+      expect(statuses).toEqual([
+        expect.objectContaining({
+          type: 'status',
+          level: 'warn',
+          message: `Templates: cannot read ${file}, starting without templates`,
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventBus } from './event-bus';
+import { AvitoWatcherService } from './avito.watcher.service';
+import { ConfigService } from './config.service';
+import { ReplyVariables, renderReply, replyVariables } from './reply-text';
+
+export type ReplyTemplate = {
+  id: string;
+  name: string;
+  /** Text with `{name}`, `{item}` and `{price}` placeholders. */
+  text: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ReplyTemplateInput = {
+  name?: unknown;
+  text?: unknown;
+};
+
+type StoredFile = { templates?: Partial<ReplyTemplate>[] };
+
+const NAME_LIMIT = 100;
+const TEXT_LIMIT = 4000;
+
+/**
+ * Canned replies for operators (`/templates`), kept in `.avito-templates.json`.
+ * Placeholders are filled from the chat the reply goes to: its title is the
+ * other side's name, and its listing gives the item and price.
+ */
+@Injectable()
+export class TemplatesService {
+  private readonly filePath: string | null;
+  private readonly templates = new Map<string, ReplyTemplate>();
+
+  constructor(
+    private readonly bus: EventBus,
+    private readonly watcher: AvitoWatcherService,
+    config: ConfigService,
+  ) {
+    // In tests keep templates in memory only
+    this.filePath = config.isTest
+      ? null
+      : path.join(process.cwd(), '.avito-templates.json');
+
+    this.load();
+  }
+
+  /** Sorted by name. */
+  list(): ReplyTemplate[] {
+    return Array.from(this.templates.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  get(id: string): ReplyTemplate | null {
+    return this.templates.get(id) ?? null;
+  }
+
+  create(input: ReplyTemplateInput): ReplyTemplate {
+    const now = new Date().toISOString();
+    const template: ReplyTemplate = {
+      id: randomUUID(),
+      name: this.parseName(input.name),
+      text: this.parseText(input.text),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.templates.set(template.id, template);
+    this.save();
+    return template;
+  }
+
+  /** Partial update; null when the template does not exist. */
+  update(id: string, input: ReplyTemplateInput): ReplyTemplate | null {
+    const current = this.templates.get(id);
+    if (!current) return null;
+    const template: ReplyTemplate = {
+      ...current,
+      name:
+        input.name === undefined ? current.name : this.parseName(input.name),
+      text:
+        input.text === undefined ? current.text : this.parseText(input.text),
+      updatedAt: new Date().toISOString(),
+    };
+    this.templates.set(id, template);
+    this.save();
+    return template;
+  }
+
+  remove(id: string): boolean {
+    if (!this.templates.delete(id)) return false;
+    this.save();
+    return true;
+  }
+
+  /** Values for a chat, as far as the watcher has read it; empty otherwise. */
+  variables(channelId: string): ReplyVariables {
+    const details = this.watcher.getChatDetails(channelId);
+    return replyVariables(details?.title, details?.listing);
+  }
+
+  /** Template text filled for a chat; null for unknown templates. */
+  render(id: string, channelId: string): string | null {
+    const template = this.templates.get(id);
+    if (!template) return null;
+    return renderReply(template.text, this.variables(channelId));
+  }
+
+  private parseName(raw: unknown): string {
+    const name = typeof raw === 'string' ? raw.trim() : '';
+    if (!name) throw new Error('name is required');
+    if (name.length > NAME_LIMIT) {
+      throw new Error(`name is longer than ${NAME_LIMIT} characters`);
+    }
+    return name;
+  }
+
+  private parseText(raw: unknown): string {
+    const text = typeof raw === 'string' ? raw.trim() : '';
+    if (!text) throw new Error('text is required');
+    if (text.length > TEXT_LIMIT) {
+      throw new Error(`text is longer than ${TEXT_LIMIT} characters`);
+    }
+    return text;
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const stored = JSON.parse(raw) as StoredFile;
+      for (const item of stored?.templates ?? []) {
+        if (!item?.id || !item.name || !item.text) continue;
+        this.templates.set(item.id, {
+          id: item.id,
+          name: item.name,
+          text: item.text,
+          createdAt: item.createdAt ?? new Date(0).toISOString(),
+          updatedAt:
+            item.updatedAt ?? item.createdAt ?? new Date(0).toISOString(),
+        });
+      }
+    } catch {
+      this.bus.emit({
+        type: 'status',
+        level: 'warn',
+        message: `Templates: cannot read ${this.filePath}, starting without templates`,
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  private save() {
+    if (!this.filePath) return;
+    fs.writeFileSync(
+      this.filePath,
+      JSON.stringify(
+        { templates: Array.from(this.templates.values()) },
+        null,
+        2,
+      ),
+      'utf-8',
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { loadConfig } from './config.service';
+import { matchTunnelUrl, selectTunnelProvider } from './tunnel-providers';
+
+describe('selectTunnelProvider', () => {
+  const select = (env: Record<string, string>) =>
+    selectTunnelProvider(loadConfig(env));
+
+  it('infers the provider from the older switches in auto mode', () => {
+    expect(select({})).toBeNull();
+    expect(select({ PUBLIC_URL: 'https://a.example' })?.name).toBe('static');
+    expect(
+      select({ CLOUDPUB_ENABLED: 'true', PUBLIC_URL: 'https://a.example' })
+        ?.name,
+    ).toBe('cloudpub');
+    expect(
+      select({
+        CLOUDPUB_ENABLED: 'true',
+        TUNNEL_ENABLED: 'true',
+        TUNNEL_COMMAND: 'ssh -R 80:localhost:3000 tunnel.example',
+      })?.name,
+    ).toBe('command');
+  });
+
+  it('honours TUNNEL_PROVIDER and rejects missing settings', () => {
+    expect(
+      select({ TUNNEL_PROVIDER: 'none', CLOUDPUB_ENABLED: 'true' }),
+    ).toBeNull();
+    expect(
+      select({ TUNNEL_PROVIDER: 'cloudpub', PORT: '8080' })?.description,
+    ).toBe('cloudpub http 8080');
+    expect(() => select({ TUNNEL_PROVIDER: 'command' })).toThrow(
+      /TUNNEL_COMMAND/,
+    );
+    expect(() => select({ TUNNEL_PROVIDER: 'static' })).toThrow(/PUBLIC_URL/);
+  });
+});
+
+describe('tunnel URL parsing', () => {
+  it('finds cloudpub tunnel URLs but not links to its site', () => {
+    const cloudpub = selectTunnelProvider(
+      loadConfig({ TUNNEL_PROVIDER: 'cloudpub' }),
+    );
+
+    expect(cloudpub?.parseUrl('Docs: https://cloudpub.ru/docs')).toBeNull();
+    expect(
+      cloudpub?.parseUrl(
+        'http://localhost:3000 -> https://quick-fox.cloudpub.ru/',
+      ),
+    ).toBe('https://quick-fox.cloudpub.ru/');
+  });
+
+  it('filters by allowed hosts', () => {
+    const line = 'url=https://abc.trycloudflare.com ready';
+    expect(
+      matchTunnelUrl(line, /https:\/\/\S+/, ['abc.trycloudflare.com']),
+    ).toBe('https://abc.trycloudflare.com');
+    expect(matchTunnelUrl(line, /https:\/\/\S+/, ['other.example'])).toBeNull();
+  });
+});
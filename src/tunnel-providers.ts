@@ -0,0 +1,132 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import type { AppConfig } from './config.service';
+
+export type TunnelProviderName = 'cloudpub' | 'command' | 'static';
+
+export const tunnelProviderNames: readonly TunnelProviderName[] = [
+  'cloudpub',
+  'command',
+  'static',
+];
+
+/**
+ * Where the public URL comes from. Process providers start a tunnel client and
+ * find the URL in its output; the static one knows it up front.
+ */
+export type TunnelProvider = {
+  name: TunnelProviderName;
+  /** Command line or URL, for `/tunnel` and status messages. */
+  description: string;
+  /** Starts the tunnel client; null for providers without a process. */
+  spawn: (() => ChildProcessWithoutNullStreams) | null;
+  /** Public URL in a line of the client output, if there is one. */
+  parseUrl: (line: string) => string | null;
+  staticUrl: string | null;
+};
+
+const GENERIC_URL_RE = /https?:\/\/[^\s]+/;
+// cloudpub also prints links to its own site; only tunnel hosts count
+const CLOUDPUB_URL_RE =
+  /https:\/\/[a-z0-9-]+(\.[a-z0-9-]+)*\.cloudpub\.ru[^\s]*/i;
+
+/** First URL in `line` matching `regex`, when its host is allowed. */
+export function matchTunnelUrl(
+  line: string,
+  regex: RegExp,
+  allowedHosts: string[] = [],
+): string | null {
+  const url = regex.exec(line)?.[0];
+  if (!url) return null;
+  if (!allowedHosts.length) return url;
+  try {
+    return allowedHosts.includes(new URL(url).host) ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+export function cloudpubProvider(bin: string, port: number): TunnelProvider {
+  return {
+    name: 'cloudpub',
+    description: `${bin} http ${port}`,
+    spawn: () =>
+      spawn(bin, ['http', String(port)], {
+        env: process.env,
+        stdio: 'pipe',
+      }),
+    parseUrl: (line) => matchTunnelUrl(line, CLOUDPUB_URL_RE),
+    staticUrl: null,
+  };
+}
+
+export function commandProvider(
+  command: string,
+  urlRegex: RegExp | null,
+  allowedHosts: string[],
+): TunnelProvider {
+  return {
+    name: 'command',
+    description: command,
+    // Own process group, so stopping the shell also stops what it started
+    spawn: () =>
+      spawn(command, {
+        shell: true,
+        detached: true,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: process.env,
+      }),
+    parseUrl: (line) =>
+      matchTunnelUrl(line, urlRegex ?? GENERIC_URL_RE, allowedHosts),
+    staticUrl: null,
+  };
+}
+
+export function staticProvider(url: string): TunnelProvider {
+  return {
+    name: 'static',
+    description: url,
+    spawn: null,
+    parseUrl: () => null,
+    staticUrl: url,
+  };
+}
+
+/**
+ * The provider named by TUNNEL_PROVIDER. With `auto` it follows the older
+ * switches: TUNNEL_ENABLED + TUNNEL_COMMAND, then CLOUDPUB_ENABLED, then
+ * PUBLIC_URL. Null means no tunnel; throws when the chosen provider lacks
+ * its settings.
+ */
+export function selectTunnelProvider(
+  config: Pick<AppConfig, 'app' | 'tunnel' | 'cloudpub'>,
+): TunnelProvider | null {
+  const { app, tunnel, cloudpub } = config;
+  const command = () => {
+    if (!tunnel.command) {
+      throw new Error('TUNNEL_COMMAND is required for the command provider');
+    }
+    return commandProvider(tunnel.command, tunnel.urlRegex, tunnel.urlHosts);
+  };
+  const publicUrl = () => {
+    if (!app.publicUrl) {
+      throw new Error('PUBLIC_URL is required for the static provider');
+    }
+    return staticProvider(app.publicUrl);
+  };
+
+  switch (tunnel.provider) {
+    case 'none':
+      return null;
+    case 'command':
+      return command();
+    case 'cloudpub':
+      return cloudpubProvider(cloudpub.bin, app.port);
+    case 'static':
+      return publicUrl();
+    default:
+      if (tunnel.enabled && tunnel.command) return command();
+      if (cloudpub.enabled) return cloudpubProvider(cloudpub.bin, app.port);
+      if (app.publicUrl) return publicUrl();
+      return null;
+  }
+}
@@ -1,16 +1,24 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, Post } from '@nestjs/common';
+import { RequireRole } from './auth.guard';
 import { TunnelService } from './tunnel.service';
 
 @Controller('tunnel')
 export class TunnelController {
   constructor(private readonly tunnel: TunnelService) {}
 
+  /** Public URL plus the provider state: restarts, last exit and health. */
   @Get()
   getTunnel() {
-    const url = this.tunnel.getTunnelUrl();
-    if (!url) {
-      return { ok: false };
+    return { ok: true, ...this.tunnel.getStatus() };
+  }
+
+  /** Restarts the tunnel client right away, also after a crash loop. */
+  @Post('restart')
+  @RequireRole('operator')
+  restart() {
+    if (!this.tunnel.restart()) {
+      return { ok: false, message: 'No tunnel process to restart' };
     }
-    return { ok: true, url };
+    return { ok: true, ...this.tunnel.getStatus() };
   }
 }
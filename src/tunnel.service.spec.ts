@@ -0,0 +1,134 @@
+import { ConfigService } from './config.service';
+import { EventBus, StreamEvent } from './event-bus';
+import { MetricsService } from './metrics.service';
+import { SettingsService } from './settings.service';
+import { TunnelService } from './tunnel.service';
+
+describe('TunnelService', () => {
+  let events: StreamEvent[];
+  let tunnel: TunnelService;
+
+  const waitFor = async (check: () => boolean, ms = 4000) => {
+    const until = Date.now() + ms;
+    while (!check() && Date.now() < until) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  };
+
+  function create() {
+    const bus = new EventBus();
+    events = [];
+    bus.events$.subscribe((e) => events.push(e));
+    const config = new ConfigService();
+    tunnel = new TunnelService(
+      bus,
+      new MetricsService(),
+      config,
+      new SettingsService(bus, config),
+    );
+  }
+
+  afterEach(async () => {
+    await tunnel.onModuleDestroy();
+    for (const key of [
+      'TUNNEL_PROVIDER',
+      'TUNNEL_COMMAND',
+      'TUNNEL_RESTART_BASE_MS',
+      'TUNNEL_RESTART_LIMIT',
+      'TUNNEL_HEALTH_FAILURES',
+      'TUNNEL_HEALTH_INTERVAL_MS',
+      'PUBLIC_URL',
+    ]) {
+      delete process.env[key];
+    }
+  });
+
+  it('publishes a static PUBLIC_URL', () => {
+    process.env.PUBLIC_URL = 'https://avito.example';
+    create();
+    tunnel.start();
+
+    expect(tunnel.getStatus()).toMatchObject({
+      provider: 'static',
+      state: 'running',
+      url: 'https://avito.example',
+    });
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: 'tunnel_url',
+        url: 'https://avito.example',
+        previousUrl: null,
+      }),
+    );
+  });
+
+  it('restarts a client that exits, with backoff', async () => {
+    process.env.TUNNEL_PROVIDER = 'command';
+    process.env.TUNNEL_RESTART_BASE_MS = '100';
+    process.env.TUNNEL_COMMAND = `node -e "console.log('ready at https://t1.example'); setTimeout(() => process.exit(3), 50)"`;
+    create();
+    tunnel.start();
+
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+
+    const status = tunnel.getStatus();
+    expect(status.restarts).toBeGreaterThanOrEqual(1);
+    expect(status.lastExit).toMatchObject({ code: 3 });
+    const urls = events
+      .filter((e) => e.type === 'tunnel_url')
+      .map((e) => e.url);
+    expect(urls.slice(0, 2)).toEqual(['https://t1.example', null]);
+  });
+
+  it('gives up after the crash-loop limit until restarted by hand', async () => {
+    process.env.TUNNEL_PROVIDER = 'command';
+    process.env.TUNNEL_RESTART_BASE_MS = '100';
+    process.env.TUNNEL_RESTART_LIMIT = '2';
+    process.env.TUNNEL_COMMAND = `node -e "process.exit(1)"`;
+    create();
+    tunnel.start();
+
+    await waitFor(() => tunnel.getStatus().state === 'failed');
+
+    const status = tunnel.getStatus();
+    expect(status.state).toBe('failed');
+    expect(status.error).toMatch(/Crash loop: 2 restarts/);
+    expect(status.history.map((r) => [r.reason, r.delayMs])).toEqual([
+      ['exit', 200],
+      ['exit', 100],
+    ]);
+
+    expect(tunnel.restart()).toBe(true);
+    expect(tunnel.getStatus().state).toBe('starting');
+    expect(tunnel.getStatus().history[0]).toMatchObject({ reason: 'manual' });
+
+    // The manual restart starts a new window: the next exit is retried
+    await waitFor(() => tunnel.getStatus().history[0].reason === 'exit');
+    expect(tunnel.getStatus().state).not.toBe('failed');
+    expect(
+      tunnel.getStatus().history.map((r) => [r.reason, r.delayMs]),
+    ).toEqual([
+      ['exit', 100],
+      ['manual', 0],
+      ['exit', 200],
+      ['exit', 100],
+    ]);
+  });
+
+  it('restarts a client whose URL fails the health check', async () => {
+    process.env.TUNNEL_PROVIDER = 'command';
+    process.env.TUNNEL_HEALTH_FAILURES = '1';
+    process.env.TUNNEL_HEALTH_INTERVAL_MS = '1000';
+    // Nothing listens on port 9, so every check fails
+    process.env.TUNNEL_COMMAND = `node -e "console.log('ready at http://127.0.0.1:9'); setInterval(() => {}, 1000)"`;
+    create();
+    tunnel.start();
+
+    await waitFor(() => tunnel.getStatus().history.length > 0);
+
+    expect(tunnel.getStatus().history[0]).toMatchObject({
+      reason: 'health',
+      detail: expect.stringContaining('1 failed health checks') as string,
+    });
+  });
+});
@@ -1,89 +1,279 @@
 import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
-import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { ChildProcessWithoutNullStreams } from 'child_process';
 import { promises as fs } from 'fs';
 import * as readline from 'readline';
+import { Subscription } from 'rxjs';
 import { EventBus } from './event-bus';
+import { MetricsService, metricNames } from './metrics.service';
+import { ConfigService } from './config.service';
+import { SettingsService } from './settings.service';
+import {
+  TunnelProvider,
+  TunnelProviderName,
+  selectTunnelProvider,
+} from './tunnel-providers';
 
+/**
+ * disabled: no provider configured; starting: the client runs but has not
+ * printed a URL yet; running: the URL is known; backoff: the client exited
+ * and a restart is scheduled; failed: the provider cannot start at all, or
+ * it hit the crash-loop limit.
+ */
+export type TunnelState =
+  | 'disabled'
+  | 'starting'
+  | 'running'
+  | 'backoff'
+  | 'failed'
+  | 'stopped';
+
+export type TunnelRestartReason = 'exit' | 'health' | 'manual';
+
+export type TunnelRestart = {
+  at: string;
+  reason: TunnelRestartReason;
+  detail: string;
+  /** Backoff before the client was started again. */
+  delayMs: number;
+};
+
+/** Snapshot for GET /tunnel. */
+export type TunnelStatus = {
+  provider: TunnelProviderName | null;
+  description: string | null;
+  state: TunnelState;
+  url: string | null;
+  pid: number | null;
+  startedAt: string | null;
+  restarts: number;
+  lastExit: { code: number | null; signal: string | null; at: string } | null;
+  nextRestartAt: string | null;
+  error: string | null;
+  health: { ok: boolean; detail: string; checkedAt: string } | null;
+  /** Failed health checks in a row while running. */
+  healthFailures: number;
+  /** Most recent restarts first. */
+  history: TunnelRestart[];
+};
+
+// A client that stayed up this long counts as healthy; the backoff starts over
+const STABLE_RUN_MS = 60_000;
+const KILL_TIMEOUT_MS = 5000;
+const HISTORY_LIMIT = 20;
+
+// Signals the process group of a detached client, or just the client
+function signalClient(
+  child: ChildProcessWithoutNullStreams,
+  signal: NodeJS.Signals,
+) {
+  try {
+    if (child.pid !== undefined) {
+      process.kill(-child.pid, signal);
+      return;
+    }
+  } catch {
+    // Not a group leader
+  }
+  child.kill(signal);
+}
+
+/**
+ * Runs the public tunnel: one provider at a time (CloudPub, a generic
+ * command or a static PUBLIC_URL, see tunnel-providers.ts). Process providers
+ * are supervised: a client that exits or fails TUNNEL_HEALTH_FAILURES health
+ * checks in a row is restarted with exponential backoff, until
+ * TUNNEL_RESTART_LIMIT restarts within TUNNEL_RESTART_WINDOW_MS mark it as a
+ * crash loop. URL changes are published as `tunnel_url` events.
+ */
 @Injectable()
 export class TunnelService implements OnModuleInit, OnModuleDestroy {
+  private provider: TunnelProvider | null = null;
+  private state: TunnelState = 'disabled';
+  private error: string | null = null;
   private process: ChildProcessWithoutNullStreams | null = null;
   private stdoutRl: readline.Interface | null = null;
   private stderrRl: readline.Interface | null = null;
+  private startedAt: number | null = null;
+  private restarts = 0;
+  // Exits in a row that came before STABLE_RUN_MS; drives the backoff
+  private failures = 0;
+  private lastExit: TunnelStatus['lastExit'] = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private nextRestartAt: number | null = null;
   private healthTimer: NodeJS.Timeout | null = null;
   private shuttingDown = false;
   private lastHealthSummary: string | null = null;
+  private lastHealthOk: boolean | null = null;
+  private lastHealth: TunnelStatus['health'] = null;
+  private healthFailures = 0;
+  private readonly history: TunnelRestart[] = [];
+  // Why the running client is being killed, so its exit is not a crash
+  private recycling: { reason: TunnelRestartReason; detail: string } | null =
+    null;
   private tunnelUrl: string | null = null;
-  private readonly urlRegex: RegExp;
   private readonly urlFilePath: string | null;
-  private readonly allowedHosts: Set<string> | null;
+  private readonly settingsSubscription: Subscription;
 
-  constructor(private readonly bus: EventBus) {
-    const regexRaw = String(process.env.TUNNEL_URL_REGEX ?? '').trim();
-    this.urlRegex = regexRaw
-      ? new RegExp(regexRaw)
-      : /https?:\/\/[^\s]+/;
-    const urlFile = String(process.env.TUNNEL_URL_FILE ?? '').trim();
-    this.urlFilePath = urlFile || null;
-    const hostsRaw = String(process.env.TUNNEL_URL_HOSTS ?? '').trim();
-    this.allowedHosts = hostsRaw
-      ? new Set(hostsRaw.split(',').map((host) => host.trim()).filter(Boolean))
-      : null;
+  constructor(
+    private readonly bus: EventBus,
+    private readonly metrics: MetricsService,
+    private readonly config: ConfigService,
+    private readonly settings: SettingsService,
+  ) {
+    this.urlFilePath = config.get('tunnel').urlFile;
+    this.settingsSubscription = this.settings.changes$.subscribe(
+      ({ changes }) => {
+        const health = changes.some(
+          (c) =>
+            c.key === 'tunnelHealthUrl' || c.key === 'tunnelHealthIntervalMs',
+        );
+        if (health && !this.shuttingDown) this.restartHealthCheck();
+      },
+    );
   }
 
   onModuleInit() {
-    this.startTunnel();
-    this.startHealthCheck();
+    if (this.config.isTest) {
+      this.bus.emit({
+        type: 'status',
+        level: 'info',
+        message: 'Tunnel skipped in test environment.',
+        at: new Date().toISOString(),
+      });
+      return;
+    }
+    this.start();
   }
 
-  onModuleDestroy() {
+  async onModuleDestroy() {
     this.shuttingDown = true;
-    if (this.healthTimer) {
-      clearInterval(this.healthTimer);
-      this.healthTimer = null;
-    }
-    this.stdoutRl?.close();
-    this.stderrRl?.close();
-    if (this.process && !this.process.killed) {
-      this.process.kill('SIGTERM');
-    }
+    this.settingsSubscription.unsubscribe();
+    await this.stop();
   }
 
-  private startTunnel() {
-    const enabled = String(process.env.TUNNEL_ENABLED ?? 'false') === 'true';
-    if (!enabled) {
+  /** Picks the provider from the config and starts it with the health check. */
+  start() {
+    try {
+      this.provider = selectTunnelProvider({
+        app: this.config.get('app'),
+        tunnel: this.config.get('tunnel'),
+        cloudpub: this.config.get('cloudpub'),
+      });
+    } catch (e) {
+      this.state = 'failed';
+      this.error = e instanceof Error ? e.message : String(e);
       this.bus.emit({
         type: 'status',
-        level: 'info',
-        message: 'Tunnel disabled (TUNNEL_ENABLED=false).',
+        level: 'error',
+        message: `Tunnel not started: ${this.error}`,
         at: new Date().toISOString(),
       });
       return;
     }
 
-    const command = String(process.env.TUNNEL_COMMAND ?? '').trim();
-    if (!command) {
+    const provider = this.provider;
+    if (!provider) {
+      this.state = 'disabled';
       this.bus.emit({
         type: 'status',
-        level: 'warn',
-        message: 'Tunnel command not set (TUNNEL_COMMAND).',
+        level: 'info',
+        message:
+          'Tunnel disabled (TUNNEL_PROVIDER=none or nothing configured).',
         at: new Date().toISOString(),
       });
       return;
     }
 
+    if (provider.staticUrl) {
+      this.state = 'running';
+      this.setUrl(provider.staticUrl);
+    } else {
+      this.launch();
+    }
+    this.startHealthCheck();
+  }
+
+  /**
+   * Restarts the client now, without backoff; also the way out of a crash
+   * loop. False when the provider has no process.
+   */
+  restart(): boolean {
+    if (!this.provider?.spawn || this.shuttingDown) return false;
+    this.failures = 0;
+    const detail = 'requested by operator';
+    if (this.process) {
+      this.recycle('manual', detail);
+      return true;
+    }
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    this.error = null;
+    this.recordRestart('manual', detail, 0);
+    this.launch();
+    return true;
+  }
+
+  /** Stops the client and any pending restart. */
+  async stop() {
+    this.shuttingDown = true;
+    this.stopHealthCheck();
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    this.nextRestartAt = null;
+    if (this.process) await this.killProcess(this.process);
+    if (this.provider) this.state = 'stopped';
+  }
+
+  getStatus(): TunnelStatus {
+    const iso = (ms: number | null) => (ms ? new Date(ms).toISOString() : null);
+    return {
+      provider: this.provider?.name ?? null,
+      description: this.provider?.description ?? null,
+      state: this.state,
+      url: this.tunnelUrl,
+      pid: this.process?.pid ?? null,
+      startedAt: iso(this.startedAt),
+      restarts: this.restarts,
+      lastExit: this.lastExit,
+      nextRestartAt: iso(this.nextRestartAt),
+      error: this.error,
+      health: this.lastHealth,
+      healthFailures: this.healthFailures,
+      history: [...this.history].reverse(),
+    };
+  }
+
+  getTunnelUrl() {
+    return this.tunnelUrl;
+  }
+
+  private launch() {
+    const provider = this.provider;
+    if (!provider?.spawn || this.shuttingDown) return;
+
+    this.state = 'starting';
+    this.nextRestartAt = null;
+    this.healthFailures = 0;
     this.bus.emit({
       type: 'status',
       level: 'info',
-      message: `Tunnel starting: ${command}`,
+      message: `Tunnel starting (${provider.name}): ${provider.description}`,
       at: new Date().toISOString(),
     });
 
-    const child = spawn(command, {
-      shell: true,
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: process.env,
-    });
+    let child: ChildProcessWithoutNullStreams;
+    try {
+      child = provider.spawn();
+    } catch (e) {
+      this.handleExit(null, null, e instanceof Error ? e.message : String(e));
+      return;
+    }
     this.process = child;
+    this.startedAt = Date.now();
 
     this.stdoutRl = readline.createInterface({ input: child.stdout });
     this.stdoutRl.on('line', (line) => this.handleTunnelOutput('stdout', line));
@@ -98,25 +288,145 @@ export class TunnelService implements OnModuleInit, OnModuleDestroy {
         message: `Tunnel process error: ${err.message}`,
         at: new Date().toISOString(),
       });
+      // A client that never started (e.g. binary not found) emits no exit
+      if (child.pid === undefined && this.process === child) {
+        this.handleExit(null, null, err.message);
+      }
     });
 
     child.on('exit', (code, signal) => {
-      const detail = `code=${code ?? 'null'}, signal=${signal ?? 'null'}`;
-      if (this.shuttingDown) {
-        this.bus.emit({
-          type: 'status',
-          level: 'info',
-          message: `Tunnel stopped (${detail})`,
-          at: new Date().toISOString(),
-        });
-        return;
-      }
+      if (this.process !== child) return;
+      this.handleExit(code, signal, null);
+    });
+  }
+
+  private handleExit(
+    code: number | null,
+    signal: string | null,
+    error: string | null,
+  ) {
+    const ranMs = this.startedAt ? Date.now() - this.startedAt : 0;
+    const recycling = this.recycling;
+    this.recycling = null;
+    this.stdoutRl?.close();
+    this.stderrRl?.close();
+    this.stdoutRl = null;
+    this.stderrRl = null;
+    this.process = null;
+    this.startedAt = null;
+    this.lastExit = { code, signal, at: new Date().toISOString() };
+    this.error = error;
+    this.setUrl(null);
+
+    const detail =
+      error ?? `code=${code ?? 'null'}, signal=${signal ?? 'null'}`;
+    if (this.shuttingDown) {
       this.bus.emit({
         type: 'status',
-        level: 'error',
-        message: `Tunnel exited unexpectedly (${detail})`,
+        level: 'info',
+        message: `Tunnel stopped (${detail})`,
         at: new Date().toISOString(),
       });
+      return;
+    }
+
+    const reason = recycling?.reason ?? 'exit';
+    if (reason !== 'manual' && this.crashLooping()) return;
+
+    const { restartBaseMs, restartMaxMs } = this.config.get('tunnel');
+    let delay = 0;
+    if (reason !== 'manual') {
+      this.failures = ranMs >= STABLE_RUN_MS ? 1 : this.failures + 1;
+      delay = Math.min(restartBaseMs * 2 ** (this.failures - 1), restartMaxMs);
+    }
+    this.recordRestart(reason, recycling?.detail ?? detail, delay);
+    this.state = 'backoff';
+    this.nextRestartAt = Date.now() + delay;
+    const what =
+      reason === 'exit'
+        ? `exited unexpectedly (${detail})`
+        : `stopped for a restart (${recycling?.detail})`;
+    this.bus.emit({
+      type: 'status',
+      level: reason === 'exit' ? 'error' : 'warn',
+      message: `Tunnel ${what}, restarting in ${Math.round(delay / 1000)}s`,
+      at: new Date().toISOString(),
+    });
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.launch();
+    }, delay);
+    this.restartTimer.unref?.();
+  }
+
+  /**
+   * True (and the tunnel marked failed) once TUNNEL_RESTART_LIMIT automatic
+   * restarts happened within TUNNEL_RESTART_WINDOW_MS. Only restarts after the
+   * last manual one count, so a manual restart starts a new window.
+   */
+  private crashLooping(): boolean {
+    const { restartLimit, restartWindowMs } = this.config.get('tunnel');
+    const since = Date.now() - restartWindowMs;
+    let recent = 0;
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      const r = this.history[i];
+      if (r.reason === 'manual' || Date.parse(r.at) < since) break;
+      recent += 1;
+    }
+    if (recent < restartLimit) return false;
+
+    this.state = 'failed';
+    this.error = `Crash loop: ${recent} restarts within ${Math.round(restartWindowMs / 60000)} min`;
+    this.bus.emit({
+      type: 'status',
+      level: 'error',
+      message: `Tunnel gave up: ${this.error}. Restart it with POST /tunnel/restart.`,
+      at: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  private recordRestart(
+    reason: TunnelRestartReason,
+    detail: string,
+    delayMs: number,
+  ) {
+    this.restarts += 1;
+    this.history.push({
+      at: new Date().toISOString(),
+      reason,
+      detail,
+      delayMs,
+    });
+    if (this.history.length > HISTORY_LIMIT) this.history.shift();
+    this.metrics.inc(metricNames.tunnelRestarts, { reason });
+  }
+
+  // Kills the running client; its exit handler schedules the restart
+  private recycle(reason: TunnelRestartReason, detail: string) {
+    if (!this.process) return;
+    this.recycling = { reason, detail };
+    void this.killProcess(this.process);
+  }
+
+  // SIGTERM, then SIGKILL when the client ignores it
+  private killProcess(child: ChildProcessWithoutNullStreams): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const kill = setTimeout(
+        () => signalClient(child, 'SIGKILL'),
+        KILL_TIMEOUT_MS,
+      );
+      child.once('exit', () => {
+        clearTimeout(kill);
+        resolve();
+      });
+      if (child.exitCode !== null || child.signalCode !== null) {
+        clearTimeout(kill);
+        resolve();
+        return;
+      }
+      signalClient(child, 'SIGTERM');
     });
   }
 
@@ -131,32 +441,45 @@ export class TunnelService implements OnModuleInit, OnModuleDestroy {
       at: new Date().toISOString(),
     });
 
-    const match = message.match(this.urlRegex);
-    if (match?.[0]) {
-      const url = match[0];
-      if (!this.isAllowedHost(url)) return;
-      if (url !== this.tunnelUrl) {
-        this.tunnelUrl = url;
-        void this.persistUrl(url);
-        this.bus.emit({
-          type: 'status',
-          level: 'info',
-          message: `Tunnel URL detected: ${url}`,
-          at: new Date().toISOString(),
-        });
-      }
+    const url = this.provider?.parseUrl(message);
+    if (!url) return;
+    this.state = 'running';
+    this.setUrl(url);
+  }
+
+  private setUrl(url: string | null) {
+    if (url === this.tunnelUrl) return;
+    const previousUrl = this.tunnelUrl;
+    this.tunnelUrl = url;
+    if (url) {
+      void this.persistUrl(url);
+      this.bus.emit({
+        type: 'status',
+        level: 'info',
+        message: `Tunnel URL detected: ${url}`,
+        at: new Date().toISOString(),
+      });
     }
+    this.bus.emit({
+      type: 'tunnel_url',
+      provider: this.provider?.name ?? 'static',
+      url,
+      previousUrl,
+      at: new Date().toISOString(),
+    });
   }
 
+  // Probes TUNNEL_HEALTH_URL, or the detected URL of a tunnel client
   private startHealthCheck() {
-    const healthUrl = String(process.env.TUNNEL_HEALTH_URL ?? '').trim();
-    if (!healthUrl) return;
-
-    const intervalMs = Number(process.env.TUNNEL_HEALTH_INTERVAL_MS ?? 30000);
-    const timeoutMs = Number(process.env.TUNNEL_HEALTH_TIMEOUT_MS ?? 5000);
+    const { tunnelHealthUrl: healthUrl, tunnelHealthIntervalMs: intervalMs } =
+      this.settings.get();
+    const timeoutMs = this.config.get('tunnel').healthTimeoutMs;
+    if (!healthUrl && !this.provider?.spawn) return;
 
     const runCheck = () => {
-      this.checkHealth(healthUrl, timeoutMs).catch((err) => {
+      const url = healthUrl ?? this.tunnelUrl;
+      if (!url) return;
+      this.checkHealth(url, timeoutMs).catch((err) => {
         const message = err instanceof Error ? err.message : String(err);
         this.emitHealthStatus(false, `health-check error: ${message}`);
       });
@@ -167,12 +490,31 @@ export class TunnelService implements OnModuleInit, OnModuleDestroy {
     this.healthTimer.unref?.();
   }
 
+  private stopHealthCheck() {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  // Health URL or interval changed in settings: the next summary is reported afresh
+  private restartHealthCheck() {
+    this.stopHealthCheck();
+    this.lastHealthOk = null;
+    this.lastHealthSummary = null;
+    this.lastHealth = null;
+    this.startHealthCheck();
+  }
+
   private async checkHealth(url: string, timeoutMs: number) {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
-      const response = await fetch(url, { method: 'HEAD', signal: controller.signal });
+      const response = await fetch(url, {
+        method: 'HEAD',
+        signal: controller.signal,
+      });
       const summary = `status ${response.status}`;
       this.emitHealthStatus(response.ok, summary);
     } catch (err) {
@@ -184,6 +526,13 @@ export class TunnelService implements OnModuleInit, OnModuleDestroy {
   }
 
   private emitHealthStatus(ok: boolean, detail: string) {
+    if (this.lastHealthOk !== null && this.lastHealthOk !== ok) {
+      this.metrics.inc(metricNames.tunnelFlips, { to: ok ? 'up' : 'down' });
+    }
+    this.lastHealthOk = ok;
+    this.lastHealth = { ok, detail, checkedAt: new Date().toISOString() };
+    this.superviseHealth(ok, detail);
+
     const summary = `${ok ? 'ok' : 'fail'}: ${detail}`;
     if (summary === this.lastHealthSummary) return;
     this.lastHealthSummary = summary;
@@ -195,18 +544,17 @@ export class TunnelService implements OnModuleInit, OnModuleDestroy {
     });
   }
 
-  getTunnelUrl() {
-    return this.tunnelUrl;
-  }
-
-  private isAllowedHost(url: string) {
-    if (!this.allowedHosts || this.allowedHosts.size === 0) return true;
-    try {
-      const host = new URL(url).host;
-      return this.allowedHosts.has(host);
-    } catch {
-      return false;
+  // Restarts a running client after too many failed checks in a row
+  private superviseHealth(ok: boolean, detail: string) {
+    if (ok || this.state !== 'running') {
+      this.healthFailures = 0;
+      return;
     }
+    this.healthFailures += 1;
+    const limit = this.config.get('tunnel').healthFailures;
+    if (this.healthFailures < limit || !this.process) return;
+    this.healthFailures = 0;
+    this.recycle('health', `${limit} failed health checks, last: ${detail}`);
   }
 
   private async persistUrl(url: string) {
@@ -0,0 +1,51 @@
+import { WatcherStateMachine, WatcherTransition } from './watcher-state';
+
+describe('WatcherStateMachine', () => {
+  it('walks the normal start-up path and reports each move', () => {
+    const moves: WatcherTransition[] = [];
+    const state = new WatcherStateMachine((t) => moves.push(t));
+
+    state.transition('starting_browser');
+    state.transition('auth');
+    state.transition('opening_chat', 'no chats bound');
+    state.transition('watching');
+
+    expect(state.phase).toBe('watching');
+    expect(moves.map((m) => [m.previous, m.phase])).toEqual([
+      ['idle', 'starting_browser'],
+      ['starting_browser', 'auth'],
+      ['auth', 'opening_chat'],
+      ['opening_chat', 'watching'],
+    ]);
+    expect(moves[2].reason).toBe('no chats bound');
+  });
+
+  it('ignores moves to the current phase', () => {
+    const moves: WatcherTransition[] = [];
+    const state = new WatcherStateMachine((t) => moves.push(t));
+
+    expect(state.transition('starting_browser')).toBe(true);
+    expect(state.transition('starting_browser')).toBe(false);
+    expect(moves).toHaveLength(1);
+  });
+
+  it('rejects moves the table does not allow', () => {
+    const state = new WatcherStateMachine();
+
+    expect(state.can('watching')).toBe(false);
+    expect(() => state.transition('watching')).toThrow(
+      'Invalid watcher transition idle → watching',
+    );
+    expect(state.phase).toBe('idle');
+  });
+
+  it('keeps the reason of an error backoff', () => {
+    const state = new WatcherStateMachine();
+    state.transition('starting_browser');
+    state.transition('error_backoff', 'Failed to launch the browser process');
+
+    expect(state.reason).toBe('Failed to launch the browser process');
+    expect(state.can('starting_browser')).toBe(true);
+    expect(state.can('watching')).toBe(false);
+  });
+});
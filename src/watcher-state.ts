@@ -0,0 +1,105 @@
+/**
+ * Phases of the watcher run loop:
+ * idle → starting_browser → auth → opening_chat ⇄ watching, with paused and
+ * error_backoff on the side and stopped at shutdown.
+ */
+export type WatcherPhase =
+  | 'idle'
+  | 'starting_browser'
+  | 'auth'
+  | 'opening_chat'
+  | 'watching'
+  | 'paused'
+  | 'error_backoff'
+  | 'stopped';
+
+export const watcherTransitions: Record<WatcherPhase, WatcherPhase[]> = {
+  idle: ['starting_browser', 'stopped'],
+  starting_browser: ['auth', 'error_backoff', 'stopped'],
+  auth: [
+    'opening_chat',
+    'paused',
+    'starting_browser',
+    'error_backoff',
+    'stopped',
+  ],
+  opening_chat: [
+    'watching',
+    'paused',
+    'starting_browser',
+    'error_backoff',
+    'stopped',
+  ],
+  watching: [
+    'opening_chat',
+    'paused',
+    'starting_browser',
+    'error_backoff',
+    'stopped',
+  ],
+  paused: [
+    'opening_chat',
+    'watching',
+    'starting_browser',
+    'error_backoff',
+    'stopped',
+  ],
+  error_backoff: ['starting_browser', 'stopped'],
+  stopped: [],
+};
+
+export type WatcherTransition = {
+  phase: WatcherPhase;
+  previous: WatcherPhase;
+  reason: string | null;
+  at: string;
+};
+
+/**
+ * Current phase plus when and why it was entered. Moving to the same phase is
+ * a no-op; a move the table does not allow throws, as it means the run loop
+ * lost track of itself.
+ */
+export class WatcherStateMachine {
+  private current: WatcherPhase = 'idle';
+  private enteredAt = new Date().toISOString();
+  private lastReason: string | null = null;
+
+  constructor(
+    private readonly onTransition: (t: WatcherTransition) => void = () =>
+      undefined,
+  ) {}
+
+  get phase(): WatcherPhase {
+    return this.current;
+  }
+
+  get since(): string {
+    return this.enteredAt;
+  }
+
+  get reason(): string | null {
+    return this.lastReason;
+  }
+
+  can(next: WatcherPhase): boolean {
+    return (
+      next === this.current || watcherTransitions[this.current].includes(next)
+    );
+  }
+
+  /** Returns false when already in `next`. */
+  transition(next: WatcherPhase, reason: string | null = null): boolean {
+    if (next === this.current) return false;
+    if (!this.can(next)) {
+      throw new Error(`Invalid watcher transition ${this.current} → ${next}`);
+    }
+
+    const previous = this.current;
+    this.current = next;
+    this.enteredAt = new Date().toISOString();
+    this.lastReason = reason;
+    this.onTransition({ phase: next, previous, reason, at: this.enteredAt });
+    return true;
+  }
+}
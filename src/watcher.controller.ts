@@ -0,0 +1,69 @@
+import { Body, Controller, Get, Post } from '@nestjs/common';
+import { RequireRole } from './auth.guard';
+import { AvitoWatcherService, messageSources } from './avito.watcher.service';
+
+type ReopenRequest = { channelId?: string };
+
+type ModeRequest = { mode?: string };
+
+@Controller('watcher')
+export class WatcherController {
+  constructor(private readonly watcher: AvitoWatcherService) {}
+
+  /** Run loop phase, pause flag, message source and per-chat states. */
+  @Get('state')
+  state() {
+    return { ok: true, ...this.watcher.getState() };
+  }
+
+  @RequireRole('operator')
+  @Post('pause')
+  pause() {
+    const changed = this.watcher.pause();
+    return { ok: true, changed, ...this.watcher.getState() };
+  }
+
+  @RequireRole('operator')
+  @Post('resume')
+  resume() {
+    const changed = this.watcher.resume();
+    return { ok: true, changed, ...this.watcher.getState() };
+  }
+
+  /** Closes the browser and starts a new one (cookies and profile are kept). */
+  @RequireRole('operator')
+  @Post('restart')
+  async restart() {
+    if (!(await this.watcher.restart())) {
+      return { ok: false, message: 'Watcher is not running' };
+    }
+    return { ok: true };
+  }
+
+  /** Re-opens one bound chat (`{ channelId }`) or all of them. */
+  @RequireRole('operator')
+  @Post('reopen')
+  async reopen(@Body() body: ReopenRequest = {}) {
+    const channelId = String(body?.channelId ?? '').trim() || undefined;
+    const reopened = await this.watcher.reopenChats(channelId);
+    if (!reopened) {
+      return { ok: false, channelId, message: 'Binding not found' };
+    }
+    return { ok: true, reopened };
+  }
+
+  /** Switches the message source (`network` | `observer` | `polling`) until the next start. */
+  @RequireRole('operator')
+  @Post('mode')
+  async mode(@Body() body: ModeRequest = {}) {
+    const mode = messageSources.find((m) => m === body?.mode);
+    if (!mode) {
+      return {
+        ok: false,
+        message: `mode must be one of: ${messageSources.join(', ')}`,
+      };
+    }
+    await this.watcher.setMessageSource(mode);
+    return { ok: true, messageSource: mode };
+  }
+}
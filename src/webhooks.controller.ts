@@ -0,0 +1,58 @@
+import { Body, Controller, Delete, Get, Param, Post } from '@nestjs/common';
+import { RequireRole } from './auth.guard';
+import { WebhooksService } from './webhooks.service';
+
+type CreateWebhookRequest = {
+  url?: string;
+  events?: string[];
+  secret?: string;
+};
+
+// Subscriptions can route the whole stream anywhere, so they are operator-only
+@RequireRole('operator')
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooks: WebhooksService) {}
+
+  @Get()
+  list() {
+    return { ok: true, webhooks: this.webhooks.list() };
+  }
+
+  /**
+   * Subscribes a URL: `{ url, events?: ['message', 'status', 'delivery', 'watcher', 'auth_challenge', 'tunnel_url', 'dialog_updated'], secret? }`.
+   * The response is the only place the secret is shown.
+   */
+  @Post()
+  create(@Body() body: CreateWebhookRequest = {}) {
+    try {
+      return { ok: true, webhook: this.webhooks.create(body ?? {}) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, message };
+    }
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string) {
+    const webhook = this.webhooks.get(id);
+    if (!webhook) return { ok: false, id, message: 'Webhook not found' };
+    return { ok: true, webhook };
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string) {
+    if (!this.webhooks.remove(id)) {
+      return { ok: false, id, message: 'Webhook not found' };
+    }
+    return { ok: true, id };
+  }
+
+  /** Recent delivery attempts (newest first), kept in memory. */
+  @Get(':id/deliveries')
+  deliveries(@Param('id') id: string) {
+    const deliveries = this.webhooks.listDeliveries(id);
+    if (!deliveries) return { ok: false, id, message: 'Webhook not found' };
+    return { ok: true, id, deliveries };
+  }
+}
@@ -0,0 +1,115 @@
+import { ConfigService } from './config.service';
+import { EventBus, StreamEvent } from './event-bus';
+import {
+  SIGNATURE_HEADER,
+  WebhooksService,
+  signWebhookBody,
+} from './webhooks.service';
+
+const message: StreamEvent = {
+  type: 'message',
+  channelId: 'u2i-aBc123',
+  messageId: 'm-1',
+  direction: 'incoming',
+  from: 'Рушан',
+  text: 'Ещё актуально?',
+  attachments: [],
+  at: '2025-10-14T06:12:00.000Z',
+};
+
+describe('WebhooksService', () => {
+  let bus: EventBus;
+  let service: WebhooksService;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+    process.env.WEBHOOK_RETRY_BASE_MS = '1000';
+    fetchMock = jest.spyOn(global, 'fetch');
+    bus = new EventBus();
+    service = new WebhooksService(bus, new ConfigService());
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    fetchMock.mockRestore();
+    jest.useRealTimers();
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+    delete process.env.WEBHOOK_RETRY_BASE_MS;
+  });
+
+  it('posts events as JSON signed with the webhook secret', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+    const webhook = service.create({
+      url: 'https://example.test/hook',
+      secret: 's3cret',
+    });
+
+    bus.emit(message);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe('https://example.test/hook');
+    expect(init.body).toBe(JSON.stringify(message));
+    expect(headers[SIGNATURE_HEADER]).toBe(
+      signWebhookBody('s3cret', JSON.stringify(message)),
+    );
+    expect(service.listDeliveries(webhook.id)).toMatchObject([
+      { eventType: 'message', state: 'delivered', attempts: [{ status: 204 }] },
+    ]);
+  });
+
+  it('only delivers event types in the filter', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+    service.create({ url: 'https://example.test/hook', events: ['status'] });
+
+    bus.emit(message);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown event types', () => {
+    expect(() =>
+      service.create({ url: 'https://example.test/hook', events: ['chat'] }),
+    ).toThrow('Unknown event type: chat');
+  });
+
+  it('retries with exponential backoff, then gives up', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+    const webhook = service.create({ url: 'https://example.test/hook' });
+    const statuses: string[] = [];
+    bus.events$.subscribe((evt) => {
+      if (evt.type === 'status') statuses.push(evt.message);
+    });
+
+    bus.emit(message);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(service.listDeliveries(webhook.id)?.[0]).toMatchObject({
+      state: 'retrying',
+      attempts: [{ status: 503, error: 'HTTP 503' }],
+    });
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    expect(service.listDeliveries(webhook.id)?.[0]).toMatchObject({
+      state: 'failed',
+      nextAttemptAt: null,
+    });
+    expect(statuses).toEqual([
+      expect.stringContaining('gave up on message after 3 attempts'),
+    ]);
+
+    // The give-up status itself is not sent to the failing endpoint
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,357 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventBus, StreamEvent } from './event-bus';
+import { ConfigService } from './config.service';
+
+export type StreamEventType = StreamEvent['type'];
+
+export const streamEventTypes: StreamEventType[] = [
+  'message',
+  'status',
+  'delivery',
+  'watcher',
+  'auth_challenge',
+  'tunnel_url',
+  'dialog_updated',
+];
+
+export type Webhook = {
+  id: string;
+  url: string;
+  /** Event types to deliver; empty means all. */
+  events: StreamEventType[];
+  secret: string;
+  createdAt: string;
+};
+
+/** Webhook as returned by the API: the secret is never echoed back. */
+export type WebhookView = Omit<Webhook, 'secret'>;
+
+export type WebhookAttempt = {
+  at: string;
+  /** HTTP status of the response; absent when the request itself failed. */
+  status?: number;
+  error?: string;
+  durationMs: number;
+};
+
+export type WebhookDeliveryState =
+  | 'pending'
+  | 'retrying'
+  | 'delivered'
+  | 'failed';
+
+export type WebhookDelivery = {
+  id: string;
+  webhookId: string;
+  eventType: StreamEventType;
+  state: WebhookDeliveryState;
+  attempts: WebhookAttempt[];
+  nextAttemptAt: string | null;
+  createdAt: string;
+};
+
+export type WebhookInput = {
+  url?: string;
+  events?: string[];
+  secret?: string;
+};
+
+type StoredFile = { webhooks?: Partial<Webhook>[] };
+
+const RECENT_DELIVERIES = 100;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+export const SIGNATURE_HEADER = 'x-avito-stream-signature';
+
+/** `sha256=<hex HMAC-SHA256 of the raw body>`, the value of SIGNATURE_HEADER. */
+export function signWebhookBody(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Outbound webhooks: every `StreamEvent` on the bus is POSTed as JSON to the
+ * subscriptions whose filter matches, signed with the subscription secret.
+ *
+ * Failed deliveries are retried with exponential backoff (WEBHOOK_MAX_ATTEMPTS,
+ * WEBHOOK_RETRY_BASE_MS); the ones that run out of attempts go to the
+ * dead-letter log `.avito-webhooks-dead.jsonl`. Subscriptions live in
+ * `.avito-webhooks.json`; recent attempts are kept in memory only.
+ */
+@Injectable()
+export class WebhooksService implements OnModuleDestroy {
+  private readonly filePath: string | null;
+  private readonly deadLetterPath: string | null;
+  private readonly webhooks = new Map<string, Webhook>();
+  private readonly deliveries = new Map<string, WebhookDelivery[]>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  // Status events about our own failures must not be delivered again, or a
+  // broken endpoint would keep feeding itself
+  private readonly ownEvents = new WeakSet<StreamEvent>();
+  private readonly subscription: Subscription;
+
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly bus: EventBus,
+    config: ConfigService,
+  ) {
+    const webhooks = config.get('webhooks');
+    this.maxAttempts = webhooks.maxAttempts;
+    this.retryBaseMs = webhooks.retryBaseMs;
+    this.timeoutMs = webhooks.timeoutMs;
+
+    // In tests keep subscriptions in memory only
+    const inMemory = config.isTest;
+    this.filePath = inMemory
+      ? null
+      : path.join(process.cwd(), '.avito-webhooks.json');
+    this.deadLetterPath = inMemory
+      ? null
+      : path.join(process.cwd(), '.avito-webhooks-dead.jsonl');
+
+    this.load();
+    this.subscription = this.bus.events$.subscribe((evt) => this.dispatch(evt));
+  }
+
+  onModuleDestroy() {
+    this.subscription.unsubscribe();
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  list(): WebhookView[] {
+    return Array.from(this.webhooks.values()).map((w) => this.view(w));
+  }
+
+  get(id: string): WebhookView | null {
+    const webhook = this.webhooks.get(id);
+    return webhook ? this.view(webhook) : null;
+  }
+
+  /**
+   * Creates a subscription. Without `secret` one is generated; either way it
+   * is returned only here.
+   */
+  create(input: WebhookInput): Webhook {
+    const url = String(input.url ?? '').trim();
+    if (!/^https?:\/\//i.test(url)) {
+      throw new Error('url must be an http(s) URL');
+    }
+
+    const webhook: Webhook = {
+      id: randomUUID(),
+      url,
+      events: this.parseEvents(input.events),
+      secret:
+        String(input.secret ?? '').trim() || randomBytes(24).toString('hex'),
+      createdAt: new Date().toISOString(),
+    };
+    this.webhooks.set(webhook.id, webhook);
+    this.save();
+    return webhook;
+  }
+
+  remove(id: string): boolean {
+    if (!this.webhooks.delete(id)) return false;
+    this.deliveries.delete(id);
+    this.save();
+    return true;
+  }
+
+  /** Recent deliveries of a webhook, newest first; null for unknown IDs. */
+  listDeliveries(id: string): WebhookDelivery[] | null {
+    if (!this.webhooks.has(id)) return null;
+    return [...(this.deliveries.get(id) ?? [])].reverse();
+  }
+
+  private dispatch(evt: StreamEvent) {
+    if (this.ownEvents.has(evt)) return;
+    for (const webhook of this.webhooks.values()) {
+      if (webhook.events.length && !webhook.events.includes(evt.type)) continue;
+      this.startDelivery(webhook, evt);
+    }
+  }
+
+  private startDelivery(webhook: Webhook, evt: StreamEvent) {
+    const delivery: WebhookDelivery = {
+      id: randomUUID(),
+      webhookId: webhook.id,
+      eventType: evt.type,
+      state: 'pending',
+      attempts: [],
+      nextAttemptAt: null,
+      createdAt: new Date().toISOString(),
+    };
+
+    const recent = this.deliveries.get(webhook.id) ?? [];
+    recent.push(delivery);
+    if (recent.length > RECENT_DELIVERIES) recent.shift();
+    this.deliveries.set(webhook.id, recent);
+
+    const body = JSON.stringify(evt);
+    void this.attempt(webhook, delivery, body);
+  }
+
+  private async attempt(
+    webhook: Webhook,
+    delivery: WebhookDelivery,
+    body: string,
+  ) {
+    const started = Date.now();
+    const attempt: WebhookAttempt = {
+      at: new Date(started).toISOString(),
+      durationMs: 0,
+    };
+
+    try {
+      const res = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-avito-stream-event': delivery.eventType,
+          'x-avito-stream-delivery': delivery.id,
+          [SIGNATURE_HEADER]: signWebhookBody(webhook.secret, body),
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      attempt.status = res.status;
+      if (!res.ok) attempt.error = `HTTP ${res.status}`;
+    } catch (e: unknown) {
+      attempt.error = e instanceof Error ? e.message : String(e);
+    }
+    attempt.durationMs = Date.now() - started;
+    delivery.attempts.push(attempt);
+
+    if (!attempt.error) {
+      delivery.state = 'delivered';
+      delivery.nextAttemptAt = null;
+      return;
+    }
+
+    // The subscription may have been removed while the request was in flight
+    if (!this.webhooks.has(webhook.id)) {
+      delivery.state = 'failed';
+      delivery.nextAttemptAt = null;
+      return;
+    }
+
+    if (delivery.attempts.length >= this.maxAttempts) {
+      delivery.state = 'failed';
+      delivery.nextAttemptAt = null;
+      this.deadLetter(webhook, delivery, body);
+      return;
+    }
+
+    const delay = Math.min(
+      this.retryBaseMs * 2 ** (delivery.attempts.length - 1),
+      MAX_BACKOFF_MS,
+    );
+    delivery.state = 'retrying';
+    delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      void this.attempt(webhook, delivery, body);
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private deadLetter(
+    webhook: Webhook,
+    delivery: WebhookDelivery,
+    body: string,
+  ) {
+    const last = delivery.attempts[delivery.attempts.length - 1];
+
+    if (this.deadLetterPath) {
+      const record = {
+        at: new Date().toISOString(),
+        webhookId: webhook.id,
+        url: webhook.url,
+        delivery,
+        event: JSON.parse(body) as StreamEvent,
+      };
+      try {
+        fs.appendFileSync(
+          this.deadLetterPath,
+          `${JSON.stringify(record)}\n`,
+          'utf-8',
+        );
+      } catch {
+        // The delivery is still visible in GET /webhooks/:id/deliveries
+      }
+    }
+
+    const status: StreamEvent = {
+      type: 'status',
+      level: 'warn',
+      message: `Webhook ${webhook.id} gave up on ${delivery.eventType} after ${delivery.attempts.length} attempts: ${last?.error ?? 'unknown error'}`,
+      at: new Date().toISOString(),
+    };
+    this.ownEvents.add(status);
+    this.bus.emit(status);
+  }
+
+  private parseEvents(raw: string[] | undefined): StreamEventType[] {
+    if (!Array.isArray(raw)) return [];
+    const events: StreamEventType[] = [];
+    for (const item of raw) {
+      const type = streamEventTypes.find((t) => t === String(item).trim());
+      if (!type) throw new Error(`Unknown event type: ${String(item)}`);
+      if (!events.includes(type)) events.push(type);
+    }
+    return events;
+  }
+
+  private view(webhook: Webhook): WebhookView {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      events: webhook.events,
+      createdAt: webhook.createdAt,
+    };
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const stored = JSON.parse(raw) as StoredFile;
+      for (const item of stored?.webhooks ?? []) {
+        if (!item?.id || !item.url || !item.secret) continue;
+        this.webhooks.set(item.id, {
+          id: item.id,
+          url: item.url,
+          events: (item.events ?? []).filter((t) =>
+            streamEventTypes.includes(t),
+          ),
+          secret: item.secret,
+          createdAt: item.createdAt ?? new Date(0).toISOString(),
+        });
+      }
+    } catch {
+      this.bus.emit({
+        type: 'status',
+        level: 'warn',
+        message: `Webhooks: cannot read ${this.filePath}, starting without subscriptions`,
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  private save() {
+    if (!this.filePath) return;
+    fs.writeFileSync(
+      this.filePath,
+      JSON.stringify({ webhooks: Array.from(this.webhooks.values()) }, null, 2),
+      'utf-8',
+    );
+  }
+}
@@ -1,50 +1,208 @@
-import { OnGatewayConnection, WebSocketGateway, WebSocketServer } from '@nestjs/websockets';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import type { IncomingMessage } from 'http';
 import { Server, WebSocket } from 'ws';
+import { AuthService, Role, hasRole } from './auth.service';
+import { AvitoWatcherService } from './avito.watcher.service';
 import { EventBus, StreamEvent } from './event-bus';
+import { MessageStoreService } from './message-store.service';
+import { MetricsService, metricNames } from './metrics.service';
+import { ScreencastMessage, ScreencastService } from './screencast.service';
+import type { ScreencastInput } from './screencast.service';
+
+type SendCommand = { channelId?: string; text?: string };
+
+type BackfillCommand = { after?: number; limit?: number };
+
+type ScreencastCommand = { watch?: boolean };
+
+/** Close code for sockets without a valid token or session (4000–4999 are app-defined). */
+const WS_UNAUTHORIZED = 4401;
 
 @WebSocketGateway({ path: '/ws' })
 export class WsGateway implements OnGatewayConnection {
   @WebSocketServer()
   server!: Server;
 
-  private history: StreamEvent[] = [];
-  private readonly HISTORY_LIMIT = 50;
+  private readonly roles = new WeakMap<WebSocket, Role>();
+  // Operators that asked for screencast frames
+  private readonly watchers = new WeakSet<WebSocket>();
+
+  constructor(
+    private readonly bus: EventBus,
+    private readonly watcher: AvitoWatcherService,
+    private readonly store: MessageStoreService,
+    private readonly auth: AuthService,
+    private readonly screencast: ScreencastService,
+    metrics: MetricsService,
+  ) {
+    this.bus.events$.subscribe((evt) => this.broadcast(evt));
+    this.screencast.messages$.subscribe((msg) => this.sendScreencast(msg));
+    metrics.gauge(
+      metricNames.wsClients,
+      'Authenticated WebSocket clients',
+      () =>
+        Array.from(this.server?.clients ?? []).filter((c) => this.roles.has(c))
+          .length,
+    );
+  }
+
+  /**
+   * Sockets authenticate like HTTP requests (bearer header, session cookie) or
+   * with `?token=`; the rest are closed before they see any event.
+   */
+  handleConnection(client: WebSocket, req: IncomingMessage) {
+    const role = this.auth.resolve(req.headers, req.url);
+    if (!role) {
+      client.close(WS_UNAUTHORIZED, 'Unauthorized');
+      return;
+    }
+    this.roles.set(client, role);
 
-  constructor(private readonly bus: EventBus) {
-    this.bus.events$.subscribe((evt) => {
-      this.history.push(evt);
-      if (this.history.length > this.HISTORY_LIMIT) this.history.shift();
-      this.broadcast(evt);
+    this.sendTo(client, {
+      type: 'status',
+      level: 'info',
+      message: `WS connected as ${role}`,
+      at: new Date().toISOString(),
     });
   }
 
-  handleConnection(client: WebSocket) {
+  /**
+   * Inbound command: `{ "event": "backfill", "data": { "after": <cursor>, "limit": 100 } }`.
+   * Without `after` replays the newest `limit` stored events.
+   */
+  @SubscribeMessage('backfill')
+  handleBackfill(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() data: BackfillCommand,
+  ) {
+    if (!this.roles.has(client)) return;
+    const after = Number(data?.after);
+    const limit = Number(data?.limit);
+    const page = this.store.query({
+      after: Number.isFinite(after) ? after : undefined,
+      limit: Number.isFinite(limit) ? limit : undefined,
+    });
+
     try {
-      client.send(
-        JSON.stringify({
-          type: 'status',
-          level: 'info',
-          message: 'WS connected',
-          at: new Date().toISOString(),
-        }),
-      );
+      client.send(JSON.stringify({ type: 'backfill', ...page }));
     } catch {
       // ignore
     }
+  }
 
-    for (const evt of this.history) {
-      try {
-        client.send(JSON.stringify(evt));
-      } catch {
-        // ignore
+  /**
+   * Inbound command: `{ "event": "send", "data": { "channelId": "...", "text": "..." } }`.
+   * The result is reported to all clients as `delivery` events. Operators only.
+   */
+  @SubscribeMessage('send')
+  handleSend(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() data: SendCommand,
+  ) {
+    const role = this.roles.get(client);
+    if (!role || !hasRole(role, 'operator')) {
+      this.sendTo(client, {
+        type: 'status',
+        level: 'warn',
+        message: 'Sending replies requires the operator role',
+        at: new Date().toISOString(),
+      });
+      return;
+    }
+    void this.watcher.sendMessage(
+      String(data?.channelId ?? ''),
+      String(data?.text ?? ''),
+    );
+  }
+
+  /**
+   * Inbound command: `{ "event": "screencast", "data": { "watch": true } }` starts
+   * (or with `false` stops) the stream of login screen frames. Operators only.
+   */
+  @SubscribeMessage('screencast')
+  handleScreencast(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() data: ScreencastCommand,
+  ) {
+    if (!this.isOperator(client)) return;
+    if (data?.watch === false) {
+      this.watchers.delete(client);
+      return;
+    }
+    this.watchers.add(client);
+    for (const msg of this.screencast.snapshot()) this.sendRaw(client, msg);
+  }
+
+  /**
+   * Inbound command: `{ "event": "input", "data": { "kind": "click", "x": 10, "y": 20 } }`,
+   * `{ "kind": "type", "text": "1234" }` or `{ "kind": "key", "key": "Enter" }`,
+   * replayed on the streamed login page. Operators only.
+   */
+  @SubscribeMessage('input')
+  handleInput(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() data: ScreencastInput,
+  ) {
+    if (!this.isOperator(client) || !data) return;
+    this.screencast.input(data).catch((e) => {
+      this.sendTo(client, {
+        type: 'status',
+        level: 'warn',
+        message: `Remote input failed: ${e instanceof Error ? e.message : String(e)}`,
+        at: new Date().toISOString(),
+      });
+    });
+  }
+
+  private isOperator(client: WebSocket): boolean {
+    const role = this.roles.get(client);
+    return !!role && hasRole(role, 'operator');
+  }
+
+  private sendScreencast(msg: ScreencastMessage) {
+    for (const client of this.server?.clients ?? []) {
+      if (client.readyState !== client.OPEN || !this.isOperator(client)) {
+        continue;
       }
+      // Every operator learns that a login is waiting; frames only go to watchers
+      if (msg.type === 'screencast_frame' && !this.watchers.has(client)) {
+        continue;
+      }
+      this.sendRaw(client, msg);
+    }
+  }
+
+  private sendRaw(client: WebSocket, msg: ScreencastMessage) {
+    try {
+      client.send(JSON.stringify(msg));
+    } catch {
+      // ignore
+    }
+  }
+
+  private sendTo(client: WebSocket, evt: StreamEvent) {
+    try {
+      client.send(JSON.stringify(evt));
+    } catch {
+      // ignore
     }
   }
 
   private broadcast(evt: StreamEvent) {
-    const payload = JSON.stringify(evt);
-    for (const client of this.server.clients) {
-      if (client.readyState !== client.OPEN) continue;
+    // Stored events carry their cursor so clients can resume with a backfill
+    const cursor = this.store.cursorOf(evt);
+    const payload = JSON.stringify(cursor === null ? evt : { ...evt, cursor });
+    for (const client of this.server?.clients ?? []) {
+      if (client.readyState !== client.OPEN || !this.roles.has(client)) {
+        continue;
+      }
       try {
         client.send(payload);
       } catch {
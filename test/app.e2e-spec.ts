@@ -2,9 +2,15 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication } from '@nestjs/common';
 import { WsAdapter } from '@nestjs/platform-ws';
 import request from 'supertest';
+import { WebSocket } from 'ws';
 import { App } from 'supertest/types';
 import { AppModule } from './../src/app.module';
 
+type OkResponse = { ok: boolean };
+type ConfigResponse = {
+  config: Record<string, Record<string, { env: string; value: unknown }>>;
+};
+
 describe('AppController (e2e)', () => {
   let app: INestApplication<App>;
 
@@ -27,8 +33,377 @@ describe('AppController (e2e)', () => {
       .get('/health')
       .expect(200)
       .expect(({ body }) => {
-        expect(body.ok).toBe(true);
-        expect(typeof body.at).toBe('string');
+        const health = body as OkResponse & { at: unknown; watcher: unknown };
+        expect(health.ok).toBe(true);
+        expect(typeof health.at).toBe('string');
+        expect(health.watcher).toMatchObject({
+          enabled: false,
+          observerInstalled: false,
+          restarts: 0,
+        });
+      });
+  });
+
+  it('/metrics (GET)', () => {
+    return request(app.getHttpServer())
+      .get('/metrics')
+      .expect(200)
+      .expect('content-type', /text\/plain/)
+      .expect(({ text }) => {
+        expect(text).toContain('# TYPE avito_messages_emitted_total counter');
+        expect(text).toContain('avito_ws_clients 0');
+      });
+  });
+
+  it('/watcher/state (GET)', () => {
+    return request(app.getHttpServer())
+      .get('/watcher/state')
+      .expect(200)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({ ok: true, phase: 'idle', paused: false });
+      });
+  });
+
+  it('/settings (PATCH)', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .patch('/settings')
+      .send({ pollIntervalMs: 'fast' })
+      .expect(200)
+      .expect(({ body }) => expect((body as OkResponse).ok).toBe(false));
+    await request(server)
+      .patch('/settings')
+      .send({ pollIntervalMs: 2500 })
+      .expect(200)
+      .expect(({ body }) => {
+        const { settings, overridden } = body as {
+          settings: { pollIntervalMs: number };
+          overridden: string[];
+        };
+        expect(settings.pollIntervalMs).toBe(2500);
+        expect(overridden).toEqual(['pollIntervalMs']);
+      });
+    await request(server)
+      .get('/settings/audit')
+      .expect(200)
+      .expect(({ body }) => {
+        const { audit } = body as { audit: { changes: unknown }[] };
+        expect(audit[0].changes).toEqual([
+          { key: 'pollIntervalMs', from: 1500, to: 2500 },
+        ]);
+      });
+  });
+});
+
+describe('Auth (e2e)', () => {
+  let app: INestApplication<App>;
+
+  beforeEach(async () => {
+    process.env.AUTH_OPERATOR_TOKENS = 'op-token';
+    process.env.AUTH_VIEWER_TOKENS = 'view-token';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useWebSocketAdapter(new WsAdapter(app));
+    await app.listen(0, '127.0.0.1');
+  });
+
+  afterEach(async () => {
+    await app.close();
+    delete process.env.AUTH_OPERATOR_TOKENS;
+    delete process.env.AUTH_VIEWER_TOKENS;
+  });
+
+  it('keeps /health public and the rest behind a token', async () => {
+    const server = app.getHttpServer();
+    await request(server).get('/health').expect(200);
+    await request(server).get('/bind').expect(401);
+    await request(server)
+      .get('/bind')
+      .set('Authorization', 'Bearer view-token')
+      .expect(200);
+  });
+
+  it('requires the operator role for changes', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .post('/webhooks')
+      .set('Authorization', 'Bearer view-token')
+      .send({ url: 'https://example.test/hook' })
+      .expect(403);
+    await request(server)
+      .patch('/settings')
+      .set('Authorization', 'Bearer view-token')
+      .send({ selfName: 'x' })
+      .expect(403);
+    await request(server)
+      .get('/session/cookies')
+      .set('Authorization', 'Bearer view-token')
+      .expect(403);
+    await request(server)
+      .post('/auth/2fa')
+      .set('Authorization', 'Bearer view-token')
+      .send({ code: '1234' })
+      .expect(403);
+    await request(server)
+      .post('/auth/2fa')
+      .set('Authorization', 'Bearer op-token')
+      .send({ code: '1234' })
+      .expect(201)
+      .expect(({ body }) =>
+        expect(body).toEqual({
+          ok: false,
+          message: 'No login code is awaited',
+        }),
+      );
+    await request(server)
+      .get('/session/cookies')
+      .set('Authorization', 'Bearer op-token')
+      .expect(200)
+      .expect(({ body }) => expect((body as OkResponse).ok).toBe(false));
+    await request(server)
+      .delete('/bind/unknown')
+      .set('Authorization', 'Bearer op-token')
+      .expect(200)
+      .expect(({ body }) => expect((body as OkResponse).ok).toBe(false));
+  });
+
+  it('masks secrets in /config', async () => {
+    await request(app.getHttpServer())
+      .get('/config')
+      .set('Authorization', 'Bearer view-token')
+      .expect(200)
+      .expect(({ body, text }) => {
+        const { config } = body as ConfigResponse;
+        expect(config.auth.operatorTokens).toEqual({
+          env: 'AUTH_OPERATOR_TOKENS',
+          value: '***',
+        });
+        expect(config.app.port.value).toBe(3000);
+        expect(text).not.toContain('op-token');
       });
   });
+
+  it('lets viewers read a chat but not reply to it', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .get('/chats/unknown')
+      .set('Authorization', 'Bearer view-token')
+      .expect(200)
+      .expect(({ body }) =>
+        expect(body).toEqual({
+          ok: false,
+          message: 'Chat unknown is not bound',
+        }),
+      );
+    await request(server)
+      .post('/chats/unknown/messages')
+      .set('Authorization', 'Bearer view-token')
+      .send({ text: 'Да' })
+      .expect(403);
+  });
+
+  it('lists the inbox dialogs', async () => {
+    await request(app.getHttpServer())
+      .get('/inbox')
+      .set('Authorization', 'Bearer view-token')
+      .expect(200)
+      .expect(({ body }) =>
+        expect(body).toEqual({
+          ok: true,
+          enabled: false,
+          scannedAt: null,
+          dialogs: [],
+        }),
+      );
+  });
+
+  it('reports the tunnel state', async () => {
+    await request(app.getHttpServer())
+      .get('/tunnel')
+      .set('Authorization', 'Bearer view-token')
+      .expect(200)
+      .expect(({ body }) =>
+        expect(body).toMatchObject({
+          ok: true,
+          provider: null,
+          state: 'disabled',
+          url: null,
+        }),
+      );
+  });
+
+  it('lets only operators restart the tunnel', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .post('/tunnel/restart')
+      .set('Authorization', 'Bearer view-token')
+      .expect(403);
+    await request(server)
+      .post('/tunnel/restart')
+      .set('Authorization', 'Bearer op-token')
+      .expect(201)
+      .expect(({ body }) => expect((body as OkResponse).ok).toBe(false));
+  });
+
+  it('manages auto-reply rules as an operator', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .get('/auto-replies')
+      .set('Authorization', 'Bearer view-token')
+      .expect(403);
+    await request(server)
+      .post('/auto-replies')
+      .set('Authorization', 'Bearer op-token')
+      .send({ name: 'Цена', reply: 'Да' })
+      .expect(201)
+      .expect(({ body }) =>
+        expect(body).toEqual({
+          ok: false,
+          message: 'keywords or pattern: at least one is required',
+        }),
+      );
+
+    const created = await request(server)
+      .post('/auto-replies')
+      .set('Authorization', 'Bearer op-token')
+      .send({ name: 'Цена', keywords: ['цена'], reply: 'Да', dryRun: true })
+      .expect(201);
+    const id = (created.body as { rule: { id: string } }).rule.id;
+    await request(server)
+      .patch(`/auto-replies/${id}`)
+      .set('Authorization', 'Bearer op-token')
+      .send({ enabled: false })
+      .expect(200)
+      .expect(({ body }) =>
+        expect((body as { rule: unknown }).rule).toMatchObject({
+          enabled: false,
+          dryRun: true,
+        }),
+      );
+    await request(server)
+      .delete(`/auto-replies/${id}`)
+      .set('Authorization', 'Bearer op-token')
+      .expect(200);
+    await request(server)
+      .get('/auto-replies')
+      .set('Authorization', 'Bearer op-token')
+      .expect(200)
+      .expect(({ body }) =>
+        expect(body).toEqual({
+          ok: true,
+          dryRun: false,
+          timeZone: 'Europe/Moscow',
+          rules: [],
+        }),
+      );
+  });
+
+  it('renders and sends reply templates', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .get('/templates')
+      .set('Authorization', 'Bearer view-token')
+      .expect(403);
+
+    const created = await request(server)
+      .post('/templates')
+      .set('Authorization', 'Bearer op-token')
+      .send({ name: 'Актуально', text: 'Да, {item} ещё продаётся' })
+      .expect(201);
+    const id = (created.body as { template: { id: string } }).template.id;
+
+    await request(server)
+      .get(`/templates/${id}/render?channelId=u2i-unknown`)
+      .set('Authorization', 'Bearer op-token')
+      .expect(200)
+      .expect(({ body }) =>
+        expect(body).toMatchObject({
+          ok: true,
+          channelId: 'u2i-unknown',
+          text: 'Да,  ещё продаётся',
+        }),
+      );
+    await request(server)
+      .post('/chats/u2i-unknown/messages')
+      .set('Authorization', 'Bearer op-token')
+      .send({ templateId: id })
+      .expect(201)
+      .expect(({ body }) =>
+        expect(body).toMatchObject({
+          ok: false,
+          error: 'Chat u2i-unknown is not open',
+        }),
+      );
+    await request(server)
+      .post('/chats/u2i-unknown/messages')
+      .set('Authorization', 'Bearer op-token')
+      .send({ templateId: 'missing' })
+      .expect(201)
+      .expect(({ body }) =>
+        expect(body).toEqual({
+          ok: false,
+          channelId: 'u2i-unknown',
+          message: 'Template missing not found',
+        }),
+      );
+  });
+
+  it('lets only operators schedule messages', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .get('/scheduled-messages')
+      .set('Authorization', 'Bearer view-token')
+      .expect(403);
+    await request(server)
+      .post('/scheduled-messages')
+      .set('Authorization', 'Bearer op-token')
+      .send({ channelId: 'u2i-unknown', text: 'Привет', delaySeconds: 60 })
+      .expect(201)
+      .expect(({ body }) =>
+        expect(body).toEqual({
+          ok: false,
+          message: 'Chat u2i-unknown is not bound',
+        }),
+      );
+    await request(server)
+      .get('/scheduled-messages')
+      .set('Authorization', 'Bearer op-token')
+      .expect(200)
+      .expect(({ body }) => expect(body).toEqual({ ok: true, messages: [] }));
+  });
+
+  it('logs the dashboard in with a session cookie', async () => {
+    const agent = request.agent(app.getHttpServer());
+    await agent
+      .post('/auth/login')
+      .send({ token: 'nope' })
+      .expect(({ body }) => expect((body as OkResponse).ok).toBe(false));
+    await agent
+      .post('/auth/login')
+      .send({ token: 'view-token' })
+      .expect(({ body }) => expect(body).toEqual({ ok: true, role: 'viewer' }));
+    await agent
+      .get('/auth/me')
+      .expect(({ body }) =>
+        expect((body as { role: string }).role).toBe('viewer'),
+      );
+    await agent.get('/messages').expect(200);
+  });
+
+  it('closes WS connections without a token', async () => {
+    const base = (await app.getUrl()).replace(/^http/, 'ws');
+    const closeCode = (url: string) =>
+      new Promise<number>((resolve) => {
+        const ws = new WebSocket(url);
+        ws.on('message', () => ws.close(1000));
+        ws.on('close', (code: number) => resolve(code));
+      });
+
+    expect(await closeCode(`${base}/ws`)).toBe(4401);
+    expect(await closeCode(`${base}/ws?token=view-token`)).toBe(1000);
+  });
 });